@@ -1,29 +1,126 @@
 import { useEffect, useState } from 'react';
-import { Plus, Trash2, Tag, Calculator, Share2, AlertCircle } from 'lucide-react';
-import type { Coupon, OptimizationResult } from './types';
-import { calculateOptimization } from './lib/optimizer';
-import { useUrlState } from './hooks/useUrlState';
+import { Plus, Tag, Calculator, Share2, AlertCircle, Loader2, CheckCircle2, ClipboardPaste, X, Undo2, Redo2 } from 'lucide-react';
+import type { ApplicationRule, AppState, CartItem, Coupon, GroupSettings, OptimizationMode, TieBreak } from './types';
+import { TIE_BREAK_LABELS } from './lib/alternatives';
+import { cartTotal } from './lib/cart';
+import { checkoutPlan } from './lib/checkout';
+import { describeUse } from './lib/coupons';
+import { COMMON_CURRENCIES, currencyScale, currencySymbol, formatMoney, inputStep } from './lib/currency';
+import { todayIso } from './lib/planner';
+import { buildSolveRequest, horizonPurchases } from './lib/solveRequest';
+import { groupTotal } from './lib/split';
+import { issueFor, parseNumberInput, validateOrderSettings, validateTotal } from './lib/validation';
+import { deductUsage, detachFromItems } from './lib/wallet';
+import { decodeState, encodeState, useUrlState } from './hooks/useUrlState';
+import { useOptimizer } from './hooks/useOptimizer';
+import { useWallets } from './hooks/useWallets';
+import CartSection from './components/CartSection';
+import CheckoutPrintView from './components/CheckoutPrintView';
+import CouponRow from './components/CouponRow';
+import ExclusionsView from './components/ExclusionsView';
+import ExportPanel from './components/ExportPanel';
+import FieldMessage from './components/FieldMessage';
+import GroupSection from './components/GroupSection';
+import GroupSplitView from './components/GroupSplitView';
+import HorizonView from './components/HorizonView';
+import IgnoredInputsView from './components/IgnoredInputsView';
+import ImportPanel from './components/ImportPanel';
+import OrdersView from './components/OrdersView';
+import PurchasesSection from './components/PurchasesSection';
+import StackingRulesSection from './components/StackingRulesSection';
+import SavingsChart from './components/SavingsChart';
+import TopUpPanel from './components/TopUpPanel';
+import VerificationBadge from './components/VerificationBadge';
+import WalletBar from './components/WalletBar';
+
+// Strategies offered as tabs
+const ALTERNATIVES = 3;
+
+// Fields with a native undo of their own
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file'].includes(target.type);
+}
 
 function App() {
-  const { state, updateState } = useUrlState();
-  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const { state, updateState: setUrlState, undo, redo, canUndo, canRedo, loadErrors, dismissLoadErrors, recipientId } = useUrlState();
+  const { wallets, createWallet, updateWallet, removeWallet, problem: walletProblem, saveError: walletSaveError, overwriteStored } = useWallets();
+  const [walletId, setWalletId] = useState<string | null>(null);
+  const activeWallet = wallets.find((w) => w.id === walletId) ?? null;
+  const currency = state.currency;
   const [copied, setCopied] = useState(false);
+  const [topUpLimit, setTopUpLimit] = useState(50);
+  const [tieBreak, setTieBreak] = useState<TieBreak>('fewest-coupons');
+  const [strategyIndex, setStrategyIndex] = useState(0);
+  const [today] = useState(todayIso);
+  const [importing, setImporting] = useState(false);
 
-  // Debounced calculation could be better, but for now instant
-  useEffect(() => {
-    if (state.total >= 0) {
-      try {
-        const res = calculateOptimization(state.coupons, state.total);
-        setResult(res);
-      } catch (e) {
-        console.error(e);
-      }
+  const purchases = horizonPurchases(state, today);
+
+  // Solved in a worker; `stale` while the shown result belongs to older input
+  const request = buildSolveRequest(state, { topUpLimit, alternatives: ALTERNATIVES, tieBreak, today, curve: true, couponValues: true });
+  const { result, stale, progress, error } = useOptimizer(request.coupons, request.total, request.options);
+
+  const strategies = result?.alternatives ?? [];
+  // The chosen tab may no longer exist after the inputs changed
+  const strategy = strategies.length > 0 ? strategies[Math.min(strategyIndex, strategies.length - 1)] : null;
+  const shownIndex = strategy ? strategies.indexOf(strategy) : 0;
+  // The strategy on screen, written out for printing and export
+  const plan = result && result.totalOriginal > 0
+    ? checkoutPlan(state, result, shownIndex, `${window.location.origin}${window.location.pathname}?${encodeState(state)}`)
+    : null;
+
+  // Coupon edits are saved to the selected wallet as well
+  const updateState = (newState: AppState) => {
+    setUrlState(newState);
+    if (walletId && newState.coupons !== state.coupons) {
+      updateWallet(walletId, { coupons: newState.coupons });
+    }
+  };
+
+  const selectWallet = (id: string | null) => {
+    setWalletId(id);
+    const wallet = wallets.find((w) => w.id === id);
+    if (wallet) setUrlState({ ...state, coupons: wallet.coupons, currency: wallet.currency ?? state.currency });
+  };
+
+  const saveWallet = () => {
+    setWalletId(createWallet({ store: '', notes: '', currency, coupons: state.coupons }));
+  };
+
+  // What went wrong, shown under the link field
+  const importLink = (link: string): string[] => {
+    let search: string;
+    try {
+      search = new URL(link, window.location.href).search;
+    } catch {
+      return ['That is not a link. Paste the whole address of a shared page.'];
     }
-  }, [state]);
+    const { state: shared, errors } = decodeState(search);
+    const imported = detachFromItems(shared.coupons);
+    if (imported.length === 0) {
+      return errors.length > 0 ? errors : ['No coupons found in that link.'];
+    }
+    if (activeWallet) {
+      updateState({ ...state, coupons: [...state.coupons, ...imported] });
+    } else {
+      setWalletId(createWallet({ store: '', notes: '', currency: shared.currency, coupons: imported }));
+      setUrlState({ ...state, coupons: imported, currency: shared.currency });
+    }
+    return [];
+  };
+
+  // Used coupons leave the wallet once the order is placed
+  const checkOut = () => {
+    const used = strategy?.solution ?? result?.solution ?? [];
+    updateState({ ...state, coupons: deductUsage(state.coupons, used) });
+  };
 
   const addCoupon = () => {
     const newCoupon: Coupon = {
       id: `c-${Date.now()}`,
+      kind: 'fixed',
       threshold: 100,
       discount: 10,
       count: 1,
@@ -38,12 +135,12 @@ function App() {
     });
   };
 
-  const updateCoupon = (id: string, field: keyof Coupon, value: number) => {
+  const updateCoupon = (coupon: Coupon) => {
     updateState({
       ...state,
       coupons: state.coupons.map((c) => {
-        if (c.id === id) {
-          return { ...c, [field]: value };
+        if (c.id === coupon.id) {
+          return coupon;
         }
         return c;
       }),
@@ -54,191 +151,495 @@ function App() {
     updateState({ ...state, total: val });
   };
 
+  const updateItems = (items: CartItem[]) => {
+    // Keep item restrictions pointing at items that still exist
+    const itemIds = new Set(items.map((i) => i.id));
+    const coupons = state.coupons.map((c) =>
+      c.scope?.itemIds ? { ...c, scope: { ...c.scope, itemIds: c.scope.itemIds.filter((id) => itemIds.has(id)) } } : c
+    );
+    updateState({ ...state, items, coupons, total: items.length > 0 ? cartTotal(items, currencyScale(currency)) : state.total });
+  };
+
+  // A person's coupons go back to everyone when they leave the group
+  const updateGroup = (group: GroupSettings) => {
+    const ids = new Set(group.participants.map((p) => p.id));
+    const coupons = state.coupons.map((c) => (c.ownerId && !ids.has(c.ownerId) ? { ...c, ownerId: undefined } : c));
+    updateState({ ...state, group, coupons });
+  };
+
+  const hasItems = state.items.length > 0;
+  const grouped = state.group.participants.length > 0;
+  // Each coupon sees the price the ones before it left, so the steps show the running price
+  const sequential = state.mode === 'basket' && state.application === 'sequential';
+  const shownTotal = grouped ? groupTotal(state.group.participants, currencyScale(currency)) : state.total;
+  // The total is only typed in when nothing else adds it up
+  const totalIssue = hasItems || grouped ? undefined : issueFor(validateTotal(state.total, currency), 'total');
+  const orderIssues = validateOrderSettings(state.orders, currency);
+
   const copyLink = () => {
     navigator.clipboard.writeText(window.location.href);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleFloatInput = (val: string): number => {
-    if (val === '') return NaN;
-    return parseFloat(val);
-  };
-
-  const handleIntInput = (val: string): number => {
-    if (val === '') return NaN;
-    return parseInt(val, 10);
-  };
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y outside text fields, which keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
   return (
-    <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20">
-      <div className="max-w-3xl mx-auto px-4 py-12">
-        <header className="mb-10 text-center">
-          <h1 className="text-4xl font-extrabold text-blue-600 tracking-tight mb-2">Discount Optimizer</h1>
-          <p className="text-gray-500">Calculate the optimal coupon combination.</p>
-        </header>
-
-        <main className="space-y-8">
-          {/* Total Input Section */}
-          <section className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-            <label className="block text-sm font-semibold text-gray-700 mb-2">Total Cart Amount ($)</label>
-            <div className="relative">
-              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 font-bold">$</span>
-              <input
-                type="number"
-                min="0"
-                step="0.01"
-                value={isNaN(state.total) ? '' : state.total}
-                onChange={(e) => updateTotal(handleFloatInput(e.target.value))}
-                className="w-full pl-8 pr-4 py-3 text-xl font-medium border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                placeholder="0.00"
-              />
-            </div>
-          </section>
-
-          {/* Coupons Section */}
-          <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-            <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
-              <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800">
-                <Tag className="w-5 h-5 text-blue-500" />
-                Available Coupons
-              </h2>
+    <>
+      <div className="min-h-screen bg-gray-50 text-gray-900 font-sans pb-20 print:hidden">
+        <div className="max-w-3xl mx-auto px-4 py-12">
+          <header className="mb-10 text-center">
+            <h1 className="text-4xl font-extrabold text-blue-600 tracking-tight mb-2">Discount Optimizer</h1>
+            <p className="text-gray-500">Calculate the optimal coupon combination.</p>
+            <div className="mt-4 flex justify-center gap-2">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                <Undo2 className="w-4 h-4" /> Undo
+              </button>
               <button
-                onClick={addCoupon}
-                className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
               >
-                <Plus className="w-4 h-4" />
-                Add Coupon
+                <Redo2 className="w-4 h-4" /> Redo
               </button>
             </div>
+          </header>
 
-            <div className="divide-y divide-gray-100">
-              {state.coupons.length === 0 ? (
-                <div className="p-12 text-center text-gray-400">
-                  <p>No coupons added yet.</p>
-                  <button onClick={addCoupon} className="text-blue-500 hover:underline mt-2">Add your first coupon</button>
+          <main className="space-y-8">
+            {loadErrors.length > 0 && (
+              <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-100 rounded-xl">
+                <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+                <div className="flex-1 text-sm text-red-700">
+                  <p className="font-semibold mb-1">There were problems with the shared link</p>
+                  {loadErrors.map((message) => (
+                    <p key={message}>{message}</p>
+                  ))}
                 </div>
-              ) : (
-                state.coupons.map((coupon) => (
-                  <div key={coupon.id} className="p-4 flex flex-col sm:flex-row gap-4 items-start sm:items-center group hover:bg-gray-50 transition-colors">
-                    <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
-                      <div>
-                        <label className="text-xs font-medium text-gray-500 mb-1 block">Spend ($)</label>
-                        <input
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          value={isNaN(coupon.threshold) ? '' : coupon.threshold}
-                          onChange={(e) => updateCoupon(coupon.id, 'threshold', handleFloatInput(e.target.value))}
-                          className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-xs font-medium text-gray-500 mb-1 block">Get Off ($)</label>
-                        <div className="relative">
-                          <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 text-xs">-</span>
-                          <input
-                            type="number"
-                            min="0"
-                            step="0.01"
-                            value={isNaN(coupon.discount) ? '' : coupon.discount}
-                            onChange={(e) => updateCoupon(coupon.id, 'discount', handleFloatInput(e.target.value))}
-                            className="w-full pl-6 pr-3 py-2 border border-gray-200 rounded-md focus:ring-green-500 focus:border-green-500 outline-none text-sm font-medium text-green-700"
-                          />
-                        </div>
+                <button onClick={dismissLoadErrors} className="text-red-400 hover:text-red-600" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <WalletBar
+              wallets={wallets}
+              active={activeWallet}
+              onSelect={selectWallet}
+              onCreate={saveWallet}
+              onChange={(patch) => activeWallet && updateWallet(activeWallet.id, patch)}
+              onRemove={() => {
+                if (activeWallet) removeWallet(activeWallet.id);
+                setWalletId(null);
+              }}
+              onImport={importLink}
+              problem={walletProblem}
+              saveError={walletSaveError}
+              onOverwrite={overwriteStored}
+            />
+
+            {/* Total Input Section */}
+            <section className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Total Cart Amount ({currencySymbol(currency)})</label>
+              <div className="relative">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 font-bold">{currencySymbol(currency)}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step={inputStep(currency)}
+                  value={isNaN(shownTotal) ? '' : shownTotal}
+                  onChange={(e) => updateTotal(parseNumberInput(e.target.value))}
+                  disabled={hasItems || grouped}
+                  aria-invalid={totalIssue?.severity === 'error'}
+                  className="w-full pl-8 pr-4 py-3 text-xl font-medium border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all disabled:bg-gray-50 disabled:text-gray-500 aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50"
+                  placeholder="0.00"
+                />
+              </div>
+              <FieldMessage issue={totalIssue} />
+              {grouped ? (
+                <p className="mt-2 text-xs text-gray-400">The group's subtotals added up. Cart items and upcoming purchases are left out of group orders.</p>
+              ) : hasItems && <p className="mt-2 text-xs text-gray-400">Calculated from the cart items below.</p>}
+
+              <div className="mt-6 flex flex-wrap items-end gap-4">
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Currency</label>
+                  <select
+                    value={currency}
+                    onChange={(e) => {
+                      updateState({ ...state, currency: e.target.value });
+                      if (walletId) updateWallet(walletId, { currency: e.target.value });
+                    }}
+                    className="px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm bg-white"
+                  >
+                    {(COMMON_CURRENCIES.includes(currency) ? COMMON_CURRENCIES : [currency, ...COMMON_CURRENCIES]).map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Checkout</label>
+                  <select
+                    value={state.mode}
+                    onChange={(e) => updateState({ ...state, mode: e.target.value as OptimizationMode })}
+                    className="px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm bg-white"
+                  >
+                    <option value="basket">Single order, stack all coupons</option>
+                    <option value="orders">Split into several orders</option>
+                  </select>
+                </div>
+                {state.mode === 'basket' && (
+                  <div>
+                    <label className="text-xs font-medium text-gray-500 mb-1 block">Minimum spend is checked against</label>
+                    <select
+                      value={state.application}
+                      onChange={(e) => updateState({ ...state, application: e.target.value as ApplicationRule })}
+                      className="px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm bg-white"
+                    >
+                      <option value="independent">The original total</option>
+                      <option value="sequential">The price after earlier coupons</option>
+                    </select>
+                  </div>
+                )}
+                {state.mode === 'orders' && (
+                  <>
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">Coupons per order</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={isNaN(state.orders.maxCouponsPerOrder) ? '' : state.orders.maxCouponsPerOrder}
+                        onChange={(e) => updateState({ ...state, orders: { ...state.orders, maxCouponsPerOrder: parseNumberInput(e.target.value) } })}
+                        aria-invalid={issueFor(orderIssues, 'maxCouponsPerOrder')?.severity === 'error'}
+                        className="w-28 px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">Fee per order ({currencySymbol(currency)})</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step={inputStep(currency)}
+                        value={isNaN(state.orders.orderFee) ? '' : state.orders.orderFee}
+                        onChange={(e) => updateState({ ...state, orders: { ...state.orders, orderFee: parseNumberInput(e.target.value) } })}
+                        aria-invalid={issueFor(orderIssues, 'orderFee')?.severity === 'error'}
+                        className="w-28 px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50"
+                      />
+                    </div>
+                    <div className="basis-full -mt-3 empty:hidden">
+                      <FieldMessage issue={issueFor(orderIssues, 'maxCouponsPerOrder')} />
+                      <FieldMessage issue={issueFor(orderIssues, 'orderFee')} />
+                    </div>
+                  </>
+                )}
+              </div>
+            </section>
+
+            <GroupSection group={state.group} currency={currency} onChange={updateGroup} />
+
+            {!grouped && (
+              <>
+                <CartSection items={state.items} currency={currency} onChange={updateItems} />
+
+                <PurchasesSection purchases={state.purchases} currency={currency} onChange={(p) => updateState({ ...state, purchases: p })} />
+              </>
+            )}
+
+            {/* Coupons Section */}
+            <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+                <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800">
+                  <Tag className="w-5 h-5 text-blue-500" />
+                  Available Coupons
+                </h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setImporting(!importing)}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+                  >
+                    <ClipboardPaste className="w-4 h-4" />
+                    Paste
+                  </button>
+                  <button
+                    onClick={addCoupon}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Coupon
+                  </button>
+                </div>
+              </div>
+
+              {importing && (
+                <ImportPanel
+                  items={state.items}
+                  currency={currency}
+                  onAdd={(coupons) => {
+                    updateState({ ...state, coupons: [...state.coupons, ...coupons] });
+                    setImporting(false);
+                  }}
+                  onClose={() => setImporting(false)}
+                />
+              )}
+
+              <div className="divide-y divide-gray-100">
+                {state.coupons.length === 0 ? (
+                  <div className="p-12 text-center text-gray-400">
+                    <p>No coupons added yet.</p>
+                    <button onClick={addCoupon} className="text-blue-500 hover:underline mt-2">Add your first coupon</button>
+                  </div>
+                ) : (
+                  state.coupons.map((coupon) => (
+                    <CouponRow
+                      key={coupon.id}
+                      coupon={coupon}
+                      items={state.items}
+                      participants={state.group.participants}
+                      currency={currency}
+                      value={stale ? undefined : result?.couponValues?.find((v) => v.couponId === coupon.id)}
+                      onChange={updateCoupon}
+                      onRemove={() => removeCoupon(coupon.id)}
+                    />
+                  ))
+                )}
+              </div>
+            </section>
+
+            <StackingRulesSection rules={state.rules} coupons={state.coupons} onChange={(rules) => updateState({ ...state, rules })} />
+
+            {/* Results Section */}
+            {result && (result.totalOriginal > 0) && (
+              <section className="relative bg-gradient-to-br from-gray-900 to-gray-800 rounded-xl shadow-xl text-white overflow-hidden">
+                {stale && (
+                  <div className="absolute top-0 inset-x-0">
+                    <div className="h-1 bg-white/10">
+                      <div className="h-full bg-blue-400 transition-all" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+                    </div>
+                    <p className="flex items-center justify-end gap-1.5 px-4 pt-2 text-xs text-gray-400">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Updating…
+                    </p>
+                  </div>
+                )}
+                <div className={`p-6 sm:p-8 transition-opacity ${stale ? 'opacity-50' : ''}`}>
+                  {error && (
+                    <div className="mb-6 bg-red-900/40 border border-red-700/50 rounded-lg p-4 flex items-start gap-3">
+                      <AlertCircle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+                      <p className="text-red-200 text-sm leading-relaxed">The optimizer failed: {error}</p>
+                    </div>
+                  )}
+                  {result.ignored && <IgnoredInputsView ignored={result.ignored} state={state} />}
+                  {result.warning && (
+                    <div className="mb-6 bg-yellow-900/40 border border-yellow-700/50 rounded-lg p-4 flex items-start gap-3">
+                      <AlertCircle className="w-5 h-5 text-yellow-500 shrink-0 mt-0.5" />
+                      <p className="text-yellow-200 text-sm leading-relaxed">{result.warning}</p>
+                    </div>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end mb-8 gap-6">
+                    <div>
+                      <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">Final Price To Pay</h3>
+                      <div className="text-5xl font-bold tracking-tight text-white">
+                        {formatMoney(result.finalPrice, currency)}
                       </div>
-                      <div>
-                        <label className="text-xs font-medium text-gray-500 mb-1 block">Quantity</label>
-                        <input
-                          type="number"
-                          min="1"
-                          value={isNaN(coupon.count) ? '' : coupon.count}
-                          onChange={(e) => updateCoupon(coupon.id, 'count', handleIntInput(e.target.value))}
-                          className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                        />
+                      <div className="mt-2 text-green-400 font-medium flex items-center gap-2">
+                        <span className="bg-green-500/20 px-2 py-0.5 rounded text-sm">Saved {formatMoney(result.totalOriginal - result.finalPrice, currency)}</span>
+                        <span className="text-gray-400 text-sm">from {formatMoney(result.totalOriginal, currency)}</span>
                       </div>
+                      {result.verification && <VerificationBadge verification={result.verification} currency={currency} />}
+                      {result.discountUpperBound !== undefined && (
+                        <p className="mt-1 text-yellow-300 text-xs">
+                          Best found, not proven optimal. No plan saves more than {formatMoney(result.discountUpperBound, currency)}.
+                        </p>
+                      )}
+                      {!!result.extraFees && (
+                        <p className="mt-1 text-gray-400 text-xs">
+                          {formatMoney(result.totalDiscount, currency)} in coupons minus {formatMoney(result.extraFees, currency)} in extra order fees
+                        </p>
+                      )}
                     </div>
                     <button
-                      onClick={() => removeCoupon(coupon.id)}
-                      className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all mt-4 sm:mt-0"
-                      title="Remove Coupon"
+                      onClick={copyLink}
+                      className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
                     >
-                      <Trash2 className="w-5 h-5" />
+                      <Share2 className="w-4 h-4" />
+                      {copied ? 'Link Copied!' : 'Share Result'}
                     </button>
                   </div>
-                ))
-              )}
-            </div>
-          </section>
-
-          {/* Results Section */}
-          {result && (state.total > 0) && (
-            <section className="bg-gradient-to-br from-gray-900 to-gray-800 rounded-xl shadow-xl text-white overflow-hidden">
-              <div className="p-6 sm:p-8">
-                {result.warning && (
-                  <div className="mb-6 bg-yellow-900/40 border border-yellow-700/50 rounded-lg p-4 flex items-start gap-3">
-                    <AlertCircle className="w-5 h-5 text-yellow-500 shrink-0 mt-0.5" />
-                    <p className="text-yellow-200 text-sm leading-relaxed">{result.warning}</p>
+
+                  <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                      <h4 className="text-white font-semibold flex items-center gap-2">
+                        <Calculator className="w-4 h-4 text-blue-400" />
+                        {result.discountUpperBound !== undefined ? 'Best Strategy Found' : 'Optimal Strategy'}
+                      </h4>
+                      {!result.orders && !sequential && (
+                        <label className="text-xs text-gray-400 flex items-center gap-2">
+                          On ties
+                          <select
+                            value={tieBreak}
+                            onChange={(e) => setTieBreak(e.target.value as TieBreak)}
+                            className="px-2 py-1 bg-white/10 border border-white/10 rounded text-white text-sm outline-none focus:border-blue-400"
+                          >
+                            {(Object.keys(TIE_BREAK_LABELS) as TieBreak[]).map((t) => (
+                              <option key={t} value={t} className="text-gray-900">{TIE_BREAK_LABELS[t]}</option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </div>
+
+                    {sequential && result.solution.length > 0 && (
+                      <p className="text-xs text-gray-400 mb-3">
+                        Apply the coupons in this order. Each one's minimum spend is checked against the price after the ones above it.
+                      </p>
+                    )}
+
+                    {strategies.length > 1 && !result.orders && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {strategies.map((s, idx) => (
+                          <button
+                            key={idx}
+                            onClick={() => setStrategyIndex(idx)}
+                            className={`px-3 py-1 rounded-full text-xs border transition-colors ${idx === shownIndex ? 'bg-blue-500/30 border-blue-400 text-white' : 'border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                            Plan {idx + 1}
+                            <span className="ml-1.5 font-mono">{s.gap > 0 ? `-${formatMoney(s.gap, currency)}` : 'best'}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {result.solution.length === 0 ? (
+                      <p className="text-gray-400 text-sm italic">No coupons applied. (Either input is zero or no coupons fit)</p>
+                    ) : result.orders ? (
+                      <OrdersView orders={result.orders} coupons={state.coupons} items={state.items} currency={currency} />
+                    ) : (
+                      <ol className="space-y-3">
+                        {(strategy?.steps ?? result.steps ?? result.solution).map((usage, idx) => {
+                          const original = state.coupons.find(c => c.id === usage.couponId);
+                          if (!original) return null;
+                          const allocation = (strategy ?? result).allocations?.find(a => a.couponId === usage.couponId);
+                          return (
+                            <li key={idx} className="text-sm border-b border-white/10 pb-2 last:border-0 last:pb-0">
+                              <div className="flex justify-between items-center">
+                                <span className="text-gray-300">
+                                  <span className="text-white font-bold mr-2">{usage.count}x</span>
+                                  Use coupon
+                                  <span className="mx-1 text-blue-300">{describeUse(original, usage.tier, currency)}</span>
+                                </span>
+                                <span className="text-green-400 font-mono">
+                                  -{formatMoney(usage.discount, currency)}
+                                  {sequential && result.steps?.[idx] && (
+                                    <span className="text-gray-400 ml-2">→ {formatMoney(result.steps[idx].priceAfter, currency)}</span>
+                                  )}
+                                </span>
+                              </div>
+                              {allocation && allocation.items.length > 0 && (
+                                <p className="mt-1 text-xs text-gray-400">
+                                  Counts:{' '}
+                                  {allocation.items.map((a) => {
+                                    const item = state.items.find(i => i.id === a.itemId);
+                                    return `${item?.name || 'Unnamed item'} (${formatMoney(a.amount, currency)})`;
+                                  }).join(', ')}
+                                </p>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    )}
                   </div>
-                )}
 
-                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end mb-8 gap-6">
-                  <div>
-                    <h3 className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">Final Price To Pay</h3>
-                    <div className="text-5xl font-bold tracking-tight text-white">
-                      ${result.finalPrice.toFixed(2)}
+                  {plan && (
+                    <div className="mt-4">
+                      <ExportPanel plan={plan} result={result} coupons={state.coupons} />
                     </div>
-                    <div className="mt-2 text-green-400 font-medium flex items-center gap-2">
-                      <span className="bg-green-500/20 px-2 py-0.5 rounded text-sm">Saved ${result.totalDiscount.toFixed(2)}</span>
-                      <span className="text-gray-400 text-sm">from ${result.totalOriginal.toFixed(2)}</span>
+                  )}
+
+                  {activeWallet && result.solution.length > 0 && (
+                    <button
+                      onClick={checkOut}
+                      disabled={stale}
+                      className="mt-4 flex items-center gap-2 px-4 py-2 bg-green-500/20 hover:bg-green-500/30 text-green-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      <CheckCircle2 className="w-4 h-4" />
+                      Checked out: remove used coupons from {activeWallet.store || 'the wallet'}
+                    </button>
+                  )}
+
+                  {result.exclusions && result.exclusions.length > 0 && (
+                    <div className="mt-6">
+                      <ExclusionsView exclusions={result.exclusions} coupons={state.coupons} currency={currency} />
                     </div>
-                  </div>
-                  <button
-                    onClick={copyLink}
-                    className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-medium transition-colors backdrop-blur-sm"
-                  >
-                    <Share2 className="w-4 h-4" />
-                    {copied ? 'Link Copied!' : 'Share Result'}
-                  </button>
-                </div>
+                  )}
+
+                  {result.split && (
+                    <div className="mt-6">
+                      <GroupSplitView
+                        split={result.split}
+                        participants={state.group.participants}
+                        highlightId={recipientId}
+                        currency={currency}
+                        linkFor={(id) => `${window.location.origin}${window.location.pathname}?${encodeState(state, id)}`}
+                      />
+                    </div>
+                  )}
+
+                  {result.horizon && (
+                    <div className="mt-6">
+                      <HorizonView plan={result.horizon} purchases={purchases} coupons={state.coupons} currency={currency} />
+                    </div>
+                  )}
 
-                <div className="bg-white/5 rounded-lg p-6 border border-white/10">
-                  <h4 className="text-white font-semibold mb-4 flex items-center gap-2">
-                    <Calculator className="w-4 h-4 text-blue-400" />
-                    Optimal Strategy
-                  </h4>
-
-                  {result.solution.length === 0 ? (
-                    <p className="text-gray-400 text-sm italic">No coupons applied. (Either input is zero or no coupons fit)</p>
-                  ) : (
-                    <ul className="space-y-3">
-                      {result.solution.map((usage, idx) => {
-                        const original = state.coupons.find(c => c.id === usage.couponId);
-                        if (!original) return null;
-                        return (
-                          <li key={idx} className="flex justify-between items-center text-sm border-b border-white/10 pb-2 last:border-0 last:pb-0">
-                            <span className="text-gray-300">
-                              <span className="text-white font-bold mr-2">{usage.count}x</span>
-                              Use coupon
-                              <span className="mx-1 text-blue-300">Spend ${original.threshold} / Get ${original.discount} Off</span>
-                            </span>
-                            <span className="text-green-400 font-mono">-${(original.discount * usage.count).toFixed(2)}</span>
-                          </li>
-                        );
-                      })}
-                    </ul>
+                  {result.savingsCurve && (
+                    <div className="mt-6">
+                      <SavingsChart curve={result.savingsCurve} total={result.totalOriginal} coupons={state.coupons} currency={currency} />
+                    </div>
+                  )}
+
+                  {result.topUps && (
+                    <div className="mt-6">
+                      <TopUpPanel
+                        suggestions={result.topUps}
+                        coupons={state.coupons}
+                        currency={currency}
+                        limit={topUpLimit}
+                        onLimitChange={setTopUpLimit}
+                      />
+                    </div>
                   )}
                 </div>
-              </div>
-            </section>
-          )}
+              </section>
+            )}
 
-          <footer className="text-center text-gray-400 text-sm py-8">
-            <p>Discount Optimizer &copy; 2026.</p>
-          </footer>
-        </main>
+            <footer className="text-center text-gray-400 text-sm py-8">
+              <p>Discount Optimizer &copy; 2026.</p>
+            </footer>
+          </main>
+        </div>
       </div>
-    </div>
+      {plan && <CheckoutPrintView plan={plan} />}
+    </>
   );
 }
 
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { csvRecords, parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+    it("reads quoted fields, doubled quotes and either line end", () => {
+        expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([
+            ["a", "b, c", 'say "hi"'],
+            ["1", "2", "3"]
+        ]);
+    });
+
+    it("keeps line breaks inside quotes and skips blank lines", () => {
+        expect(parseCsv('"x\ny",1\n\n,\n2,3')).toEqual([["x\ny", "1"], ["2", "3"]]);
+    });
+});
+
+describe("csvRecords", () => {
+    it("keys rows by the trimmed, lower-cased header and leaves out empty cells", () => {
+        expect(csvRecords("﻿ Threshold ,Discount,Count\n100, 20 ,\n")).toEqual([{ threshold: "100", discount: "20" }]);
+    });
+
+    it("returns nothing for empty input", () => {
+        expect(csvRecords("")).toEqual([]);
+    });
+});
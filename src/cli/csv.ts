@@ -0,0 +1,57 @@
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF line ends.
+export function parseCsv(input: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines carry no record
+    return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+/**
+ * Rows keyed by the header row's column names (lower-cased, trimmed). Empty cells are left out
+ * so they read like missing JSON fields.
+ */
+export function csvRecords(input: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(input.replace(/^\uFEFF/, ""));
+    if (!header) return [];
+    const columns = header.map(name => name.trim().toLowerCase());
+    return rows.map(row => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, idx) => {
+            const cell = row[idx]?.trim();
+            if (column && cell) record[column] = cell;
+        });
+        return record;
+    });
+}
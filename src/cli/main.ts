@@ -0,0 +1,294 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import type { AppState, CouponUsage, OptimizationResult, TieBreak } from "../types";
+import { TIE_BREAK_LABELS } from "../lib/alternatives";
+import { calculateOptimization } from "../lib/optimizer";
+import { describeUse } from "../lib/coupons";
+import { formatMoney } from "../lib/currency";
+import { todayIso } from "../lib/planner";
+import { decodeShareLink } from "../lib/shareLink";
+import { buildSolveRequest } from "../lib/solveRequest";
+import { readCouponJson, readStateJson } from "../lib/stateJson";
+import { csvRecords } from "./csv";
+
+const USAGE = `Usage: discount-optimizer [options] [state.json ...]
+
+Solves one or more carts with the same engine as the web page.
+
+Inputs (files may be "-" for stdin; .csv files are read as CSV, anything else as JSON):
+  state.json              Saved page state: an object with total, coupons, items, ... or a list of them
+  -c, --coupons <file>    Coupons for every cart: a JSON list, or CSV with columns
+                          kind, threshold, discount, percent, cap, count, tiers (100:10;200:25),
+                          label, group, exclusive, expires, categories (a;b)
+  -t, --total <amount>    A cart total; repeat for several carts
+      --carts <file>      Carts: a JSON list of totals or state objects, or CSV with a total column
+  -l, --link <url>        A share link copied from the page; repeat for several
+
+Settings (defaults for carts that don't set their own):
+      --currency <code>   ISO 4217 code (default USD)
+      --mode <mode>       basket (default) or orders
+      --per-order <n>     Coupons per order in orders mode (default 1)
+      --order-fee <n>     Fee per order in orders mode (default 0)
+      --max-coupons <n>   Coupons allowed in one order
+      --thresholds <rule> independent (default): minimum spends are checked against the total;
+                          sequential: against the price after the coupons applied before
+      --alternatives <n>  Rank this many strategies (default 3)
+      --tie-break <rule>  fewest-coupons (default), keep-largest or expiring-first
+      --top-up <amount>   Look for top-ups up to this much extra spend
+
+Output:
+  -f, --format <format>   table (default) or json
+  -h, --help
+`;
+
+// Exit codes: bad arguments, unreadable input
+const EXIT_USAGE = 2;
+const EXIT_INPUT = 1;
+
+// Bad arguments; reported together with the usage text
+function usageError(message: string): Error {
+    const error = new Error(message);
+    error.name = "UsageError";
+    return error;
+}
+
+interface Cart {
+    name: string;
+    state: AppState;
+    // Problems reading this cart's input
+    warnings: string[];
+}
+
+function readInput(file: string): string {
+    return readFileSync(file === "-" ? 0 : file, "utf8");
+}
+
+function isCsv(file: string): boolean {
+    return extname(file).toLowerCase() === ".csv";
+}
+
+function parseJson(file: string): unknown {
+    try {
+        return JSON.parse(readInput(file));
+    } catch (e) {
+        throw new Error(`${file === "-" ? "stdin" : file}: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+    }
+}
+
+function numberOption(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (value.trim() === "" || isNaN(parsed)) throw usageError(`--${name} expects a number, got "${value}"`);
+    return parsed;
+}
+
+// A CSV coupon row in the shape readCouponJson reads
+function couponFromCsv(record: Record<string, string>): Record<string, unknown> {
+    const list = (cell: string | undefined) => (cell ? cell.split(";").map(s => s.trim()).filter(Boolean) : undefined);
+    return {
+        ...record,
+        tiers: list(record.tiers)?.map(tier => tier.split(":")),
+        stackGroup: record.group ?? record.stackgroup,
+        nonStackable: /^(1|true|yes|y)$/i.test(record.exclusive ?? record.nonstackable ?? ""),
+        expiresOn: record.expires ?? record.expireson,
+        scope: record.categories ? { categories: list(record.categories) } : undefined
+    };
+}
+
+function readCoupons(file: string, errors: string[]): unknown[] {
+    if (isCsv(file)) return csvRecords(readInput(file)).map(couponFromCsv);
+    const data = parseJson(file);
+    // Either a list of coupons or a saved state holding one
+    const list = Array.isArray(data) ? data : (data as { coupons?: unknown } | null)?.coupons;
+    if (!Array.isArray(list)) {
+        errors.push(`${file}: expected a list of coupons.`);
+        return [];
+    }
+    return list;
+}
+
+function settingsFrom(values: Record<string, string | string[] | boolean | undefined>) {
+    const tieBreak = (values["tie-break"] ?? 'fewest-coupons') as TieBreak;
+    if (!Object.hasOwn(TIE_BREAK_LABELS, tieBreak)) throw usageError(`Unknown tie-break "${tieBreak}"`);
+    const format = values.format ?? "table";
+    if (format !== "table" && format !== "json") throw usageError(`Unknown format "${String(format)}"`);
+    return {
+        format,
+        settings: {
+            topUpLimit: numberOption(values["top-up"] as string | undefined, "top-up") ?? NaN,
+            alternatives: numberOption(values.alternatives as string | undefined, "alternatives") ?? 3,
+            tieBreak,
+            today: todayIso()
+        }
+    };
+}
+
+// The state every cart starts from: command-line settings and the shared coupons
+function baseState(values: Record<string, string | string[] | boolean | undefined>, errors: string[]): AppState {
+    const overrides: Record<string, unknown> = {};
+    if (values.currency !== undefined) overrides.currency = values.currency;
+    if (values.mode !== undefined) overrides.mode = values.mode;
+    if (values.thresholds !== undefined) overrides.application = values.thresholds;
+    const perOrder = numberOption(values["per-order"] as string | undefined, "per-order");
+    const orderFee = numberOption(values["order-fee"] as string | undefined, "order-fee");
+    if (perOrder !== undefined || orderFee !== undefined) overrides.orders = { maxCouponsPerOrder: perOrder, orderFee };
+    const maxCoupons = numberOption(values["max-coupons"] as string | undefined, "max-coupons");
+    if (maxCoupons !== undefined) overrides.rules = { maxCoupons };
+    const base = readStateJson(overrides, errors);
+    if (typeof values.coupons === "string") {
+        base.coupons = readCoupons(values.coupons, errors)
+            .map((raw, idx) => readCouponJson(raw, idx, errors))
+            .filter(c => c !== null);
+    }
+    return base;
+}
+
+function collectCarts(values: Record<string, string | string[] | boolean | undefined>, files: string[], base: AppState): Cart[] {
+    const carts: Cart[] = [];
+    const add = (name: string, raw: unknown) => {
+        const warnings: string[] = [];
+        // A bare number is a total
+        const state = readStateJson(typeof raw === "number" || typeof raw === "string" ? { total: raw } : raw, warnings, base);
+        carts.push({ name, state, warnings });
+    };
+    const addAll = (source: string, data: unknown) => {
+        if (Array.isArray(data)) data.forEach((raw, idx) => add(`${source} #${idx + 1}`, raw));
+        else add(source, data);
+    };
+
+    for (const total of (values.total as string[] | undefined) ?? []) {
+        add(`total ${total}`, total);
+    }
+    if (typeof values.carts === "string") {
+        const file = values.carts;
+        if (isCsv(file)) {
+            csvRecords(readInput(file)).forEach((record, idx) => add(record.name ?? `${file} #${idx + 1}`, record));
+        } else {
+            addAll(file, parseJson(file));
+        }
+    }
+    for (const link of (values.link as string[] | undefined) ?? []) {
+        const decoded = decodeShareLink(new URL(link, "http://localhost").search);
+        carts.push({ name: link.length > 40 ? `${link.slice(0, 37)}...` : link, state: decoded.state, warnings: decoded.errors });
+    }
+    for (const file of files) {
+        addAll(file === "-" ? "stdin" : file, parseJson(file));
+    }
+    return carts;
+}
+
+function printTable(cart: Cart, result: OptimizationResult) {
+    const { state } = cart;
+    const money = (amount: number) => formatMoney(amount, state.currency);
+    const nameOf = (usage: CouponUsage) => {
+        const coupon = state.coupons.find(c => c.id === usage.couponId);
+        return coupon ? describeUse(coupon, usage.tier, state.currency) : usage.couponId;
+    };
+    const lines = [
+        `${cart.name}: ${money(result.totalOriginal)} -> ${money(result.finalPrice)} (save ${money(result.totalDiscount)})`
+    ];
+    const strategies = result.alternatives ?? [{ solution: result.solution, steps: result.steps, discount: result.totalDiscount, gap: 0 }];
+    strategies.forEach((strategy, idx) => {
+        if (strategies.length > 1) {
+            lines.push(`  Strategy ${idx + 1}: save ${money(strategy.discount)}${strategy.gap > 0 ? ` (${money(strategy.gap)} less)` : ""}`);
+        }
+        // Under sequential thresholds the order matters, so every use is listed with the price it leaves
+        if (state.application === 'sequential' && !result.orders) {
+            for (const step of strategy.steps ?? []) {
+                lines.push(`    ${step.count}x ${nameOf(step)}  -${money(step.discount)}  -> ${money(step.priceAfter)}`);
+            }
+        } else {
+            for (const usage of strategy.solution) {
+                lines.push(`    ${usage.count}x ${nameOf(usage)}  -${money(usage.discount)}`);
+            }
+        }
+        if (strategy.solution.length === 0) lines.push("    No coupon applies");
+    });
+    result.orders?.forEach((order, idx) => {
+        lines.push(`  Order ${idx + 1}: ${money(order.amount)} -> ${money(order.finalPrice)}`);
+    });
+    result.split?.shares.forEach((share, idx) => {
+        const name = state.group.participants.find(p => p.id === share.participantId)?.name || `Person ${idx + 1}`;
+        lines.push(`  ${name}: ${money(share.subtotal)} -> ${money(share.owes)}`);
+    });
+    for (const purchase of result.horizon?.purchases ?? []) {
+        lines.push(`  ${purchase.date}: ${money(purchase.amount)} -> ${money(purchase.finalPrice)}`);
+    }
+    for (const input of result.ignored ?? []) {
+        lines.push(`  Left out (${input.kind}${input.id ? ` ${input.id}` : ""}): ${input.messages.join(" ")}`);
+    }
+    if (result.warning) lines.push(`  Note: ${result.warning}`);
+    if (result.verification?.status === 'verified') lines.push("  Verified optimal");
+    if (result.verification?.status === 'unverified') lines.push(`  Not checked: ${result.verification.reason}`);
+    result.verification?.issues.forEach(issue => lines.push(`  Check failed: ${issue}`));
+    console.log(lines.join("\n"));
+}
+
+function main(argv: string[]): number {
+    let values: Record<string, string | string[] | boolean | undefined>;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                coupons: { type: "string", short: "c" },
+                total: { type: "string", short: "t", multiple: true },
+                carts: { type: "string" },
+                link: { type: "string", short: "l", multiple: true },
+                currency: { type: "string" },
+                mode: { type: "string" },
+                "per-order": { type: "string" },
+                "order-fee": { type: "string" },
+                "max-coupons": { type: "string" },
+                thresholds: { type: "string" },
+                alternatives: { type: "string" },
+                "tie-break": { type: "string" },
+                "top-up": { type: "string" },
+                format: { type: "string", short: "f" },
+                help: { type: "boolean", short: "h" }
+            }
+        }));
+    } catch (e) {
+        console.error(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    try {
+        const { format, settings } = settingsFrom(values);
+        const errors: string[] = [];
+        const base = baseState(values, errors);
+        errors.forEach(message => console.error(`warning: ${message}`));
+        const carts = collectCarts(values, positionals, base);
+        if (carts.length === 0) throw usageError("Nothing to solve: give a total, a carts file, a link or a state file");
+
+        const solved = carts.map(cart => {
+            cart.warnings.forEach(message => console.error(`warning: ${cart.name}: ${message}`));
+            const request = buildSolveRequest(cart.state, settings);
+            return { cart, result: calculateOptimization(request.coupons, request.total, request.options) };
+        });
+
+        if (format === "json") {
+            const output = solved.map(({ cart, result }) => ({ name: cart.name, currency: cart.state.currency, warnings: cart.warnings, result }));
+            console.log(JSON.stringify(output, null, 2));
+        } else {
+            solved.forEach(({ cart, result }) => printTable(cart, result));
+        }
+        return 0;
+    } catch (e) {
+        if (e instanceof Error && e.name === "UsageError") {
+            console.error(`${e.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        console.error(`error: ${e instanceof Error ? e.message : String(e)}`);
+        return EXIT_INPUT;
+    }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,123 @@
+import { Plus, ShoppingCart, Trash2 } from 'lucide-react';
+import type { CartItem } from '../types';
+import { parseCategories } from '../lib/cart';
+import { currencySymbol, inputStep } from '../lib/currency';
+import { issueFor, parseNumberInput, validateItem } from '../lib/validation';
+import FieldMessage from './FieldMessage';
+
+interface CartSectionProps {
+  items: CartItem[];
+  currency: string;
+  onChange: (items: CartItem[]) => void;
+}
+
+function CartSection({ items, currency, onChange }: CartSectionProps) {
+  const addItem = () => {
+    const newItem: CartItem = {
+      id: `i-${Date.now()}`,
+      name: '',
+      price: 0,
+      quantity: 1,
+      categories: [],
+    };
+    onChange([...items, newItem]);
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter((i) => i.id !== id));
+  };
+
+  const updateItem = <K extends keyof CartItem>(id: string, field: K, value: CartItem[K]) => {
+    onChange(items.map((i) => (i.id === id ? { ...i, [field]: value } : i)));
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800">
+          <ShoppingCart className="w-5 h-5 text-blue-500" />
+          Cart Items
+        </h2>
+        <button
+          onClick={addItem}
+          className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add Item
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {items.length === 0 ? (
+          <p className="p-6 text-center text-gray-400 text-sm">
+            Optional: list the items in your cart to use category-restricted coupons.
+          </p>
+        ) : (
+          items.map((item) => {
+            const issues = validateItem(item, currency);
+            return (
+            <div key={item.id} className="p-4 flex flex-col sm:flex-row gap-4 items-start sm:items-center hover:bg-gray-50 transition-colors">
+              <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-4 w-full">
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Item</label>
+                  <input
+                    type="text"
+                    value={item.name}
+                    onChange={(e) => updateItem(item.id, 'name', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                    placeholder="Headphones"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Price ({currencySymbol(currency)})</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={inputStep(currency)}
+                    value={isNaN(item.price) ? '' : item.price}
+                    onChange={(e) => updateItem(item.id, 'price', parseNumberInput(e.target.value))}
+                    aria-invalid={issueFor(issues, 'price')?.severity === 'error'}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50"
+                  />
+                  <FieldMessage issue={issueFor(issues, 'price')} />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Quantity</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={isNaN(item.quantity) ? '' : item.quantity}
+                    onChange={(e) => updateItem(item.id, 'quantity', parseNumberInput(e.target.value))}
+                    aria-invalid={issueFor(issues, 'quantity')?.severity === 'error'}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50"
+                  />
+                  <FieldMessage issue={issueFor(issues, 'quantity')} />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Categories</label>
+                  <input
+                    type="text"
+                    defaultValue={item.categories.join(', ')}
+                    onBlur={(e) => updateItem(item.id, 'categories', parseCategories(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                    placeholder="electronics, sale"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => removeItem(item.id)}
+                className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all mt-4 sm:mt-0"
+                title="Remove Item"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+            );
+          })
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default CartSection;
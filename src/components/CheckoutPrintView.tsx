@@ -0,0 +1,88 @@
+import type { CheckoutPlan } from '../types';
+import { formatMoney } from '../lib/currency';
+import QrCodeView from './QrCodeView';
+
+interface CheckoutPrintViewProps {
+  plan: CheckoutPlan;
+}
+
+// Only shown when printing (see the print rules in index.css); black on white, no controls
+function CheckoutPrintView({ plan }: CheckoutPrintViewProps) {
+  const money = (amount: number) => formatMoney(amount, plan.currency);
+  const split = plan.orders.length > 1;
+
+  return (
+    <article className="hidden print:block text-black text-sm">
+      <header className="flex justify-between items-start gap-6 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold mb-1">Checkout Plan</h1>
+          <p>
+            {money(plan.total)} → <strong>{money(plan.finalPrice)}</strong> (save {money(plan.total - plan.finalPrice)})
+          </p>
+          {plan.extraFees > 0 && <p className="text-xs mt-1">Includes {money(plan.extraFees)} in extra order fees.</p>}
+        </div>
+        {plan.link && (
+          <div className="text-center text-xs">
+            <QrCodeView text={plan.link} size={128} />
+            <p className="mt-1">Scan to open the plan</p>
+          </div>
+        )}
+      </header>
+
+      {plan.orders.map((order, idx) => (
+        <section key={idx} className="mb-6 break-inside-avoid">
+          {split && (
+            <h2 className="text-base font-semibold mb-1">
+              Order {idx + 1}: {money(order.amount)} → {money(order.finalPrice)}
+            </h2>
+          )}
+          {order.items.length > 0 && (
+            <p className="mb-2">{order.items.map((item) => `${item.quantity}x ${item.name}`).join(', ')}</p>
+          )}
+          {order.lines.length === 0 ? (
+            <p className="italic">No coupons.</p>
+          ) : (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b border-black text-left">
+                  <th className="py-1 pr-2 w-8">#</th>
+                  <th className="py-1 pr-2">Coupon</th>
+                  <th className="py-1 pr-2">Expires</th>
+                  <th className="py-1 pr-2 text-right">Off</th>
+                  {order.lines.some((l) => l.priceAfter !== undefined) && <th className="py-1 text-right">Price after</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map((l, n) => (
+                  <tr key={n} className="border-b border-gray-300">
+                    <td className="py-1 pr-2 align-top">{n + 1}</td>
+                    <td className="py-1 pr-2">{l.count > 1 ? `${l.count}x ` : ''}{l.coupon}</td>
+                    <td className="py-1 pr-2">{l.expiresOn ?? ''}</td>
+                    <td className="py-1 pr-2 text-right font-mono">-{money(l.discount)}</td>
+                    {l.priceAfter !== undefined && <td className="py-1 text-right font-mono">{money(l.priceAfter)}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {order.fee > 0 && <p className="mt-1 text-right">Order fee: +{money(order.fee)}</p>}
+        </section>
+      ))}
+
+      {plan.shares && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-base font-semibold mb-1">Who Pays What</h2>
+          <ul>
+            {plan.shares.map((share, idx) => (
+              <li key={idx}>
+                {share.name}: {share.owes >= 0 ? money(share.owes) : `gets back ${money(-share.owes)}`}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </article>
+  );
+}
+
+export default CheckoutPrintView;
@@ -0,0 +1,247 @@
+import { Trash2 } from 'lucide-react';
+import type { CartItem, Coupon, CouponKind, CouponValue, Participant } from '../types';
+import { parseCategories } from '../lib/cart';
+import { COUPON_KIND_LABELS, convertCoupon, lowestTier } from '../lib/coupons';
+import { currencySymbol, inputStep } from '../lib/currency';
+import { hasErrors, issueFor, parseNumberInput, validateCoupon } from '../lib/validation';
+import TierEditor from './TierEditor';
+import CouponValueBadge from './CouponValueBadge';
+import FieldMessage from './FieldMessage';
+
+interface CouponRowProps {
+  coupon: Coupon;
+  items: CartItem[];
+  // Group orders: who can have brought the coupon
+  participants?: Participant[];
+  currency: string;
+  // What the coupon is worth to the current result, when there is one
+  value?: CouponValue;
+  onChange: (coupon: Coupon) => void;
+  onRemove: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+const discountInputClass = 'w-full pl-6 pr-3 py-2 border border-gray-200 rounded-md focus:ring-green-500 focus:border-green-500 outline-none text-sm font-medium text-green-700 aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+
+function CouponRow({ coupon, items, participants = [], currency, value, onChange, onRemove }: CouponRowProps) {
+  const issues = validateCoupon(coupon, currency);
+  const excluded = hasErrors(issues);
+  const invalid = (field: string) => issueFor(issues, field)?.severity === 'error';
+  const toggleScopeItem = (itemId: string) => {
+    const itemIds = coupon.scope?.itemIds ?? [];
+    onChange({
+      ...coupon,
+      scope: {
+        ...coupon.scope,
+        itemIds: itemIds.includes(itemId) ? itemIds.filter((id) => id !== itemId) : [...itemIds, itemId],
+      },
+    });
+  };
+
+  return (
+    <div className="p-4 flex flex-col sm:flex-row gap-4 items-start sm:items-center group hover:bg-gray-50 transition-colors">
+      <div className="flex-1 grid grid-cols-1 sm:grid-cols-4 gap-4 w-full">
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Type</label>
+          <select
+            value={coupon.kind}
+            onChange={(e) => onChange(convertCoupon(coupon, e.target.value as CouponKind))}
+            className={`${inputClass} bg-white`}
+          >
+            {(Object.keys(COUPON_KIND_LABELS) as CouponKind[]).map((kind) => (
+              <option key={kind} value={kind}>{COUPON_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        {coupon.kind === 'tiered' ? (
+          <div className="sm:col-span-2">
+            <TierEditor
+              tiers={coupon.tiers}
+              currency={currency}
+              issues={issues}
+              onChange={(tiers) => onChange({ ...coupon, tiers, threshold: lowestTier(tiers) })}
+            />
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className="text-xs font-medium text-gray-500 mb-1 block">{coupon.kind === 'fixed' ? 'Spend' : 'Min. Spend'} ({currencySymbol(currency)})</label>
+              <input
+                type="number"
+                min="0"
+                step={inputStep(currency)}
+                value={isNaN(coupon.threshold) ? '' : coupon.threshold}
+                onChange={(e) => onChange({ ...coupon, threshold: parseNumberInput(e.target.value) })}
+                aria-invalid={invalid('threshold')}
+                className={inputClass}
+              />
+              <FieldMessage issue={issueFor(issues, 'threshold')} />
+            </div>
+            {coupon.kind === 'fixed' ? (
+              <div>
+                <label className="text-xs font-medium text-gray-500 mb-1 block">Get Off ({currencySymbol(currency)})</label>
+                <div className="relative">
+                  <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 text-xs">-</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step={inputStep(currency)}
+                    value={isNaN(coupon.discount) ? '' : coupon.discount}
+                    onChange={(e) => onChange({ ...coupon, discount: parseNumberInput(e.target.value) })}
+                    aria-invalid={invalid('discount')}
+                    className={discountInputClass}
+                  />
+                </div>
+                <FieldMessage issue={issueFor(issues, 'discount')} />
+              </div>
+            ) : (
+              <div className={coupon.kind === 'capped-percent' ? 'grid grid-cols-2 gap-2' : ''}>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Off (%)</label>
+                  <div className="relative">
+                    <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 text-xs">-</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      value={isNaN(coupon.percent) ? '' : coupon.percent}
+                      onChange={(e) => onChange({ ...coupon, percent: parseNumberInput(e.target.value) })}
+                      aria-invalid={invalid('percent')}
+                      className={discountInputClass}
+                    />
+                  </div>
+                  <FieldMessage issue={issueFor(issues, 'percent')} />
+                </div>
+                {coupon.kind === 'capped-percent' && (
+                  <div>
+                    <label className="text-xs font-medium text-gray-500 mb-1 block">Max ({currencySymbol(currency)})</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={inputStep(currency)}
+                      value={isNaN(coupon.cap) ? '' : coupon.cap}
+                      onChange={(e) => onChange({ ...coupon, cap: parseNumberInput(e.target.value) })}
+                      aria-invalid={invalid('cap')}
+                      className={inputClass}
+                    />
+                    <FieldMessage issue={issueFor(issues, 'cap')} />
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Quantity</label>
+          <input
+            type="number"
+            min="1"
+            value={isNaN(coupon.count) ? '' : coupon.count}
+            onChange={(e) => onChange({ ...coupon, count: parseNumberInput(e.target.value) })}
+            aria-invalid={invalid('count')}
+            className={inputClass}
+          />
+          <FieldMessage issue={issueFor(issues, 'count')} />
+        </div>
+        <div className="sm:col-span-3">
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Applies to categories (blank = whole cart)</label>
+          <input
+            type="text"
+            defaultValue={(coupon.scope?.categories ?? []).join(', ')}
+            onBlur={(e) => onChange({ ...coupon, scope: { ...coupon.scope, categories: parseCategories(e.target.value) } })}
+            className={inputClass}
+            placeholder="electronics"
+          />
+          {items.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {items.map((item) => {
+                const selected = coupon.scope?.itemIds?.includes(item.id) ?? false;
+                return (
+                  <button
+                    key={item.id}
+                    onClick={() => toggleScopeItem(item.id)}
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${selected ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-500 hover:bg-gray-100'}`}
+                  >
+                    {item.name || 'Unnamed item'}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Label</label>
+          <input
+            type="text"
+            value={coupon.label ?? ''}
+            onChange={(e) => onChange({ ...coupon, label: e.target.value || undefined })}
+            className={inputClass}
+            placeholder="Welcome voucher"
+          />
+        </div>
+        {participants.length > 0 && (
+          <div>
+            <label className="text-xs font-medium text-gray-500 mb-1 block">Brought by</label>
+            <select
+              value={coupon.ownerId ?? ''}
+              onChange={(e) => onChange({ ...coupon, ownerId: e.target.value || undefined })}
+              className={`${inputClass} bg-white`}
+            >
+              <option value="">Everyone</option>
+              {participants.map((p, idx) => (
+                <option key={p.id} value={p.id}>{p.name || `Person ${idx + 1}`}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Expires</label>
+          <input
+            type="date"
+            value={coupon.expiresOn ?? ''}
+            onChange={(e) => onChange({ ...coupon, expiresOn: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Stacking group</label>
+          <input
+            type="text"
+            value={coupon.stackGroup ?? ''}
+            onChange={(e) => onChange({ ...coupon, stackGroup: e.target.value || undefined })}
+            className={inputClass}
+            placeholder="store"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 sm:mt-5">
+          <input
+            type="checkbox"
+            checked={coupon.nonStackable ?? false}
+            onChange={(e) => onChange({ ...coupon, nonStackable: e.target.checked || undefined })}
+            className="rounded border-gray-300"
+          />
+          Can’t combine with other coupons
+        </label>
+        {excluded ? (
+          <p className="sm:col-span-4 text-xs font-medium text-red-600">
+            Left out of the calculation until the fields marked in red are fixed.
+          </p>
+        ) : value && (
+          <div className="sm:col-span-4">
+            <CouponValueBadge value={value} copies={coupon.count} currency={currency} />
+          </div>
+        )}
+      </div>
+      <button
+        onClick={onRemove}
+        className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all mt-4 sm:mt-0"
+        title="Remove Coupon"
+      >
+        <Trash2 className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
+
+export default CouponRow;
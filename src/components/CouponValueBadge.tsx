@@ -0,0 +1,49 @@
+import type { CouponValue } from '../types';
+import { formatMoney } from '../lib/currency';
+
+interface CouponValueBadgeProps {
+  value: CouponValue;
+  // Copies the coupon has; "last copy" only means something with more than one
+  copies: number;
+  currency: string;
+}
+
+const badgeClass = 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium';
+
+function CouponValueBadge({ value, copies, currency }: CouponValueBadgeProps) {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const more = value.gainOne > 0 ? `another copy would save ${money(value.gainOne)} more` : null;
+
+  if (value.flag === 'unusable') {
+    return <span className={`${badgeClass} bg-gray-100 text-gray-500`}>Incomplete terms · not used</span>;
+  }
+  if (value.flag === 'out-of-reach') {
+    return <span className={`${badgeClass} bg-amber-50 text-amber-700`}>Minimum spend is above this cart</span>;
+  }
+  if (value.flag === 'dominated') {
+    return <span className={`${badgeClass} bg-amber-50 text-amber-700`}>Not needed · your other coupons do better</span>;
+  }
+
+  const title = [
+    `Without it: ${money(value.dropAll)} less`,
+    copies > 1 ? `Without one copy: ${money(value.dropOne)} less` : null,
+    `With one more copy: ${money(value.gainOne)} more`
+  ].filter(Boolean).join('\n');
+
+  if (value.dropAll === 0) {
+    return (
+      <span className={`${badgeClass} bg-blue-50 text-blue-700`} title={title}>
+        {more ? `Adds nothing yet · ${more}` : 'Your other coupons could do as well without it'}
+      </span>
+    );
+  }
+  return (
+    <span className={`${badgeClass} bg-green-50 text-green-700`} title={title}>
+      Worth {money(value.dropAll)}
+      {copies > 1 && value.dropOne !== value.dropAll && ` · last copy ${money(value.dropOne)}`}
+      {more && ` · ${more}`}
+    </span>
+  );
+}
+
+export default CouponValueBadge;
@@ -0,0 +1,52 @@
+import { Ban } from 'lucide-react';
+import type { Coupon, StackingExclusion } from '../types';
+import { describeCoupon } from '../lib/coupons';
+
+interface ExclusionsViewProps {
+  exclusions: StackingExclusion[];
+  coupons: Coupon[];
+  currency: string;
+}
+
+function reason(exclusion: StackingExclusion, coupons: Coupon[], currency: string): string {
+  switch (exclusion.rule) {
+    case 'not-stackable':
+      return 'It can’t be combined with other coupons, and the combination saves more than using it alone.';
+    case 'blocked-by-exclusive': {
+      const blocker = coupons.find((c) => c.id === exclusion.blockedBy);
+      return `The plan uses ${blocker ? describeCoupon(blocker, currency) : 'a coupon'}, which can’t be combined with others.`;
+    }
+    case 'max-coupons':
+      return `Only ${exclusion.limit} coupon${exclusion.limit === 1 ? '' : 's'} per order.`;
+    case 'group-limit':
+      return `Only ${exclusion.limit} coupon${exclusion.limit === 1 ? '' : 's'} from “${exclusion.group}” per order.`;
+    case 'combination':
+      return 'Under the stacking rules, a different combination saves more.';
+  }
+}
+
+function ExclusionsView({ exclusions, coupons, currency }: ExclusionsViewProps) {
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <h4 className="text-white font-semibold flex items-center gap-2 mb-4">
+        <Ban className="w-4 h-4 text-orange-400" />
+        Kept Out by Stacking Rules
+      </h4>
+      <ul className="space-y-3">
+        {exclusions.map((e) => {
+          const original = coupons.find((c) => c.id === e.couponId);
+          if (!original) return null;
+          return (
+            <li key={e.couponId} className="text-sm border-b border-white/10 pb-2 last:border-0 last:pb-0">
+              <span className="text-white font-bold mr-2">{e.count}x</span>
+              <span className="text-blue-300">{describeCoupon(original, currency)}</span>
+              <p className="mt-1 text-xs text-gray-400">{reason(e, coupons, currency)}</p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default ExclusionsView;
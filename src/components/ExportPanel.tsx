@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Check, ClipboardCopy, FileBraces, FileSpreadsheet, Printer, QrCode } from 'lucide-react';
+import type { CheckoutPlan, Coupon, OptimizationResult } from '../types';
+import { checkoutCsv, checkoutJson, checkoutText } from '../lib/checkout';
+import QrCodeView from './QrCodeView';
+
+interface ExportPanelProps {
+  plan: CheckoutPlan;
+  result: OptimizationResult;
+  coupons: Coupon[];
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs font-medium text-gray-200 transition-colors';
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Takes the shown strategy out of the page: printed, as files, as a message or as a QR code
+function ExportPanel({ plan, result, coupons }: ExportPanelProps) {
+  const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+
+  const copyText = () => {
+    navigator.clipboard.writeText(checkoutText(plan));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => window.print()} className={buttonClass}>
+          <Printer className="w-3.5 h-3.5" /> Print
+        </button>
+        <button onClick={copyText} className={buttonClass}>
+          {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <ClipboardCopy className="w-3.5 h-3.5" />}
+          {copied ? 'Copied' : 'Copy as Text'}
+        </button>
+        <button onClick={() => download('checkout-plan.csv', checkoutCsv(plan), 'text/csv')} className={buttonClass}>
+          <FileSpreadsheet className="w-3.5 h-3.5" /> CSV
+        </button>
+        <button onClick={() => download('checkout-plan.json', checkoutJson(plan, result, coupons), 'application/json')} className={buttonClass}>
+          <FileBraces className="w-3.5 h-3.5" /> JSON
+        </button>
+        {plan.link && (
+          <button onClick={() => setShowQr(!showQr)} className={`${buttonClass} ${showQr ? 'bg-white/20' : ''}`}>
+            <QrCode className="w-3.5 h-3.5" /> QR Code
+          </button>
+        )}
+      </div>
+      {showQr && plan.link && (
+        <div className="mt-4 inline-flex flex-col items-center gap-2 bg-white rounded-lg p-4">
+          <QrCodeView text={plan.link} />
+          <p className="text-xs text-gray-500">Scan to open this plan on another device.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportPanel;
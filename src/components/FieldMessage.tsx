@@ -0,0 +1,15 @@
+import type { FieldIssue } from '../types';
+
+interface FieldMessageProps {
+  issue?: FieldIssue;
+}
+
+// Shown under an input; the input itself is marked with aria-invalid for errors
+function FieldMessage({ issue }: FieldMessageProps) {
+  if (!issue) return null;
+  return (
+    <p className={`mt-1 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>{issue.message}</p>
+  );
+}
+
+export default FieldMessage;
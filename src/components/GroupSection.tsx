@@ -0,0 +1,113 @@
+import { Plus, Trash2, Users } from 'lucide-react';
+import type { GroupSettings, Participant, SplitScheme } from '../types';
+import { currencySymbol, inputStep } from '../lib/currency';
+import { SPLIT_SCHEME_LABELS } from '../lib/split';
+import { issueFor, parseNumberInput, validateParticipant } from '../lib/validation';
+import FieldMessage from './FieldMessage';
+
+interface GroupSectionProps {
+  group: GroupSettings;
+  currency: string;
+  onChange: (group: GroupSettings) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+
+function GroupSection({ group, currency, onChange }: GroupSectionProps) {
+  const { participants } = group;
+
+  const addParticipant = () => {
+    const newParticipant: Participant = {
+      id: `g-${Date.now()}`,
+      name: '',
+      subtotal: 0,
+    };
+    onChange({ ...group, participants: [...participants, newParticipant] });
+  };
+
+  const updateParticipant = <K extends keyof Participant>(id: string, field: K, value: Participant[K]) => {
+    onChange({ ...group, participants: participants.map((p) => (p.id === id ? { ...p, [field]: value } : p)) });
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800">
+          <Users className="w-5 h-5 text-blue-500" />
+          Group Order
+        </h2>
+        <button
+          onClick={addParticipant}
+          className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add Person
+        </button>
+      </div>
+
+      {participants.length === 0 ? (
+        <p className="p-6 text-center text-gray-400 text-sm">
+          Optional: pool carts and coupons with others to reach higher thresholds, then split the bill.
+        </p>
+      ) : (
+        <>
+          <div className="px-6 pt-4">
+            <label className="text-xs font-medium text-gray-500 mb-1 block">Split the bill</label>
+            <select
+              value={group.scheme}
+              onChange={(e) => onChange({ ...group, scheme: e.target.value as SplitScheme })}
+              className="px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm bg-white"
+            >
+              {(Object.keys(SPLIT_SCHEME_LABELS) as SplitScheme[]).map((scheme) => (
+                <option key={scheme} value={scheme}>{SPLIT_SCHEME_LABELS[scheme]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {participants.map((participant) => {
+              const issues = validateParticipant(participant, currency);
+              return (
+              <div key={participant.id} className="p-4 flex flex-col sm:flex-row gap-4 items-start sm:items-center hover:bg-gray-50 transition-colors">
+                <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-4 w-full">
+                  <div>
+                    <label className="text-xs font-medium text-gray-500 mb-1 block">Name</label>
+                    <input
+                      type="text"
+                      value={participant.name}
+                      onChange={(e) => updateParticipant(participant.id, 'name', e.target.value)}
+                      className={inputClass}
+                      placeholder="Alex"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-gray-500 mb-1 block">Subtotal ({currencySymbol(currency)})</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={inputStep(currency)}
+                      value={isNaN(participant.subtotal) ? '' : participant.subtotal}
+                      onChange={(e) => updateParticipant(participant.id, 'subtotal', parseNumberInput(e.target.value))}
+                      aria-invalid={issueFor(issues, 'subtotal')?.severity === 'error'}
+                      className={inputClass}
+                    />
+                    <FieldMessage issue={issueFor(issues, 'subtotal')} />
+                  </div>
+                </div>
+                <button
+                  onClick={() => onChange({ ...group, participants: participants.filter((p) => p.id !== participant.id) })}
+                  className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all mt-4 sm:mt-0"
+                  title="Remove Person"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default GroupSection;
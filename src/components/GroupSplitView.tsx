@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Check, Link2, Users } from 'lucide-react';
+import type { GroupSplit, Participant } from '../types';
+import { formatMoney } from '../lib/currency';
+import { SPLIT_SCHEME_LABELS } from '../lib/split';
+
+interface GroupSplitViewProps {
+  split: GroupSplit;
+  participants: Participant[];
+  // The person the page was opened for, highlighted
+  highlightId: string | null;
+  currency: string;
+  // Share link addressed to one participant
+  linkFor: (participantId: string) => string;
+}
+
+function GroupSplitView({ split, participants, highlightId, currency, linkFor }: GroupSplitViewProps) {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copy = (participantId: string, name: string, owes: number) => {
+    const amount = owes >= 0 ? `owes ${formatMoney(owes, currency)}` : `gets back ${formatMoney(-owes, currency)}`;
+    navigator.clipboard.writeText(`${name} ${amount} for the group order: ${linkFor(participantId)}`);
+    setCopiedId(participantId);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <h4 className="text-white font-semibold flex items-center gap-2 mb-1">
+        <Users className="w-4 h-4 text-blue-400" />
+        Who Pays What
+      </h4>
+      <p className="text-xs text-gray-400 mb-4">
+        {SPLIT_SCHEME_LABELS[split.scheme]}.
+        {split.sampled && ' Estimated from a sample of orders in which people join.'}
+      </p>
+
+      <ul className="space-y-2">
+        {split.shares.map((share, idx) => {
+          const name = participants.find((p) => p.id === share.participantId)?.name || `Person ${idx + 1}`;
+          return (
+            <li
+              key={share.participantId}
+              className={`flex flex-wrap items-center justify-between gap-3 text-sm rounded-md px-3 py-2 ${share.participantId === highlightId ? 'bg-blue-500/20 ring-1 ring-blue-400/50' : 'bg-white/5'}`}
+            >
+              <span className="text-gray-200">
+                <span className="text-white font-medium">{name}</span>
+                <span className="text-gray-400 text-xs ml-2">
+                  {formatMoney(share.subtotal, currency)} in the cart · {share.saved < 0 ? `adds ${formatMoney(-share.saved, currency)}` : `saves ${formatMoney(share.saved, currency)}`}
+                </span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="text-white font-mono">
+                  {share.owes >= 0 ? formatMoney(share.owes, currency) : `gets ${formatMoney(-share.owes, currency)}`}
+                </span>
+                <button
+                  onClick={() => copy(share.participantId, name, share.owes)}
+                  className="text-gray-400 hover:text-white"
+                  title="Copy a link with this amount"
+                >
+                  {copiedId === share.participantId ? <Check className="w-4 h-4 text-green-400" /> : <Link2 className="w-4 h-4" />}
+                </button>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default GroupSplitView;
@@ -0,0 +1,67 @@
+import { CalendarDays } from 'lucide-react';
+import type { Coupon, HorizonPlan, PlannedPurchase } from '../types';
+import { describeUse } from '../lib/coupons';
+import { formatMoney } from '../lib/currency';
+
+interface HorizonViewProps {
+  plan: HorizonPlan;
+  purchases: PlannedPurchase[];
+  coupons: Coupon[];
+  currency: string;
+}
+
+function HorizonView({ plan, purchases, coupons, currency }: HorizonViewProps) {
+  const describe = (couponId: string, tier?: number) => {
+    const original = coupons.find(c => c.id === couponId);
+    return original ? describeUse(original, tier, currency) : 'Removed coupon';
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h4 className="text-white font-semibold flex items-center gap-2">
+          <CalendarDays className="w-4 h-4 text-blue-400" />
+          Coupon Schedule
+        </h4>
+        <span className="text-sm text-gray-400">
+          Saves <span className="text-green-400 font-mono">{formatMoney(plan.totalDiscount, currency)}</span> in total
+          {plan.totalDiscount > plan.greedyDiscount && (
+            <> vs {formatMoney(plan.greedyDiscount, currency)} using coupons as soon as possible</>
+          )}
+        </span>
+      </div>
+
+      {plan.warning && <p className="mb-3 text-yellow-300 text-xs">{plan.warning}</p>}
+
+      <ol className="space-y-3">
+        {plan.purchases.map((p) => {
+          const purchase = purchases.find(x => x.id === p.purchaseId);
+          return (
+            <li key={p.purchaseId} className="text-sm border-b border-white/10 pb-2 last:border-0 last:pb-0">
+              <div className="flex justify-between items-center gap-4">
+                <span className="text-gray-300">
+                  <span className="text-white font-bold mr-2">{p.date}</span>
+                  {purchase?.label || 'Purchase'} ({formatMoney(p.amount, currency)})
+                </span>
+                <span className="text-white font-mono">{formatMoney(p.finalPrice, currency)}</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                {p.coupons.length === 0
+                  ? 'No coupons'
+                  : p.coupons.map(u => `${u.count}x ${describe(u.couponId, u.tier)}`).join(', ')}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+
+      {plan.unused.length > 0 && (
+        <p className="mt-4 text-xs text-gray-400">
+          Left over: {plan.unused.map(u => `${u.count}x ${describe(u.couponId)}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default HorizonView;
@@ -0,0 +1,52 @@
+import { AlertCircle } from 'lucide-react';
+import type { AppState, IgnoredInput } from '../types';
+
+interface IgnoredInputsViewProps {
+  ignored: IgnoredInput[];
+  state: AppState;
+}
+
+// The inputs are invalid, so they are named by position rather than by their amounts
+function inputName(input: IgnoredInput, state: AppState): string {
+  const position = <T extends { id: string }>(list: T[]) => list.findIndex((x) => x.id === input.id) + 1;
+  switch (input.kind) {
+    case 'total':
+      return 'The cart total (0 is used)';
+    case 'orders':
+      return 'The order settings (the defaults are used)';
+    case 'coupon': {
+      const coupon = state.coupons.find((c) => c.id === input.id);
+      return coupon?.label ? `Coupon “${coupon.label}”` : `Coupon ${position(state.coupons)}`;
+    }
+    case 'item': {
+      const item = state.items.find((i) => i.id === input.id);
+      return item?.name ? `Item “${item.name}”` : `Item ${position(state.items)}`;
+    }
+    case 'purchase':
+      return `Upcoming purchase ${position(state.purchases)}`;
+    case 'participant': {
+      const participant = state.group.participants.find((p) => p.id === input.id);
+      return `${participant?.name || `Person ${position(state.group.participants)}`}'s subtotal (0 is used)`;
+    }
+  }
+}
+
+function IgnoredInputsView({ ignored, state }: IgnoredInputsViewProps) {
+  return (
+    <div className="mb-6 bg-red-900/30 border border-red-700/50 rounded-lg p-4 flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+      <div className="text-sm leading-relaxed">
+        <p className="text-red-200 font-medium">Left out of this result until fixed:</p>
+        <ul className="mt-1 space-y-1 text-red-200/80">
+          {ignored.map((input, idx) => (
+            <li key={idx}>
+              {inputName(input, state)}: {input.messages.join(' ')}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default IgnoredInputsView;
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { AlertTriangle, ClipboardPaste, X } from 'lucide-react';
+import type { CartItem, Coupon } from '../types';
+import { parseCouponText, type ParsedLine } from '../lib/couponParser';
+import CouponRow from './CouponRow';
+
+interface ImportPanelProps {
+  items: CartItem[];
+  currency: string;
+  onAdd: (coupons: Coupon[]) => void;
+  onClose: () => void;
+}
+
+interface PreviewRow extends ParsedLine {
+  include: boolean;
+}
+
+function ImportPanel({ items, currency, onAdd, onClose }: ImportPanelProps) {
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [unrecognised, setUnrecognised] = useState<{ lineNumber: number; text: string }[]>([]);
+
+  const preview = () => {
+    const result = parseCouponText(text);
+    // Rows the parser was unsure about stay out until the user ticks them
+    setRows(result.parsed.map((p) => ({ ...p, include: p.certain })));
+    setUnrecognised(result.unrecognised);
+  };
+
+  const updateRow = (lineNumber: number, patch: Partial<PreviewRow>) => {
+    setRows((current) => current && current.map((r) => (r.lineNumber === lineNumber ? { ...r, ...patch } : r)));
+  };
+
+  const included = rows?.filter((r) => r.include) ?? [];
+
+  return (
+    <div className="p-6 border-b border-gray-100 bg-blue-50/30 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <ClipboardPaste className="w-4 h-4 text-blue-500" />
+          Paste Coupons
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded-full" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        className="w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm font-mono"
+        placeholder={'Spend $100 get $10 off x3\n$15 off $120+\n滿300減50\n300-50 ×2'}
+      />
+      <button
+        onClick={preview}
+        className="px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+      >
+        Preview
+      </button>
+
+      {rows && (
+        <div className="space-y-3">
+          {rows.length === 0 && <p className="text-sm text-gray-500">No coupons found in the text.</p>}
+          {rows.map((row) => (
+            <div
+              key={row.lineNumber}
+              className={`rounded-lg border bg-white ${row.certain ? 'border-gray-200' : 'border-yellow-300'}`}
+            >
+              <label className="px-4 pt-3 flex items-center gap-2 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={row.include}
+                  onChange={(e) => updateRow(row.lineNumber, { include: e.target.checked })}
+                />
+                Line {row.lineNumber}: <span className="font-mono text-gray-700">{row.text}</span>
+                {!row.certain && (
+                  <span className="ml-auto flex items-center gap-1 text-yellow-700">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    Please check
+                  </span>
+                )}
+              </label>
+              <CouponRow
+                coupon={row.coupon}
+                items={items}
+                currency={currency}
+                onChange={(coupon) => updateRow(row.lineNumber, { coupon, include: true })}
+                onRemove={() => setRows(rows.filter((r) => r.lineNumber !== row.lineNumber))}
+              />
+            </div>
+          ))}
+
+          {unrecognised.length > 0 && (
+            <div className="text-sm text-gray-500">
+              <p className="font-medium text-gray-600 mb-1">Not recognised:</p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {unrecognised.map((u) => (
+                  <li key={u.lineNumber}>
+                    Line {u.lineNumber}: <span className="font-mono">{u.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => onAdd(included.map((r) => r.coupon))}
+            disabled={included.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm disabled:opacity-50"
+          >
+            Add {included.length} Coupon{included.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,65 @@
+import { Package } from 'lucide-react';
+import type { CartItem, Coupon, PlannedOrder } from '../types';
+import { describeUse } from '../lib/coupons';
+import { formatMoney } from '../lib/currency';
+
+interface OrdersViewProps {
+  orders: PlannedOrder[];
+  coupons: Coupon[];
+  items: CartItem[];
+  currency: string;
+}
+
+function OrdersView({ orders, coupons, items, currency }: OrdersViewProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {orders.map((order, idx) => (
+        <div key={idx} className="bg-white/5 rounded-lg p-4 border border-white/10 text-sm">
+          <div className="flex justify-between items-center mb-3">
+            <h5 className="text-white font-semibold flex items-center gap-2">
+              <Package className="w-4 h-4 text-blue-400" />
+              Order {idx + 1}
+            </h5>
+            <span className="text-white font-mono">{formatMoney(order.finalPrice, currency)}</span>
+          </div>
+
+          {order.items.length > 0 && (
+            <ul className="text-gray-300 mb-2 space-y-0.5">
+              {order.items.map((entry) => {
+                const item = items.find(i => i.id === entry.itemId);
+                return (
+                  <li key={entry.itemId}>
+                    {entry.quantity}x {item?.name || 'Unnamed item'}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex justify-between text-gray-400">
+            <span>Subtotal</span>
+            <span className="font-mono">{formatMoney(order.amount, currency)}</span>
+          </div>
+          {order.coupons.map((usage) => {
+            const original = coupons.find(c => c.id === usage.couponId);
+            if (!original) return null;
+            return (
+              <div key={`${usage.couponId}-${usage.tier ?? ''}`} className="flex justify-between text-green-400">
+                <span>{usage.count > 1 ? `${usage.count}x ` : ''}{describeUse(original, usage.tier, currency)}</span>
+                <span className="font-mono">-{formatMoney(usage.discount, currency)}</span>
+              </div>
+            );
+          })}
+          {order.fee > 0 && (
+            <div className="flex justify-between text-yellow-300">
+              <span>Order fee</span>
+              <span className="font-mono">+{formatMoney(order.fee, currency)}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default OrdersView;
@@ -0,0 +1,107 @@
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+import type { PlannedPurchase } from '../types';
+import { currencySymbol, inputStep } from '../lib/currency';
+import { issueFor, parseNumberInput, validatePurchase } from '../lib/validation';
+import FieldMessage from './FieldMessage';
+
+interface PurchasesSectionProps {
+  purchases: PlannedPurchase[];
+  currency: string;
+  onChange: (purchases: PlannedPurchase[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+
+function PurchasesSection({ purchases, currency, onChange }: PurchasesSectionProps) {
+  const addPurchase = () => {
+    const newPurchase: PlannedPurchase = {
+      id: `p-${Date.now()}`,
+      date: '',
+      amount: 100,
+    };
+    onChange([...purchases, newPurchase]);
+  };
+
+  const updatePurchase = <K extends keyof PlannedPurchase>(id: string, field: K, value: PlannedPurchase[K]) => {
+    onChange(purchases.map((p) => (p.id === id ? { ...p, [field]: value } : p)));
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800">
+          <CalendarDays className="w-5 h-5 text-blue-500" />
+          Upcoming Purchases
+        </h2>
+        <button
+          onClick={addPurchase}
+          className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add Purchase
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {purchases.length === 0 ? (
+          <p className="p-6 text-center text-gray-400 text-sm">
+            Optional: add purchases you expect to make soon to save coupons for them.
+          </p>
+        ) : (
+          purchases.map((purchase) => {
+            const issues = validatePurchase(purchase, currency);
+            return (
+            <div key={purchase.id} className="p-4 flex flex-col sm:flex-row gap-4 items-start sm:items-center hover:bg-gray-50 transition-colors">
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Date</label>
+                  <input
+                    type="date"
+                    value={purchase.date}
+                    onChange={(e) => updatePurchase(purchase.id, 'date', e.target.value)}
+                    aria-invalid={issueFor(issues, 'date')?.severity === 'error'}
+                    className={inputClass}
+                  />
+                  <FieldMessage issue={issueFor(issues, 'date')} />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Amount ({currencySymbol(currency)})</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={inputStep(currency)}
+                    value={isNaN(purchase.amount) ? '' : purchase.amount}
+                    onChange={(e) => updatePurchase(purchase.id, 'amount', parseNumberInput(e.target.value))}
+                    aria-invalid={issueFor(issues, 'amount')?.severity === 'error'}
+                    className={inputClass}
+                  />
+                  <FieldMessage issue={issueFor(issues, 'amount')} />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-500 mb-1 block">Note</label>
+                  <input
+                    type="text"
+                    value={purchase.label ?? ''}
+                    onChange={(e) => updatePurchase(purchase.id, 'label', e.target.value || undefined)}
+                    className={inputClass}
+                    placeholder="Groceries"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => onChange(purchases.filter((p) => p.id !== purchase.id))}
+                className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all mt-4 sm:mt-0"
+                title="Remove Purchase"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+            );
+          })
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default PurchasesSection;
@@ -0,0 +1,35 @@
+import { encodeQr, qrPath } from '../lib/qrCode';
+
+interface QrCodeViewProps {
+  text: string;
+  // Rendered width and height in pixels
+  size?: number;
+}
+
+// Quiet zone required around the symbol, in modules
+const MARGIN = 4;
+
+function QrCodeView({ text, size = 192 }: QrCodeViewProps) {
+  let code;
+  try {
+    code = encodeQr(text);
+  } catch {
+    return <p className="text-xs text-gray-500">The link is too long for a QR code. Share it as a link instead.</p>;
+  }
+  const extent = code.size + MARGIN * 2;
+  return (
+    <svg
+      viewBox={`0 0 ${extent} ${extent}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code of the share link"
+    >
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={qrPath(code, MARGIN)} fill="#000" />
+    </svg>
+  );
+}
+
+export default QrCodeView;
@@ -0,0 +1,118 @@
+import { useState, type MouseEvent } from 'react';
+import { TrendingUp } from 'lucide-react';
+import type { Coupon, SavingsCurve, SavingsSegment } from '../types';
+import { describeUse } from '../lib/coupons';
+import { formatMoney } from '../lib/currency';
+
+interface SavingsChartProps {
+  curve: SavingsCurve;
+  // The current cart total, marked on the chart
+  total: number;
+  coupons: Coupon[];
+  currency: string;
+}
+
+const WIDTH = 600;
+const PANEL = 110;
+const GAP = 24;
+const HEIGHT = PANEL * 2 + GAP;
+
+function discountAt(segment: SavingsSegment, total: number): number {
+  if (segment.to <= segment.from) return segment.discountFrom;
+  const t = Math.min(1, (total - segment.from) / (segment.to - segment.from));
+  return segment.discountFrom + t * (segment.discountTo - segment.discountFrom);
+}
+
+function SavingsChart({ curve, total, coupons, currency }: SavingsChartProps) {
+  const [hover, setHover] = useState<number | null>(null);
+  const { segments, deadZones } = curve;
+  const maxTotal = segments[segments.length - 1].to;
+  const maxDiscount = Math.max(...segments.map((s) => s.discountTo), 0) || 1;
+  const maxPrice = maxTotal || 1;
+
+  const x = (value: number) => (value / (maxTotal || 1)) * WIDTH;
+  const ySavings = (value: number) => PANEL - (value / maxDiscount) * PANEL;
+  const yPrice = (value: number) => PANEL + GAP + PANEL - (value / maxPrice) * PANEL;
+
+  const savingsPath = segments
+    .map((s) => `L${x(s.from)},${ySavings(s.discountFrom)} L${x(s.to)},${ySavings(s.discountTo)}`)
+    .join(' ')
+    .replace(/^L/, 'M');
+  const pricePath = segments
+    .map((s) => `L${x(s.from)},${yPrice(s.from - s.discountFrom)} L${x(s.to)},${yPrice(s.to - s.discountTo)}`)
+    .join(' ')
+    .replace(/^L/, 'M');
+
+  // Segments end one cent (or the currency's smallest unit) before the next one starts
+  const hovered = hover !== null ? [...segments].reverse().find((s) => hover >= s.from) ?? null : null;
+  const hoverDiscount = hovered && hover !== null ? discountAt(hovered, hover) : 0;
+
+  const onMove = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    setHover(fraction * maxTotal);
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <h4 className="text-white font-semibold flex items-center gap-2 mb-1">
+        <TrendingUp className="w-4 h-4 text-green-400" />
+        Savings by Cart Total
+      </h4>
+      <p className="text-xs text-gray-400 mb-4">
+        Steps mark where another coupon combination kicks in. In the shaded ranges spending more never ends up cheaper.
+        {curve.sampled && ' Only some of the steps are shown.'}
+      </p>
+
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto overflow-visible"
+          onMouseMove={onMove}
+          onMouseLeave={() => setHover(null)}
+        >
+          {deadZones.map((zone) => (
+            <g key={zone.from} className="fill-white/5">
+              <rect x={x(zone.from)} y={0} width={Math.max(1, x(zone.to) - x(zone.from))} height={PANEL} />
+              <rect x={x(zone.from)} y={PANEL + GAP} width={Math.max(1, x(zone.to) - x(zone.from))} height={PANEL} />
+            </g>
+          ))}
+          <text x={4} y={12} className="fill-gray-400 text-[10px]">Saved</text>
+          <text x={4} y={PANEL + GAP + 12} className="fill-gray-400 text-[10px]">Final price</text>
+          <path d={savingsPath} fill="none" className="stroke-green-400" strokeWidth={2} />
+          <path d={pricePath} fill="none" className="stroke-blue-400" strokeWidth={2} />
+          <line x1={x(total)} x2={x(total)} y1={0} y2={HEIGHT} className="stroke-white/40" strokeDasharray="4 4" />
+          {hover !== null && <line x1={x(hover)} x2={x(hover)} y1={0} y2={HEIGHT} className="stroke-white/70" />}
+        </svg>
+
+        {hovered && hover !== null && (
+          <div
+            className="absolute top-0 pointer-events-none bg-gray-900/95 border border-white/10 rounded-md p-3 text-xs text-gray-200 w-56"
+            style={hover > maxTotal / 2 ? { right: `${100 - (hover / maxTotal) * 100}%` } : { left: `${(hover / maxTotal) * 100}%` }}
+          >
+            <p className="font-semibold text-white">Cart {formatMoney(hover, currency)}</p>
+            <p className="text-green-300">Save {formatMoney(hoverDiscount, currency)}</p>
+            <p className="text-blue-300 mb-1">Pay {formatMoney(hover - hoverDiscount, currency)}</p>
+            {hovered.solution.length === 0 && <p className="text-gray-400">No coupon applies</p>}
+            {hovered.solution.map((usage) => {
+              const original = coupons.find((c) => c.id === usage.couponId);
+              if (!original) return null;
+              return (
+                <p key={`${usage.couponId}-${usage.tier ?? ''}`} className="text-gray-400">
+                  {usage.count}x {describeUse(original, usage.tier, currency)}
+                </p>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{formatMoney(0, currency)}</span>
+        <span>{formatMoney(maxTotal, currency)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default SavingsChart;
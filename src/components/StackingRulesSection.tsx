@@ -0,0 +1,75 @@
+import { Layers } from 'lucide-react';
+import type { Coupon, StackingRules } from '../types';
+import { groupKey } from '../lib/stacking';
+
+interface StackingRulesSectionProps {
+  rules: StackingRules;
+  coupons: Coupon[];
+  onChange: (rules: StackingRules) => void;
+}
+
+const inputClass = 'w-28 px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm';
+
+// Blank means no limit
+const handleLimitInput = (val: string): number | undefined => {
+  const parsed = parseInt(val, 10);
+  return isNaN(parsed) ? undefined : Math.max(0, parsed);
+};
+
+function StackingRulesSection({ rules, coupons, onChange }: StackingRulesSectionProps) {
+  // Groups named on coupons, plus limits kept for groups no coupon uses right now
+  const groups: string[] = [];
+  [...coupons.map((c) => c.stackGroup ?? ''), ...Object.keys(rules.groupLimits ?? {})].forEach((g) => {
+    if (g.trim() !== '' && !groups.some((known) => groupKey(known) === groupKey(g))) groups.push(g.trim());
+  });
+  const limitOf = (group: string) =>
+    Object.entries(rules.groupLimits ?? {}).find(([g]) => groupKey(g) === groupKey(group))?.[1];
+
+  const setGroupLimit = (group: string, limit: number | undefined) => {
+    const groupLimits = Object.fromEntries(
+      Object.entries(rules.groupLimits ?? {}).filter(([g]) => groupKey(g) !== groupKey(group))
+    );
+    if (limit !== undefined) groupLimits[group] = limit;
+    onChange({ ...rules, groupLimits });
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-bold flex items-center gap-2 text-gray-800 mb-1">
+        <Layers className="w-5 h-5 text-blue-500" />
+        Stacking Rules
+      </h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Limits per order. Give coupons a stacking group to limit how many of them combine.
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="text-xs font-medium text-gray-500 mb-1 block">Max coupons per order</label>
+          <input
+            type="number"
+            min="0"
+            value={rules.maxCoupons ?? ''}
+            onChange={(e) => onChange({ ...rules, maxCoupons: handleLimitInput(e.target.value) })}
+            className={inputClass}
+            placeholder="No limit"
+          />
+        </div>
+        {groups.map((group) => (
+          <div key={groupKey(group)}>
+            <label className="text-xs font-medium text-gray-500 mb-1 block">Max from “{group}”</label>
+            <input
+              type="number"
+              min="0"
+              value={limitOf(group) ?? ''}
+              onChange={(e) => setGroupLimit(group, handleLimitInput(e.target.value))}
+              className={inputClass}
+              placeholder="No limit"
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default StackingRulesSection;
@@ -0,0 +1,81 @@
+import { Plus, X } from 'lucide-react';
+import type { CouponTier, FieldIssue } from '../types';
+import { currencySymbol, inputStep } from '../lib/currency';
+import { issueFor, parseNumberInput } from '../lib/validation';
+import FieldMessage from './FieldMessage';
+
+interface TierEditorProps {
+  tiers: CouponTier[];
+  currency: string;
+  // The coupon's issues; tier fields are named tiers.<index>.threshold and tiers.<index>.discount
+  issues?: FieldIssue[];
+  onChange: (tiers: CouponTier[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+const discountInputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-green-500 focus:border-green-500 outline-none text-sm font-medium text-green-700 aria-[invalid=true]:border-red-400 aria-[invalid=true]:bg-red-50';
+
+// Each use of a tiered coupon takes exactly one of these tiers
+function TierEditor({ tiers, currency, issues = [], onChange }: TierEditorProps) {
+  const updateTier = (index: number, tier: CouponTier) => {
+    onChange(tiers.map((t, i) => (i === index ? tier : t)));
+  };
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    onChange([...tiers, last ? { threshold: last.threshold * 2, discount: last.discount * 2 } : { threshold: 100, discount: 10 }]);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs font-medium text-gray-500 mb-1">
+        <span>Spend ({currencySymbol(currency)})</span>
+        <span>Get Off ({currencySymbol(currency)})</span>
+        <span className="w-6" />
+      </div>
+      <div className="space-y-2">
+        {tiers.map((tier, index) => (
+          <div key={index}>
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <input
+                type="number"
+                min="0"
+                step={inputStep(currency)}
+                value={isNaN(tier.threshold) ? '' : tier.threshold}
+                onChange={(e) => updateTier(index, { ...tier, threshold: parseNumberInput(e.target.value) })}
+                aria-invalid={issueFor(issues, `tiers.${index}.threshold`)?.severity === 'error'}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                step={inputStep(currency)}
+                value={isNaN(tier.discount) ? '' : tier.discount}
+                onChange={(e) => updateTier(index, { ...tier, discount: parseNumberInput(e.target.value) })}
+                aria-invalid={issueFor(issues, `tiers.${index}.discount`)?.severity === 'error'}
+                className={discountInputClass}
+              />
+              <button
+                onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+                disabled={tiers.length <= 1}
+                className="w-6 h-6 flex items-center justify-center text-gray-300 hover:text-red-500 disabled:opacity-0 transition-colors"
+                title="Remove Tier"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <FieldMessage issue={issueFor(issues, `tiers.${index}.threshold`)} />
+            <FieldMessage issue={issueFor(issues, `tiers.${index}.discount`)} />
+          </div>
+        ))}
+        <FieldMessage issue={issueFor(issues, 'tiers')} />
+      </div>
+      <button onClick={addTier} className="mt-2 flex items-center gap-1 text-xs text-blue-500 hover:underline">
+        <Plus className="w-3 h-3" />
+        Add tier
+      </button>
+    </div>
+  );
+}
+
+export default TierEditor;
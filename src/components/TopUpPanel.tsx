@@ -0,0 +1,64 @@
+import { TrendingUp } from 'lucide-react';
+import type { Coupon, TopUpSuggestion } from '../types';
+import { describeUse } from '../lib/coupons';
+import { currencySymbol, formatMoney } from '../lib/currency';
+
+interface TopUpPanelProps {
+  suggestions: TopUpSuggestion[];
+  coupons: Coupon[];
+  currency: string;
+  limit: number;
+  onLimitChange: (limit: number) => void;
+}
+
+function TopUpPanel({ suggestions, coupons, currency, limit, onLimitChange }: TopUpPanelProps) {
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h4 className="text-white font-semibold flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-green-400" />
+          Spend a Bit More?
+        </h4>
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          Up to {currencySymbol(currency)}
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={isNaN(limit) ? '' : limit}
+            onChange={(e) => onLimitChange(e.target.value === '' ? NaN : parseFloat(e.target.value))}
+            className="w-20 px-2 py-1 bg-white/10 border border-white/10 rounded text-white text-sm outline-none focus:border-blue-400"
+          />
+          extra
+        </label>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-gray-400 text-sm italic">Spending more within this limit would not save you anything.</p>
+      ) : (
+        <ul className="space-y-3">
+          {suggestions.map((s) => (
+            <li key={s.newTotal} className="text-sm border-b border-white/10 pb-2 last:border-0 last:pb-0">
+              <div className="flex justify-between items-center gap-4">
+                <span className="text-gray-300">
+                  Add <span className="text-white font-bold">{formatMoney(s.extraSpend, currency)}</span> to unlock another{' '}
+                  <span className="text-white font-bold">{formatMoney(s.extraDiscount, currency)}</span> off
+                </span>
+                <span className="text-green-400 font-mono whitespace-nowrap">net +{formatMoney(s.netGain, currency)}</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                At {formatMoney(s.newTotal, currency)}:{' '}
+                {s.solution.map((u) => {
+                  const original = coupons.find(c => c.id === u.couponId);
+                  return original ? `${u.count}x ${describeUse(original, u.tier, currency)}` : null;
+                }).filter(Boolean).join(', ')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TopUpPanel;
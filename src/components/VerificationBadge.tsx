@@ -0,0 +1,56 @@
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import type { Verification } from '../types';
+import { formatMoney } from '../lib/currency';
+
+interface VerificationBadgeProps {
+  verification: Verification;
+  currency: string;
+}
+
+function VerificationBadge({ verification, currency }: VerificationBadgeProps) {
+  const { status, gap = 0, exhaustiveDiscount, issues, reason } = verification;
+
+  if (status === 'unverified') {
+    return (
+      <p className="mt-2 text-xs flex items-center gap-1.5 text-gray-400" title={reason}>
+        <ShieldQuestion className="w-4 h-4 text-gray-500" />
+        <span>Not independently checked</span>
+      </p>
+    );
+  }
+
+  if (status === 'discrepancy') {
+    return (
+      <div className="mt-3 bg-yellow-900/40 border border-yellow-700/50 rounded-lg p-3 text-xs text-yellow-200">
+        <p className="font-semibold flex items-center gap-1.5 mb-1">
+          <ShieldAlert className="w-4 h-4 text-yellow-500" />
+          The check of this plan found a problem; don't rely on it at checkout.
+        </p>
+        <ul className="list-disc pl-5 space-y-0.5">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const detail = exhaustiveDiscount !== undefined
+    ? 'Replayed step by step and compared with every combination of your coupons.'
+    : gap > 0
+      ? `Replayed step by step. Too many combinations to compare them all; no plan can save more than ${formatMoney(gap, currency)} extra.`
+      : 'Replayed step by step and equal to the highest discount possible.';
+
+  return (
+    <p className="mt-2 text-xs flex items-center gap-1.5 text-gray-400" title={detail}>
+      <ShieldCheck className={`w-4 h-4 ${status === 'verified' ? 'text-green-400' : 'text-gray-500'}`} />
+      {status === 'verified' ? (
+        <span className="text-green-300 font-medium">Verified optimal</span>
+      ) : (
+        <span>Checked · at most {formatMoney(gap, currency)} more may be possible</span>
+      )}
+    </p>
+  );
+}
+
+export default VerificationBadge;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Download, Plus, Trash2, Wallet as WalletIcon } from 'lucide-react';
+import type { Wallet } from '../types';
+
+interface WalletBarProps {
+  wallets: Wallet[];
+  active: Wallet | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onChange: (patch: Partial<Omit<Wallet, 'id'>>) => void;
+  onRemove: () => void;
+  // Returns what went wrong, if anything
+  onImport: (link: string) => string[];
+  // Why stored wallets couldn't all be read; changes aren't saved until onOverwrite
+  problem: string | null;
+  saveError: string | null;
+  onOverwrite: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-md focus:ring-blue-500 focus:border-blue-500 outline-none text-sm';
+
+function WalletBar({ wallets, active, onSelect, onCreate, onChange, onRemove, onImport, problem, saveError, onOverwrite }: WalletBarProps) {
+  const [link, setLink] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const importLink = () => {
+    if (link.trim() === '') return;
+    const errors = onImport(link.trim());
+    setImportErrors(errors);
+    if (errors.length === 0) setLink('');
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+      {(problem || saveError) && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-2">
+          {problem && <p>{problem} Changes to wallets are not being saved, so nothing stored is lost.</p>}
+          {saveError && <p>{saveError}</p>}
+          {problem && (
+            <button onClick={onOverwrite} className="font-medium underline hover:text-amber-900">
+              Back up the old data and save these wallets
+            </button>
+          )}
+        </div>
+      )}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-48">
+          <label className="text-xs font-medium text-gray-500 mb-1 flex items-center gap-1.5">
+            <WalletIcon className="w-3.5 h-3.5" />
+            Wallet
+          </label>
+          <select
+            value={active?.id ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Not saved</option>
+            {wallets.map((w) => (
+              <option key={w.id} value={w.id}>{w.store || 'Unnamed store'}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={onCreate}
+          className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Save as Wallet
+        </button>
+        {active && (
+          <button
+            onClick={onRemove}
+            className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
+            title="Delete Wallet"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {active && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="text-xs font-medium text-gray-500 mb-1 block">Store</label>
+            <input
+              type="text"
+              value={active.store}
+              onChange={(e) => onChange({ store: e.target.value })}
+              className={inputClass}
+              placeholder="Corner Market"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="text-xs font-medium text-gray-500 mb-1 block">Notes</label>
+            <input
+              type="text"
+              value={active.notes}
+              onChange={(e) => onChange({ notes: e.target.value })}
+              className={inputClass}
+              placeholder="Coupons arrive by email on Mondays"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <input
+          type="url"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && importLink()}
+          className={inputClass}
+          placeholder={active ? `Paste a shared link to add its coupons to ${active.store || 'this wallet'}` : 'Paste a shared link to save its coupons as a wallet'}
+        />
+        <button
+          onClick={importLink}
+          className="flex items-center gap-1.5 px-4 py-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg transition-colors shadow-sm whitespace-nowrap"
+        >
+          <Download className="w-4 h-4" />
+          Import
+        </button>
+      </div>
+      {importErrors.length > 0 && (
+        <div className="text-sm text-red-600 space-y-1">
+          {importErrors.map((message) => (
+            <p key={message}>{message}</p>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default WalletBar;
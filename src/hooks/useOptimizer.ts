@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Coupon } from '../types';
+import type { SolveOptions, WorkerRequest, WorkerResponse } from '../workers/protocol';
+import { debounce, fail, IDLE, receive, type Debounce, type Running, type SolverState } from '../workers/session';
+
+// Wait for typing to pause before solving
+const DEBOUNCE_MS = 250;
+
+// A failed worker is thrown away; the next request starts a fresh one
+function spawnWorker(onMessage: (e: MessageEvent<WorkerResponse>) => void, onFailure: (message: string) => void): Worker {
+    const worker = new Worker(new URL('../workers/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', e => {
+        e.preventDefault();
+        onFailure(e.message || 'The solver stopped unexpectedly.');
+    });
+    worker.addEventListener('messageerror', () => onFailure('The solver sent an unreadable answer.'));
+    return worker;
+}
+
+/**
+ * Solves in a Web Worker so typing stays smooth. Inputs are debounced, only the latest
+ * request is computed, and a solve that is still running when new input arrives is stopped by
+ * replacing the worker.
+ */
+export function useOptimizer(coupons: Coupon[], total: number, options: SolveOptions) {
+    const [state, setState] = useState<SolverState>(IDLE);
+
+    const key = useMemo(() => JSON.stringify([coupons, total, options]), [coupons, total, options]);
+    const inputs = useRef({ coupons, total, options });
+    const worker = useRef<Worker | null>(null);
+    const handler = useRef<(e: MessageEvent<WorkerResponse>) => void>(() => {});
+    const failure = useRef<(message: string) => void>(() => {});
+    // The request posted last and not yet answered
+    const running = useRef<Running | null>(null);
+    const nextId = useRef(0);
+    // Inputs the next debounced request is for
+    const wanted = useRef(key);
+    const solveSoon = useRef<Debounce | null>(null);
+
+    useEffect(() => {
+        inputs.current = { coupons, total, options };
+    });
+
+    useEffect(() => {
+        handler.current = (e) => {
+            const next = receive(running.current, e.data);
+            if (!next) return;
+            running.current = next.running;
+            setState(next.update);
+        };
+        failure.current = (message) => {
+            const update = fail(running.current, message);
+            worker.current?.terminate();
+            worker.current = null;
+            running.current = null;
+            setState(update);
+        };
+        worker.current = spawnWorker(e => handler.current(e), m => failure.current(m));
+
+        return () => {
+            worker.current?.terminate();
+            worker.current = null;
+            running.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const solver = debounce(() => {
+            if (!worker.current || running.current) {
+                // A posted solve can't be interrupted from inside the worker, so replace the worker
+                worker.current?.terminate();
+                worker.current = spawnWorker(e => handler.current(e), m => failure.current(m));
+            }
+            const id = ++nextId.current;
+            running.current = { id, key: wanted.current };
+            setState(s => ({ ...s, progress: 0 }));
+            const request: WorkerRequest = { type: 'solve', id, ...inputs.current };
+            worker.current.postMessage(request);
+        }, DEBOUNCE_MS);
+        solveSoon.current = solver;
+        return () => solver.cancel();
+    }, []);
+
+    useEffect(() => {
+        wanted.current = key;
+        solveSoon.current?.trigger();
+    }, [key]);
+
+    return {
+        result: state.result,
+        // The shown result belongs to older inputs
+        stale: state.key !== key,
+        progress: state.progress,
+        error: state.error
+    };
+}
@@ -1,94 +1,98 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { Coupon } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { AppState } from '../types';
+import { createHistory, current, navigate, recordEdit, redo as redoStep, restart, undo as undoStep } from '../lib/editHistory';
+import { decodeShareLink, encodeShareLink, type DecodedState } from '../lib/shareLink';
 
-interface AppState {
-    total: number;
-    coupons: Coupon[];
-}
-
-export function useUrlState() {
-    const [state, setState] = useState<AppState>({
-        total: 0,
-        coupons: []
-    });
-
-    // Load from URL on mount
-    useEffect(() => {
-        const params = new URLSearchParams(window.location.search);
-        const totalParam = params.get('t');
-        const couponsParam = params.get('c');
+// Browser history entries made by this page load carry this prefix; older ones only have their URL
+const SESSION = Math.random().toString(36).slice(2);
 
-        let newTotal = 0;
-        let newCoupons: Coupon[] = [];
-
-        if (totalParam) {
-            const parsed = parseFloat(totalParam);
-            if (!isNaN(parsed)) newTotal = parsed;
-        }
+// What the page stores in `history.state`
+interface HistoryMark {
+    entry: string;
+}
 
-        if (couponsParam) {
-            try {
-                // Try to detect old format first (simple heuristic: contains :)
-                if (couponsParam.includes(':')) {
-                    // Legacy format support (optional based on user request "no need backward", but good for robustness if mixed)
-                    // Actually user said "We dont need to be backward compatible."
-                    // So I'll proceed with strictly new format, OR just fail on old format.
-                    // But the code block must be replaced.
-                    throw new Error("Old format not supported");
-                }
+// Reads the state from a query string such as `window.location.search`, with any problems reading it
+export function decodeState(search: string): DecodedState {
+    return decodeShareLink(search);
+}
 
-                // New Format: Base64 URL Safe of JSON [[threshold, discount, count], ...]
-                let base64 = couponsParam.replace(/-/g, '+').replace(/_/g, '/');
-                // Pad with =
-                while (base64.length % 4) {
-                    base64 += '=';
-                }
+// Query string (without the leading ?) that decodeState reads back; `participantId` addresses
+// a group order's link to one of its participants
+export function encodeState(state: AppState, participantId?: string): string {
+    return encodeShareLink(state, participantId);
+}
 
-                const json = atob(base64);
-                const data = JSON.parse(json);
+/**
+ * App state kept in the URL. Every edit is a browser history entry, so Back/Forward and
+ * undo/redo walk the same list. Wallets are not rolled back; the next edit saves to them again.
+ */
+export function useUrlState() {
+    // Load from URL on mount
+    const [loaded] = useState(() => decodeState(window.location.search));
+    const [state, setState] = useState<AppState>(loaded.state);
+    const [loadErrors, setLoadErrors] = useState<string[]>(loaded.errors);
+    const [position, setPosition] = useState({ index: 0, length: 1 });
 
-                if (Array.isArray(data)) {
-                    newCoupons = data.map((item: any, idx: number) => {
-                        if (Array.isArray(item) && item.length === 3) {
-                            return {
-                                id: `c-${Date.now()}-${idx}`,
-                                threshold: Number(item[0]),
-                                discount: Number(item[1]),
-                                count: Number(item[2])
-                            };
-                        }
-                        return null;
-                    }).filter((c): c is Coupon => c !== null);
-                }
-            } catch (e) {
-                console.error("Failed to parse coupons", e);
-            }
-        }
+    // The states of this page load's history entries (see editHistory.ts)
+    const history = useRef(createHistory(loaded.state, SESSION));
 
-        setState({ total: newTotal, coupons: newCoupons });
+    useEffect(() => {
+        window.history.replaceState({ entry: current(history.current).id } satisfies HistoryMark, '');
     }, []);
 
     // Update URL when state changes
     const updateState = useCallback((newState: AppState) => {
+        const { history: h, action } = recordEdit(history.current, newState, Date.now());
+        history.current = h;
+        const mark: HistoryMark = { entry: current(h).id };
+        const newUrl = `${window.location.pathname}?${encodeState(newState)}`;
+        if (action === 'push') window.history.pushState(mark, '', newUrl);
+        else window.history.replaceState(mark, '', newUrl);
         setState(newState);
-        const params = new URLSearchParams();
-        if (newState.total > 0) {
-            params.set('t', newState.total.toString());
-        }
+        setPosition({ index: h.index, length: h.entries.length });
+    }, []);
+
+    // Back/Forward, including the ones undo and redo trigger
+    useEffect(() => {
+        const onPopState = (e: PopStateEvent) => {
+            const mark = e.state as HistoryMark | null;
+            let h = navigate(history.current, mark?.entry);
+            if (!h) {
+                // An entry from before a reload: start a new list from its URL
+                const decoded = decodeState(window.location.search);
+                setLoadErrors(decoded.errors);
+                h = restart(history.current, decoded.state);
+                window.history.replaceState({ entry: current(h).id } satisfies HistoryMark, '');
+            }
+            history.current = h;
+            setState(current(h).state);
+            setPosition({ index: h.index, length: h.entries.length });
+        };
+        window.addEventListener('popstate', onPopState);
+        return () => window.removeEventListener('popstate', onPopState);
+    }, []);
 
-        if (newState.coupons.length > 0) {
-            // Serialize
-            const simplified = newState.coupons.map(c => [c.threshold, c.discount, c.count]);
-            const json = JSON.stringify(simplified);
-            const base64 = btoa(json);
-            // Make URL safe
-            const urlSafe = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-            params.set('c', urlSafe);
-        }
+    // The browser moves first; the state follows on popstate
+    const undo = useCallback(() => {
+        if (undoStep(history.current)) window.history.back();
+    }, []);
 
-        const newUrl = `${window.location.pathname}?${params.toString()}`;
-        window.history.pushState({}, '', newUrl);
+    const redo = useCallback(() => {
+        if (redoStep(history.current)) window.history.forward();
     }, []);
 
-    return { state, updateState };
+    const dismissLoadErrors = useCallback(() => setLoadErrors([]), []);
+
+    return {
+        state,
+        updateState,
+        undo,
+        redo,
+        canUndo: position.index > 0,
+        canRedo: position.index < position.length - 1,
+        loadErrors,
+        dismissLoadErrors,
+        // Group orders: the participant the opened link was addressed to
+        recipientId: loaded.participantId ?? null
+    };
 }
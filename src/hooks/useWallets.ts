@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Coupon, Wallet } from '../types';
+import { isKnownCurrency } from '../lib/currency';
+import { readCouponJson } from '../lib/stateJson';
+
+const STORAGE_KEY = 'discount-optimizer.wallets';
+// Where unreadable wallets are kept before they are overwritten
+const BACKUP_KEY = 'discount-optimizer.wallets.backup';
+
+function readWallet(raw: unknown, idx: number): Wallet | null {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+    const data = raw as Record<string, unknown>;
+    // Coupons that can't be read are dropped; the reasons only matter when importing
+    const coupons = Array.isArray(data.coupons)
+        ? data.coupons.map((c, i) => readCouponJson(c, i, [])).filter((c): c is Coupon => c !== null)
+        : [];
+    const wallet: Wallet = {
+        id: typeof data.id === 'string' && data.id !== '' ? data.id : `w-${idx + 1}`,
+        store: typeof data.store === 'string' ? data.store : '',
+        notes: typeof data.notes === 'string' ? data.notes : '',
+        coupons
+    };
+    if (typeof data.currency === 'string' && isKnownCurrency(data.currency)) wallet.currency = data.currency;
+    return wallet;
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e);
+}
+
+interface Loaded {
+    // The wallets that could be read
+    wallets: Wallet[];
+    // Why some or all stored wallets couldn't be read; null when all were
+    problem: string | null;
+    // What storage held, to back up before it is overwritten
+    raw: string | null;
+}
+
+function loadWallets(): Loaded {
+    let raw: string | null;
+    try {
+        raw = localStorage.getItem(STORAGE_KEY);
+    } catch (e) {
+        return { wallets: [], problem: `Saved wallets can't be opened: ${errorMessage(e)}`, raw: null };
+    }
+    if (raw === null) return { wallets: [], problem: null, raw };
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { wallets: [], problem: 'Saved wallets are damaged and could not be loaded.', raw };
+    }
+    if (!Array.isArray(data)) return { wallets: [], problem: 'Saved wallets are damaged and could not be loaded.', raw };
+    const wallets = data.map(readWallet).filter((w): w is Wallet => w !== null);
+    const lost = data.length - wallets.length;
+    return {
+        wallets,
+        problem: lost > 0 ? `${lost} saved wallet${lost === 1 ? '' : 's'} could not be read.` : null,
+        raw
+    };
+}
+
+/**
+ * Named coupon wallets saved in localStorage and shared between tabs. While stored wallets can't
+ * all be read, changes are kept in memory only, so storage is never overwritten with less than it
+ * held until `overwriteStored` is called (which backs the old data up first).
+ */
+export function useWallets() {
+    const [loaded] = useState(loadWallets);
+    const [wallets, setWallets] = useState<Wallet[]>(loaded.wallets);
+    const [problem, setProblem] = useState(loaded.problem);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    // The latest list and stored string, for handlers that run between renders
+    const latest = useRef(wallets);
+    const raw = useRef(loaded.raw);
+
+    // Another tab changed the wallets
+    useEffect(() => {
+        const onStorage = (e: StorageEvent) => {
+            if (e.key !== STORAGE_KEY) return;
+            const next = loadWallets();
+            raw.current = next.raw;
+            latest.current = next.wallets;
+            setWallets(next.wallets);
+            setProblem(next.problem);
+        };
+        window.addEventListener('storage', onStorage);
+        return () => window.removeEventListener('storage', onStorage);
+    }, []);
+
+    const write = useCallback((ws: Wallet[]): boolean => {
+        try {
+            const json = JSON.stringify(ws);
+            localStorage.setItem(STORAGE_KEY, json);
+            raw.current = json;
+            setSaveError(null);
+            return true;
+        } catch (e) {
+            setSaveError(`Wallets could not be saved: ${errorMessage(e)}`);
+            return false;
+        }
+    }, []);
+
+    const change = useCallback((update: (ws: Wallet[]) => Wallet[]) => {
+        const next = update(latest.current);
+        latest.current = next;
+        setWallets(next);
+        if (!problem) write(next);
+    }, [problem, write]);
+
+    // Keeps what storage held under a backup key, then saves the wallets as they are now
+    const overwriteStored = useCallback(() => {
+        try {
+            if (raw.current !== null) localStorage.setItem(BACKUP_KEY, raw.current);
+        } catch (e) {
+            setSaveError(`The old wallets could not be backed up, so nothing was saved: ${errorMessage(e)}`);
+            return;
+        }
+        if (write(latest.current)) setProblem(null);
+    }, [write]);
+
+    const createWallet = useCallback((wallet: Omit<Wallet, 'id'>): string => {
+        const id = `w-${Date.now()}`;
+        change(ws => [...ws, { ...wallet, id }]);
+        return id;
+    }, [change]);
+
+    const updateWallet = useCallback((id: string, patch: Partial<Omit<Wallet, 'id'>>) => {
+        change(ws => ws.map(w => (w.id === id ? { ...w, ...patch } : w)));
+    }, [change]);
+
+    const removeWallet = useCallback((id: string) => {
+        change(ws => ws.filter(w => w.id !== id));
+    }, [change]);
+
+    return { wallets, createWallet, updateWallet, removeWallet, problem, saveError, overwriteStored };
+}
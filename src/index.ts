@@ -0,0 +1,12 @@
+// Headless entry for scripts and servers: the solver, the page's input readers and the shared types.
+// Nothing reachable from here may touch React or the DOM (tsconfig.lib.json checks this).
+export type * from "./types";
+export { calculateOptimization } from "./lib/optimizer";
+export { verifyBasket } from "./lib/verify";
+export { buildSolveRequest, horizonPurchases, type SolveRequest, type SolveSettings } from "./lib/solveRequest";
+export { readCouponJson, readStateJson } from "./lib/stateJson";
+export { decodeShareLink, emptyState, encodeShareLink, SHARE_VERSION, type DecodedState } from "./lib/shareLink";
+export { COUPON_KIND_LABELS, describeCoupon, describeUse } from "./lib/coupons";
+export { currencyScale, formatMoney } from "./lib/currency";
+export { checkoutCsv, checkoutJson, checkoutPlan, checkoutText, CHECKOUT_JSON_VERSION } from "./lib/checkout";
+export { encodeQr, qrPath, type QrCode, type QrErrorCorrection } from "./lib/qrCode";
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon, TieBreak } from "../types";
+import { calculateOptimization } from "./optimizer";
+
+// Two small coupons or one big one save the same on 200
+const coupons: Coupon[] = [
+    { id: "small", kind: "fixed", threshold: 100, discount: 10, count: 2, expiresOn: "2026-11-01" },
+    { id: "big", kind: "fixed", threshold: 200, discount: 20, count: 1 }
+];
+
+const strategies = (tieBreak: TieBreak) =>
+    calculateOptimization(coupons, 200, { alternatives: 3, tieBreak }).alternatives?.map(s => [
+        s.solution.map(u => `${u.count}x ${u.couponId}`).join(", "),
+        s.discount,
+        s.gap
+    ]);
+
+describe("alternative strategies", () => {
+    it("ranks by savings and puts the fewest coupons first among equals", () => {
+        expect(strategies('fewest-coupons')).toEqual([["1x big", 20, 0], ["2x small", 20, 0], ["1x small", 10, 10]]);
+    });
+
+    it("keeps the largest coupon for later when asked", () => {
+        expect(strategies('keep-largest')?.[0][0]).toBe("2x small");
+    });
+
+    it("uses the coupons that expire first when asked", () => {
+        expect(strategies('expiring-first')?.[0][0]).toBe("2x small");
+    });
+
+    it("describes the preferred strategy as the result", () => {
+        const result = calculateOptimization(coupons, 200, { alternatives: 3, tieBreak: 'keep-largest' });
+        expect(result.solution).toEqual(result.alternatives?.[0].solution);
+    });
+});
@@ -0,0 +1,77 @@
+import type { Coupon, TieBreak } from "../types";
+import { faceValue } from "./coupons";
+
+export const TIE_BREAK_LABELS: Record<TieBreak, string> = {
+    'fewest-coupons': "Fewest coupons",
+    'keep-largest': "Keep the largest coupons",
+    'expiring-first': "Use expiring coupons first"
+};
+
+// Coupon id -> uses
+export type UsageCounts = Map<string, number>;
+
+function uses(usage: UsageCounts, id: string): number {
+    return usage.get(id) ?? 0;
+}
+
+/**
+ * Orders two usages that save the same amount, negative when `a` is preferred.
+ * Coupons missing from `coupons` are ignored.
+ */
+export function compareUsage(a: UsageCounts, b: UsageCounts, coupons: Coupon[], tieBreak: TieBreak): number {
+    switch (tieBreak) {
+        case 'fewest-coupons': {
+            const total = (u: UsageCounts) => [...u.values()].reduce((sum, k) => sum + k, 0);
+            return total(a) - total(b);
+        }
+        case 'keep-largest': {
+            // Fewer uses of the biggest coupon first, then of the next biggest, ...
+            const bySize = [...coupons].sort((x, y) => faceValue(y) - faceValue(x));
+            for (const c of bySize) {
+                const diff = uses(a, c.id) - uses(b, c.id);
+                if (diff !== 0) return diff;
+            }
+            return 0;
+        }
+        case 'expiring-first': {
+            // More uses of the coupon that runs out first, then of the next one, ...
+            const byExpiry = coupons
+                .filter(c => !!c.expiresOn)
+                .sort((x, y) => x.expiresOn!.localeCompare(y.expiresOn!));
+            for (const c of byExpiry) {
+                const diff = uses(b, c.id) - uses(a, c.id);
+                if (diff !== 0) return diff;
+            }
+            return 0;
+        }
+    }
+}
+
+function usageKey(usage: UsageCounts): string {
+    return [...usage]
+        .filter(([, k]) => k > 0)
+        .sort(([x], [y]) => x.localeCompare(y))
+        .map(([id, k]) => `${id}:${k}`)
+        .join(",");
+}
+
+/**
+ * The `keep` best distinct candidates: highest scaled value first, ties settled by `tieBreak`.
+ */
+export function rankCandidates<T extends { value: number; usage: UsageCounts }>(
+    candidates: T[],
+    keep: number,
+    coupons: Coupon[],
+    tieBreak: TieBreak
+): T[] {
+    const seen = new Set<string>();
+    return [...candidates]
+        .sort((a, b) => b.value - a.value || compareUsage(a.usage, b.usage, coupons, tieBreak))
+        .filter(c => {
+            const key = usageKey(c.usage);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, keep);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { searchCouponCounts, type SearchType } from "./branchAndBound";
+import { calculateOptimization } from "./optimizer";
+
+// The best ratio alone leaves room unused: 2 x 6 fills 12 exactly for 18, 1 x 7 only gets 11
+const types: SearchType[] = [
+    { cost: 7, value: 11, maxCount: 1 },
+    { cost: 6, value: 9, maxCount: 2 },
+    { cost: 5, value: 6, maxCount: 3 }
+];
+
+describe("searchCouponCounts", () => {
+    it("finds the best counts within the capacity and copies", () => {
+        const result = searchCouponCounts(types, { capacity: 12 });
+        expect(result).toMatchObject({ counts: [0, 2, 0], value: 18, complete: true, upperBound: 18 });
+    });
+
+    it("keeps the next best selections when asked", () => {
+        const { alternatives } = searchCouponCounts(types, { capacity: 12, keep: 3 });
+        expect(alternatives).toEqual([
+            { counts: [0, 2, 0], value: 18 },
+            { counts: [1, 0, 1], value: 17 },
+            { counts: [0, 1, 1], value: 15 }
+        ]);
+    });
+
+    it("skips selections the feasibility check rejects", () => {
+        const result = searchCouponCounts(types, { capacity: 12, isFeasible: counts => counts[1] <= 1 });
+        expect(result).toMatchObject({ counts: [1, 0, 1], value: 17 });
+    });
+
+    it("reports an upper bound when the node limit stops it", () => {
+        const many = Array.from({ length: 30 }, (_, i) => ({ cost: 97 + i * 13, value: 50 + i * 7, maxCount: 5 }));
+        const result = searchCouponCounts(many, { capacity: 10_000, nodeLimit: 50 });
+        expect(result.complete).toBe(false);
+        expect(result.upperBound).toBeGreaterThan(result.value);
+    });
+});
+
+describe("large totals", () => {
+    it("solves totals too large for the knapsack table", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 7_000_001, discount: 110_000, count: 1 },
+            { id: "b", kind: "fixed", threshold: 6_000_001, discount: 90_000, count: 2 }
+        ];
+        // Twelve million units after dividing out the common factor
+        const result = calculateOptimization(coupons, 12_000_003);
+        expect(result.totalDiscount).toBe(180_000);
+        expect(result.solution).toEqual([{ couponId: "b", count: 2, discount: 180_000 }]);
+    });
+});
@@ -0,0 +1,125 @@
+// Depth-first branch-and-bound over "how many copies of each coupon type to use".
+// Used where the plain knapsack DP cannot express the constraints (e.g. scoped coupons)
+// or its table would not fit into memory (very large totals).
+
+export interface SearchType {
+    cost: number;
+    value: number;
+    maxCount: number;
+}
+
+export interface SearchOptions {
+    capacity: number;
+    // Called once the count of `order[depth]` has been fixed. Returning false prunes the branch.
+    // Must be monotone: if a selection is infeasible, using more copies must be infeasible too.
+    isFeasible?: (counts: number[], typeIndex: number) => boolean;
+    nodeLimit?: number;
+    // How many of the best distinct selections to return (default 1)
+    keep?: number;
+    // Orders selections of equal value, negative when `a` is preferred. Ties are only explored with one.
+    compare?: (a: number[], b: number[]) => number;
+    // Called with the fraction of the node budget used so far
+    onProgress?: (fraction: number) => void;
+}
+
+export interface SearchResult {
+    counts: number[];
+    value: number;
+    // False when the node limit stopped the search before it could prove optimality.
+    complete: boolean;
+    // No selection is worth more than this (equals value when complete)
+    upperBound: number;
+    // The `keep` best selections, best first (the first one is `counts`)
+    alternatives: { counts: number[]; value: number }[];
+}
+
+const DEFAULT_NODE_LIMIT = 500_000;
+const PROGRESS_INTERVAL = 10_000;
+
+function ratio(t: SearchType): number {
+    return t.cost === 0 ? Infinity : t.value / t.cost;
+}
+
+export function searchCouponCounts(types: SearchType[], options: SearchOptions): SearchResult {
+    const { capacity, isFeasible, compare } = options;
+    const nodeLimit = options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+    const keep = Math.max(1, options.keep ?? 1);
+
+    // Best ratio first: the greedy dive finds a good incumbent early and the bound stays tight.
+    const order = types
+        .map((_, i) => i)
+        .filter(i => types[i].maxCount > 0 && types[i].value > 0)
+        .sort((a, b) => ratio(types[b]) - ratio(types[a]));
+
+    const counts = new Array<number>(types.length).fill(0);
+    // Best first, at most `keep` entries. Every complete selection passes through a leaf once.
+    const top: { counts: number[]; value: number }[] = [];
+    const record = (value: number) => {
+        const at = top.findIndex(t => value > t.value || (value === t.value && !!compare && compare(counts, t.counts) < 0));
+        if (at === -1 && top.length >= keep) return;
+        top.splice(at === -1 ? top.length : at, 0, { counts: counts.slice(), value });
+        if (top.length > keep) top.pop();
+    };
+    // Value a branch has to reach to still make the list
+    const cutoff = () => (top.length < keep ? -Infinity : top[keep - 1].value);
+    let nodes = 0;
+    let complete = true;
+
+    // Fractional (LP) relaxation of the remaining types.
+    const bound = (depth: number, remaining: number): number => {
+        let total = 0;
+        for (let d = depth; d < order.length && remaining > 0; d++) {
+            const t = types[order[d]];
+            if (t.cost === 0) continue;
+            const fullCost = t.cost * t.maxCount;
+            if (fullCost <= remaining) {
+                total += t.value * t.maxCount;
+                remaining -= fullCost;
+            } else {
+                total += t.value * (remaining / t.cost);
+                remaining = 0;
+            }
+        }
+        // Zero-cost types never consume capacity
+        for (let d = depth; d < order.length; d++) {
+            const t = types[order[d]];
+            if (t.cost === 0) total += t.value * t.maxCount;
+        }
+        return total;
+    };
+
+    const visit = (depth: number, remaining: number, value: number) => {
+        if (depth === order.length) {
+            record(value);
+            return;
+        }
+        if (++nodes > nodeLimit) {
+            complete = false;
+            return;
+        }
+        if (options.onProgress && nodes % PROGRESS_INTERVAL === 0) {
+            options.onProgress(nodes / nodeLimit);
+        }
+        const limit = value + bound(depth, remaining);
+        if (limit < cutoff() || (limit === cutoff() && !compare)) return;
+
+        const typeIndex = order[depth];
+        const t = types[typeIndex];
+        const maxAffordable = t.cost === 0 ? t.maxCount : Math.min(t.maxCount, Math.floor(remaining / t.cost));
+
+        for (let k = maxAffordable; k >= 0; k--) {
+            counts[typeIndex] = k;
+            if (k > 0 && isFeasible && !isFeasible(counts, typeIndex)) continue;
+            visit(depth + 1, remaining - k * t.cost, value + k * t.value);
+            if (!complete) break;
+        }
+        counts[typeIndex] = 0;
+    };
+
+    visit(0, capacity, 0);
+
+    const best = top[0] ?? { counts, value: 0 };
+    // The LP relaxation at the root bounds every selection, including the unexplored ones
+    const upperBound = complete ? best.value : Math.max(best.value, Math.floor(bound(0, capacity)));
+    return { counts: best.counts, value: best.value, complete, upperBound, alternatives: top };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { CartItem, Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+
+const items: CartItem[] = [
+    { id: "tv", name: "TV", price: 300, quantity: 1, categories: ["electronics"] },
+    { id: "tea", name: "Tea", price: 20, quantity: 5, categories: ["grocery"] }
+];
+
+describe("item-level carts", () => {
+    it("takes the total from the items", () => {
+        const result = calculateOptimization([], 0, { items });
+        expect(result.totalOriginal).toBe(400);
+        expect(result.finalPrice).toBe(400);
+    });
+
+    it("only counts eligible items towards a scoped coupon's threshold", () => {
+        const coupons: Coupon[] = [
+            { id: "grocery", kind: "fixed", threshold: 150, discount: 30, count: 1, scope: { categories: ["grocery"] } },
+            { id: "elec", kind: "fixed", threshold: 250, discount: 40, count: 1, scope: { categories: ["electronics"] } }
+        ];
+        const result = calculateOptimization(coupons, 0, { items });
+        expect(result.solution.map(u => u.couponId)).toEqual(["elec"]);
+        expect(result.totalDiscount).toBe(40);
+    });
+
+    it("does not let two coupons count the same spend", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 300, discount: 30, count: 1, scope: { itemIds: ["tv"] } },
+            { id: "b", kind: "fixed", threshold: 300, discount: 25, count: 1, scope: { categories: ["electronics"] } }
+        ];
+        const result = calculateOptimization(coupons, 0, { items });
+        expect(result.totalDiscount).toBe(30);
+        expect(result.allocations?.find(a => a.couponId === "a")?.items).toEqual([{ itemId: "tv", amount: 300 }]);
+    });
+});
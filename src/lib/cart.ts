@@ -0,0 +1,399 @@
+import type { AppliedStep, CartItem, Coupon, CouponAllocation, OptimizationResult, StackingRules, Strategy, TieBreak } from "../types";
+import { compareUsage, rankCandidates, type UsageCounts } from "./alternatives";
+import { searchCouponCounts } from "./branchAndBound";
+import { fixedOptions, isPercentage, isUsable, percentOff, withinCopies } from "./coupons";
+import { roundHalfUp, toUnits } from "./currency";
+import { percentBound, percentSearch, sequenceOrders, usageFromSteps } from "./sequence";
+import { createStackingCheck, explainExclusions, hasStackingRules, withoutStacking } from "./stacking";
+
+// Feasibility is checked over every subset of scope groups (Hall's condition), so keep this small.
+const MAX_SCOPE_GROUPS = 12;
+
+export function isScoped(coupon: Coupon): boolean {
+    const scope = coupon.scope;
+    return !!scope && ((scope.categories?.length ?? 0) > 0 || (scope.itemIds?.length ?? 0) > 0);
+}
+
+export function isItemEligible(item: CartItem, coupon: Coupon): boolean {
+    if (!isScoped(coupon)) return true;
+    const { categories = [], itemIds = [] } = coupon.scope!;
+    if (itemIds.includes(item.id)) return true;
+    const itemCategories = item.categories.map(c => c.trim().toLowerCase());
+    return categories.some(c => itemCategories.includes(c.trim().toLowerCase()));
+}
+
+export function parseCategories(text: string): string[] {
+    return text.split(",").map(c => c.trim()).filter(c => c !== "");
+}
+
+export function cartTotal(items: CartItem[], scale: number): number {
+    let totalScaled = 0;
+    for (const item of items) {
+        if (item.price > 0 && item.quantity > 0) {
+            totalScaled += toUnits(item.price, scale) * item.quantity;
+        }
+    }
+    return totalScaled / scale;
+}
+
+interface Line {
+    item: CartItem;
+    spend: number;
+}
+
+interface ScopeGroup {
+    eligible: boolean[];
+    coupons: Coupon[];
+}
+
+// A coupon selection before item spend is assigned to it
+interface Candidate {
+    value: number;
+    // Fixed coupon uses, aligned with the flattened fixed coupons
+    counts: number[];
+    // Threshold spend per scope group
+    used: number[];
+    usage: UsageCounts;
+    percentSteps: AppliedStep[];
+    percentValue: number;
+}
+
+// Edmonds-Karp on a dense capacity matrix. Graphs here are tiny (groups + cart lines).
+function maxFlow(capacity: number[][], source: number, sink: number): number[][] {
+    const n = capacity.length;
+    const flow = capacity.map(row => row.map(() => 0));
+
+    for (;;) {
+        const parent = new Array<number>(n).fill(-1);
+        parent[source] = source;
+        const queue = [source];
+        while (queue.length > 0 && parent[sink] === -1) {
+            const u = queue.shift()!;
+            for (let v = 0; v < n; v++) {
+                if (parent[v] === -1 && capacity[u][v] - flow[u][v] > 0) {
+                    parent[v] = u;
+                    queue.push(v);
+                }
+            }
+        }
+        if (parent[sink] === -1) return flow;
+
+        let push = Infinity;
+        for (let v = sink; v !== source; v = parent[v]) {
+            const u = parent[v];
+            push = Math.min(push, capacity[u][v] - flow[u][v]);
+        }
+        for (let v = sink; v !== source; v = parent[v]) {
+            const u = parent[v];
+            flow[u][v] += push;
+            flow[v][u] -= push;
+        }
+    }
+}
+
+/**
+ * Hall's condition for scope groups that are each eligible for some of the cart lines
+ * (`eligible[group][line]`), each line worth `spends[line]`: a threshold spend per group can be
+ * covered, counting every line once, exactly when no set of groups needs more than the spend
+ * eligible for any of them. `pool(mask)` is that spend for the groups in `mask`; `violates(used,
+ * mustContain)` checks the sets containing group `mustContain` (every set when it is -1).
+ */
+export function scopeCoverage(eligible: boolean[][], spends: number[]): {
+    pool: (mask: number) => number;
+    violates: (used: number[], mustContain: number) => boolean;
+} {
+    // pool[S] is computed as the total minus the spend of lines whose groups all lie outside S
+    // (subset-sum DP)
+    const G = eligible.length;
+    const full = (1 << G) - 1;
+    const total = spends.reduce((a, b) => a + b, 0);
+    const inside = new Array<number>(1 << G).fill(0);
+    spends.forEach((spend, i) => {
+        let mask = 0;
+        eligible.forEach((e, gi) => {
+            if (e[i]) mask |= 1 << gi;
+        });
+        inside[mask] += spend;
+    });
+    for (let b = 0; b < G; b++) {
+        for (let mask = 0; mask <= full; mask++) {
+            if (mask & (1 << b)) inside[mask] += inside[mask ^ (1 << b)];
+        }
+    }
+    const pool = (mask: number) => total - inside[full ^ mask];
+
+    const violates = (used: number[], mustContain: number) => {
+        for (let mask = 1; mask <= full; mask++) {
+            if (mustContain >= 0 && !(mask & (1 << mustContain))) continue;
+            let demand = 0;
+            for (let b = 0; b < G; b++) {
+                if (mask & (1 << b)) demand += used[b];
+            }
+            if (demand > pool(mask)) return true;
+        }
+        return false;
+    };
+    return { pool, violates };
+}
+
+export function optimizeCart(
+    coupons: Coupon[],
+    items: CartItem[],
+    // Integer units per currency unit
+    scale: number,
+    onProgress?: (fraction: number) => void,
+    // Also return the `keep` best distinct strategies
+    ranking?: { keep: number; tieBreak: TieBreak },
+    rules?: StackingRules
+): OptimizationResult {
+    const lines: Line[] = items
+        .filter(item => item.price > 0 && item.quantity > 0)
+        .map(item => ({ item, spend: toUnits(item.price, scale) * item.quantity }));
+    const totalScaled = lines.reduce((sum, l) => sum + l.spend, 0);
+    const totalPrice = totalScaled / scale;
+
+    const empty: OptimizationResult = {
+        totalOriginal: totalPrice,
+        totalDiscount: 0,
+        finalPrice: totalPrice,
+        solution: [],
+        allocations: []
+    };
+
+    // 1. Group coupons by the set of cart lines they are eligible for
+    const groupsByKey = new Map<string, ScopeGroup>();
+    for (const c of coupons) {
+        if (!isUsable(c)) continue;
+
+        const eligible = lines.map(l => isItemEligible(l.item, c));
+        const eligibleSpend = lines.reduce((sum, l, i) => sum + (eligible[i] ? l.spend : 0), 0);
+        // Ignore coupons whose eligible items can never reach the threshold
+        if (eligibleSpend === 0 || toUnits(c.threshold, scale) > eligibleSpend) continue;
+
+        const key = eligible.map(e => (e ? "1" : "0")).join("");
+        const group = groupsByKey.get(key);
+        if (group) {
+            group.coupons.push(c);
+        } else {
+            groupsByKey.set(key, { eligible, coupons: [c] });
+        }
+    }
+
+    const groups = [...groupsByKey.values()];
+    if (groups.length === 0) return empty;
+    if (groups.length > MAX_SCOPE_GROUPS) {
+        return {
+            ...empty,
+            warning: `Too many distinct coupon scopes (${groups.length}). Please merge categories so at most ${MAX_SCOPE_GROUPS} different scopes remain.`
+        };
+    }
+
+    // 2. Which threshold spends per group the lines can cover
+    const G = groups.length;
+    const full = (1 << G) - 1;
+    const { pool, violates } = scopeCoverage(groups.map(g => g.eligible), lines.map(l => l.spend));
+
+    const flat = groups.flatMap((g, gi) => g.coupons.map(coupon => ({ coupon, group: gi })));
+    const groupOf = new Map(flat.map(f => [f.coupon.id, f.group]));
+    const costOf = (c: Coupon) => toUnits(c.threshold, scale);
+    // Fixed coupons, and each tier of a tiered coupon
+    const fixedFlat = flat.flatMap(({ coupon, group }) => fixedOptions([coupon]).map(option => ({ option, group })));
+    const options = fixedFlat.map(f => f.option);
+    const percentCoupons = flat.map(f => f.coupon).filter(isPercentage);
+    const types = options.map(option => ({
+        cost: toUnits(option.threshold, scale),
+        value: toUnits(option.discount, scale),
+        maxCount: option.coupon.count
+    }));
+
+    // 3. For every affordable set of percentage coupons, branch and bound over the fixed coupon
+    // counts with what is left, pruning selections that violate Hall's condition.
+    // Percentage coupons go first, each taken from the running price of its eligible items.
+    const keep = ranking ? Math.max(1, Math.floor(ranking.keep) || 1) : 1;
+    const tieBreak = ranking?.tieBreak ?? 'fewest-coupons';
+    const candidates: Candidate[] = [];
+    let complete = true;
+    let upperBound = 0;
+
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+    // Past its limits only the most valuable percentage uses are tried, in a greedy order
+    const percents = percentSearch(percentCoupons, totalScaled, scale);
+    const subsets = percents.subsets;
+    // Best the fixed coupons could do alone, for the bound on the sets left untried
+    let fixedOnly = 0;
+    for (const [subsetIndex, subset] of subsets.entries()) {
+        onProgress?.(subsetIndex / subsets.length);
+        const reserved = new Array<number>(G).fill(0);
+        subset.forEach(c => {
+            reserved[groupOf.get(c.id)!] += costOf(c);
+        });
+        if (violates(reserved, -1)) continue;
+
+        const usageOf = (counts: number[]): UsageCounts => {
+            const usage = new Map<string, number>();
+            subset.forEach(c => usage.set(c.id, (usage.get(c.id) ?? 0) + 1));
+            counts.forEach((k, i) => {
+                if (k > 0) usage.set(options[i].coupon.id, (usage.get(options[i].coupon.id) ?? 0) + k);
+            });
+            return usage;
+        };
+        if (check && !check(usageOf([]))) continue;
+
+        let percentValue = 0;
+        let percentSteps: AppliedStep[] = [];
+        for (const order of sequenceOrders(subset, percents.exhaustive, totalScaled, scale)) {
+            const prices = lines.map(l => l.spend);
+            const steps: AppliedStep[] = [];
+            let value = 0;
+            for (const c of order) {
+                const eligible = groups[groupOf.get(c.id)!].eligible;
+                const base = prices.reduce((sum, p, i) => sum + (eligible[i] ? p : 0), 0);
+                const off = base > 0 ? percentOff(c, roundHalfUp(base), scale) : 0;
+                prices.forEach((p, i) => {
+                    if (eligible[i]) prices[i] = p * (1 - off / base);
+                });
+                value += off;
+                steps.push({ couponId: c.id, count: 1, discount: off, priceAfter: totalScaled - value });
+            }
+            if (value > percentValue || percentSteps.length === 0) {
+                percentValue = value;
+                percentSteps = steps;
+            }
+        }
+
+        const usedWith = (counts: number[]) => {
+            const used = reserved.slice();
+            counts.forEach((k, i) => {
+                used[fixedFlat[i].group] += k * types[i].cost;
+            });
+            return used;
+        };
+        const search = searchCouponCounts(types, {
+            capacity: pool(full) - reserved.reduce((a, b) => a + b, 0),
+            isFeasible: (counts, typeIndex) =>
+                withinCopies(options, counts)
+                && !violates(usedWith(counts), fixedFlat[typeIndex].group)
+                && (!check || check(usageOf(counts))),
+            keep,
+            compare: ranking && ((a, b) => compareUsage(usageOf(a), usageOf(b), coupons, tieBreak)),
+            onProgress: onProgress && (f => onProgress((subsetIndex + f) / subsets.length))
+        });
+        complete = complete && search.complete;
+        upperBound = Math.max(upperBound, percentValue + search.upperBound);
+        if (subset.length === 0) fixedOnly = search.upperBound;
+
+        for (const alternative of search.alternatives) {
+            candidates.push({
+                value: percentValue + alternative.value,
+                counts: alternative.counts,
+                used: usedWith(alternative.counts),
+                usage: usageOf(alternative.counts),
+                percentSteps,
+                percentValue
+            });
+        }
+    }
+    if (!percents.exhaustive) {
+        complete = false;
+        upperBound = Math.max(upperBound, Math.min(totalScaled, fixedOnly + percentBound(percentCoupons, totalScaled, scale)));
+    }
+    if (candidates.length === 0) return empty;
+    const ranked = rankCandidates(candidates, keep, coupons, tieBreak);
+
+    // 4. Assign item spend to groups with a max-flow, then split each group's share among its coupons
+    const realize = (candidate: Candidate) => {
+        const used = candidate.used;
+        const source = 0;
+        const sink = 1 + G + lines.length;
+        const capacity = Array.from({ length: sink + 1 }, () => new Array<number>(sink + 1).fill(0));
+        groups.forEach((g, gi) => {
+            capacity[source][1 + gi] = used[gi];
+            lines.forEach((_, li) => {
+                if (g.eligible[li]) capacity[1 + gi][1 + G + li] = used[gi];
+            });
+        });
+        lines.forEach((l, li) => {
+            capacity[1 + G + li][sink] = l.spend;
+        });
+        const flow = maxFlow(capacity, source, sink);
+
+        // Spend each coupon needs across its uses (and tiers)
+        const needOf = new Map<string, number>();
+        candidate.percentSteps.forEach(s => {
+            const coupon = flat.find(f => f.coupon.id === s.couponId)!.coupon;
+            needOf.set(s.couponId, (needOf.get(s.couponId) ?? 0) + costOf(coupon));
+        });
+        options.forEach((option, i) => {
+            const id = option.coupon.id;
+            if (candidate.counts[i] > 0) needOf.set(id, (needOf.get(id) ?? 0) + candidate.counts[i] * types[i].cost);
+        });
+
+        const allocations: CouponAllocation[] = [];
+        groups.forEach((_, gi) => {
+            const available = lines.map((_, li) => Math.max(0, flow[1 + gi][1 + G + li]));
+            let li = 0;
+            flat.forEach(({ coupon, group }) => {
+                let need = needOf.get(coupon.id) ?? 0;
+                if (group !== gi || need === 0) return;
+
+                const allocation: CouponAllocation = { couponId: coupon.id, items: [] };
+                while (need > 0 && li < lines.length) {
+                    const take = Math.min(need, available[li]);
+                    if (take > 0) {
+                        allocation.items.push({ itemId: lines[li].item.id, amount: take / scale });
+                        available[li] -= take;
+                        need -= take;
+                    }
+                    if (available[li] === 0) li++;
+                }
+                if (allocation.items.length > 0) allocations.push(allocation);
+            });
+        });
+
+        // 5. Checkout order: percentage coupons, then the fixed ones
+        const steps: AppliedStep[] = candidate.percentSteps.map(s => ({ ...s, discount: s.discount / scale, priceAfter: s.priceAfter / scale }));
+        let running = totalScaled - candidate.percentValue;
+        options.forEach((option, i) => {
+            const count = candidate.counts[i];
+            if (count === 0) return;
+            const off = types[i].value * count;
+            running -= off;
+            const step: AppliedStep = { couponId: option.coupon.id, count, discount: off / scale, priceAfter: running / scale };
+            if (option.tier !== undefined) step.tier = option.tier;
+            steps.push(step);
+        });
+
+        return { steps, allocations };
+    };
+
+    const best = ranked[0];
+    const { steps, allocations } = realize(best);
+    const solution = usageFromSteps(steps);
+    const alternatives: Strategy[] | undefined = ranking && ranked.map((candidate, i) => {
+        const realized = i === 0 ? { steps, allocations } : realize(candidate);
+        return {
+            solution: usageFromSteps(realized.steps),
+            steps: realized.steps,
+            allocations: realized.allocations,
+            discount: candidate.value / scale,
+            gap: (best.value - candidate.value) / scale
+        };
+    });
+
+    const totalDiscount = best.value / scale;
+    return {
+        totalOriginal: totalPrice,
+        totalDiscount,
+        finalPrice: totalPrice - totalDiscount,
+        solution,
+        steps,
+        allocations,
+        alternatives,
+        // Compared with the same cart solved without the rules
+        exclusions: check ? explainExclusions(coupons, solution, optimizeCart(withoutStacking(coupons), items, scale).solution, rules) : undefined,
+        discountUpperBound: complete ? undefined : Math.max(upperBound, best.value) / scale,
+        warning: complete
+            ? undefined
+            : "The cart has too many coupon combinations to search exhaustively. Showing the best combination found."
+    };
+}
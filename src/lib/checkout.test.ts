@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import type { AppState, Coupon } from "../types";
+import { checkoutCsv, checkoutJson, checkoutPlan, checkoutText } from "./checkout";
+import { calculateOptimization } from "./optimizer";
+import { emptyState } from "./shareLink";
+
+const coupons: Coupon[] = [
+    { id: "ten", kind: "fixed", threshold: 100, discount: 10, count: 2, label: "Ten, off", expiresOn: "2026-12-31" },
+    { id: "pct", kind: "percent", threshold: 0, percent: 5, count: 1 }
+];
+const state: AppState = { ...emptyState(), currency: "USD", total: 250, coupons };
+const result = calculateOptimization(coupons, 250, { currency: "USD" });
+
+describe("checkout exports", () => {
+    it("lists the steps in checkout order with the price left after each", () => {
+        const plan = checkoutPlan(state, result, 0, "https://example.com/#s");
+        expect(plan.finalPrice).toBe(250 - result.totalDiscount);
+        const lines = plan.orders[0].lines;
+        expect(lines[lines.length - 1].priceAfter).toBe(plan.finalPrice);
+        expect(lines.find(l => l.couponId === "ten")?.expiresOn).toBe("2026-12-31");
+    });
+
+    it("writes a CSV row per line and quotes fields with commas", () => {
+        const csv = checkoutCsv(checkoutPlan(state, result));
+        const rows = csv.trimEnd().split("\r\n");
+        expect(rows[0]).toBe("order,coupon_id,coupon,count,discount,price_after,expires_on");
+        expect(rows).toHaveLength(1 + result.steps!.length);
+        expect(csv).toContain('"Ten, off');
+        expect(csv.endsWith("\r\n")).toBe(true);
+    });
+
+    it("ends the text with the link and the JSON with only the coupons used", () => {
+        const plan = checkoutPlan(state, result, 0, "https://example.com/#s");
+        expect(checkoutText(plan).split("\n").pop()).toBe("https://example.com/#s");
+        const json = JSON.parse(checkoutJson(plan, result, [...coupons, { id: "unused", kind: "fixed", threshold: 999, discount: 1, count: 1 }]));
+        expect(json.coupons.map((c: Coupon) => c.id).sort()).toEqual(["pct", "ten"]);
+    });
+});
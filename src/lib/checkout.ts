@@ -0,0 +1,131 @@
+import type { AppState, CheckoutLine, CheckoutOrder, CheckoutPlan, Coupon, CouponUsage, OptimizationResult } from "../types";
+import { describeUse } from "./coupons";
+import { currencyDigits, formatMoney } from "./currency";
+
+// Bumped when the JSON export changes shape
+export const CHECKOUT_JSON_VERSION = 1;
+
+const CSV_COLUMNS = ["order", "coupon_id", "coupon", "count", "discount", "price_after", "expires_on"];
+
+/**
+ * One strategy of a result (0 is the best; split purchases have only the one) as a plan that
+ * reads without the page: coupon terms and item names are written out.
+ */
+export function checkoutPlan(state: AppState, result: OptimizationResult, strategyIndex = 0, link?: string): CheckoutPlan {
+    const { currency } = state;
+    const line = (usage: CouponUsage, priceAfter?: number): CheckoutLine => {
+        const coupon = state.coupons.find(c => c.id === usage.couponId);
+        const out: CheckoutLine = {
+            couponId: usage.couponId,
+            coupon: coupon ? describeUse(coupon, usage.tier, currency) : usage.couponId,
+            count: usage.count,
+            discount: usage.discount
+        };
+        if (priceAfter !== undefined) out.priceAfter = priceAfter;
+        if (coupon?.expiresOn) out.expiresOn = coupon.expiresOn;
+        return out;
+    };
+
+    let orders: CheckoutOrder[];
+    let discount = result.totalDiscount;
+    if (result.orders) {
+        orders = result.orders.map(order => ({
+            amount: order.amount,
+            items: order.items.map(entry => ({
+                name: state.items.find(i => i.id === entry.itemId)?.name || "Unnamed item",
+                quantity: entry.quantity
+            })),
+            lines: order.coupons.map(usage => line(usage)),
+            discount: order.discount,
+            fee: order.fee,
+            finalPrice: order.finalPrice
+        }));
+    } else {
+        const strategy = result.alternatives?.[strategyIndex];
+        const steps = strategy ? strategy.steps : result.steps;
+        discount = strategy?.discount ?? result.totalDiscount;
+        orders = [{
+            amount: result.totalOriginal,
+            items: [],
+            lines: steps ? steps.map(step => line(step, step.priceAfter)) : result.solution.map(usage => line(usage)),
+            discount,
+            fee: 0,
+            finalPrice: result.totalOriginal - discount
+        }];
+    }
+
+    const extraFees = result.extraFees ?? 0;
+    const plan: CheckoutPlan = {
+        currency,
+        total: result.totalOriginal,
+        discount,
+        extraFees,
+        finalPrice: result.totalOriginal - discount + extraFees,
+        orders
+    };
+    if (result.split) {
+        plan.shares = result.split.shares.map((share, idx) => ({
+            name: state.group.participants.find(p => p.id === share.participantId)?.name || `Person ${idx + 1}`,
+            owes: share.owes
+        }));
+    }
+    if (link) plan.link = link;
+    return plan;
+}
+
+// Summary to paste into a chat
+export function checkoutText(plan: CheckoutPlan): string {
+    const money = (amount: number) => formatMoney(amount, plan.currency);
+    const out = [`Checkout plan: ${money(plan.total)} -> ${money(plan.finalPrice)} (save ${money(plan.total - plan.finalPrice)})`];
+    const split = plan.orders.length > 1;
+    plan.orders.forEach((order, idx) => {
+        const indent = split ? "  " : "";
+        if (split) {
+            out.push("", `Order ${idx + 1}: ${money(order.amount)} -> ${money(order.finalPrice)}`);
+            for (const item of order.items) out.push(`${indent}${item.quantity}x ${item.name}`);
+        }
+        if (order.lines.length === 0) out.push(`${indent}No coupons`);
+        order.lines.forEach((l, n) => {
+            const count = l.count > 1 ? `${l.count}x ` : "";
+            const after = l.priceAfter !== undefined ? `, leaves ${money(l.priceAfter)}` : "";
+            out.push(`${indent}${n + 1}. ${count}${l.coupon}: -${money(l.discount)}${after}`);
+        });
+        if (order.fee > 0) out.push(`${indent}Order fee: +${money(order.fee)}`);
+    });
+    if (plan.shares) {
+        out.push("");
+        for (const share of plan.shares) {
+            out.push(share.owes >= 0 ? `${share.name} pays ${money(share.owes)}` : `${share.name} gets back ${money(-share.owes)}`);
+        }
+    }
+    if (plan.link) out.push("", plan.link);
+    return out.join("\n");
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per coupon line; amounts are plain decimals in the plan's currency
+export function checkoutCsv(plan: CheckoutPlan): string {
+    const amount = (value: number | undefined) => (value === undefined ? undefined : value.toFixed(currencyDigits(plan.currency)));
+    const rows = [CSV_COLUMNS.join(",")];
+    plan.orders.forEach((order, idx) => {
+        for (const l of order.lines) {
+            rows.push([idx + 1, l.couponId, l.coupon, l.count, amount(l.discount), amount(l.priceAfter), l.expiresOn].map(csvField).join(","));
+        }
+    });
+    return `${rows.join("\r\n")}\r\n`;
+}
+
+// The plan with the full result and the coupons it uses, for other tools
+export function checkoutJson(plan: CheckoutPlan, result: OptimizationResult, coupons: Coupon[]): string {
+    const used = new Set(plan.orders.flatMap(order => order.lines.map(l => l.couponId)));
+    return JSON.stringify({
+        version: CHECKOUT_JSON_VERSION,
+        plan,
+        coupons: coupons.filter(c => used.has(c.id)),
+        result
+    }, null, 2);
+}
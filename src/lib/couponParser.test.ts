@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseCouponText } from "./couponParser";
+
+const parseOne = (line: string) => {
+    const { parsed } = parseCouponText(line);
+    expect(parsed).toHaveLength(1);
+    const { coupon, pattern, certain } = parsed[0];
+    return { terms: { ...coupon, id: undefined }, pattern, certain };
+};
+
+describe("parseCouponText", () => {
+    it.each([
+        ["Spend $300 get $50 off", { kind: "fixed", threshold: 300, discount: 50, count: 1 }],
+        ["$15 off orders over $1,200.50", { kind: "fixed", threshold: 1200.5, discount: 15, count: 1 }],
+        ["滿300減50 x3", { kind: "fixed", threshold: 300, discount: 50, count: 3 }],
+        ["滿500享85折", { kind: "percent", threshold: 500, percent: 15, count: 1 }],
+        ["10% off orders over $200, max $30", { kind: "capped-percent", threshold: 200, percent: 10, cap: 30, count: 1 }],
+        ["10% off orders over $200 max $30", { kind: "capped-percent", threshold: 200, percent: 10, cap: 30, count: 1 }],
+        ["10% off orders over $200 (up to $30)", { kind: "capped-percent", threshold: 200, percent: 10, cap: 30, count: 1 }],
+        ["Spend $100, get 20% off, max $15", { kind: "capped-percent", threshold: 100, percent: 20, cap: 15, count: 1 }]
+    ])("reads %s", (line, expected) => {
+        const { terms, certain } = parseOne(line);
+        expect(terms).toEqual(expected);
+        expect(certain).toBe(true);
+    });
+
+    it("marks a row for review when text follows what was read", () => {
+        const { terms, certain } = parseOne("10% off orders over $200, excluding sale items");
+        expect(terms).toEqual({ kind: "percent", threshold: 200, percent: 10, count: 1 });
+        expect(certain).toBe(false);
+    });
+
+    it("reads the dash shorthand but marks it for review", () => {
+        const { terms, pattern, certain } = parseOne("300-50");
+        expect(terms).toEqual({ kind: "fixed", threshold: 300, discount: 50, count: 1 });
+        expect(pattern).toBe("threshold-dash-discount");
+        expect(certain).toBe(false);
+    });
+
+    it.each(["2024-05", "2024/12", "10-20", "50-50"])("does not read %s as a coupon", line => {
+        expect(parseCouponText(line)).toEqual({ parsed: [], unrecognised: [{ lineNumber: 1, text: line }] });
+    });
+
+    it("skips blank lines and keeps line numbers", () => {
+        const { parsed, unrecognised } = parseCouponText("Spend 100 get 10 off\n\nhello");
+        expect(parsed.map(p => p.lineNumber)).toEqual([1]);
+        expect(unrecognised).toEqual([{ lineNumber: 3, text: "hello" }]);
+    });
+});
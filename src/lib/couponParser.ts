@@ -0,0 +1,157 @@
+import type { Coupon } from "../types";
+
+// What a pattern reads from a line; the count comes from a shared "x3" style suffix.
+export type ParsedTerms =
+    | { kind: 'fixed'; threshold: number; discount: number }
+    | { kind: 'percent'; threshold: number; percent: number; cap?: number };
+
+export interface CouponPattern {
+    name: string;
+    // BCP 47 language the phrasing belongs to, for grouping only
+    locale: string;
+    regex: RegExp;
+    read(match: RegExpMatchArray): ParsedTerms | null;
+    // Loose patterns that often misread text mark their rows for review
+    loose?: boolean;
+}
+
+export interface ParsedLine {
+    lineNumber: number;
+    text: string;
+    coupon: Coupon;
+    pattern: string;
+    // False when the row should be checked before it is added
+    certain: boolean;
+}
+
+export interface ParseResult {
+    parsed: ParsedLine[];
+    unrecognised: { lineNumber: number; text: string }[];
+}
+
+// "$1,200.50", "NT$300", "€15", "300元". Commas only group thousands, so "over $200, max $30"
+// leaves the comma (and the cap after it) to the rest of the pattern.
+const AMOUNT = String.raw`(?:[A-Z]{0,3}[$€£¥]\s*)?(\d+(?:,\d{3})*(?:\.\d+)?)(?:\s*(?:元|円|块))?`;
+
+function amount(text: string): number {
+    return parseFloat(text.replace(/,/g, ""));
+}
+
+// Trailing copies: "x3", "×2", "* 4", "3 pcs", "3張"
+const COUNT_SUFFIX = /\s*(?:[(（]?\s*(?:[x×*]\s*(\d+)|(\d+)\s*(?:pcs?|copies|coupons|張|张|枚)))\s*[)）]?\s*$/i;
+
+const patterns: CouponPattern[] = [
+    {
+        name: "spend-get",
+        locale: "en",
+        regex: new RegExp(String.raw`spend\s+${AMOUNT}\s*(?:,|and|&|/|-)?\s*(?:get|save|take)\s+${AMOUNT}\s*off`, "i"),
+        read: m => ({ kind: 'fixed', threshold: amount(m[1]), discount: amount(m[2]) })
+    },
+    {
+        name: "spend-get-percent",
+        locale: "en",
+        regex: new RegExp(String.raw`spend\s+${AMOUNT}\s*(?:,|and|&|/|-)?\s*(?:get|save|take)\s+(\d+(?:\.\d+)?)\s*%\s*off(?:[\s,(]+(?:max|up to)\.?\s*${AMOUNT})?`, "i"),
+        read: m => ({ kind: 'percent', threshold: amount(m[1]), percent: amount(m[2]), cap: m[3] ? amount(m[3]) : undefined })
+    },
+    {
+        name: "off-over",
+        locale: "en",
+        regex: new RegExp(String.raw`${AMOUNT}\s*off\s+(?:(?:your\s+)?orders?\s+)?(?:over|above|of|on|when you spend|min\.?|minimum)?\s*${AMOUNT}\s*\+?`, "i"),
+        read: m => ({ kind: 'fixed', threshold: amount(m[2]), discount: amount(m[1]) })
+    },
+    {
+        name: "percent-off",
+        locale: "en",
+        regex: new RegExp(String.raw`(\d+(?:\.\d+)?)\s*%\s*off(?:\s+(?:(?:your\s+)?orders?\s+)?(?:over|above|of|on)\s+${AMOUNT}\s*\+?)?(?:[\s,(]*(?:max|up to)\.?\s*${AMOUNT})?`, "i"),
+        read: m => ({ kind: 'percent', threshold: m[2] ? amount(m[2]) : 0, percent: amount(m[1]), cap: m[3] ? amount(m[3]) : undefined })
+    },
+    {
+        // 滿300減50 / 满300减50
+        name: "man-jian",
+        locale: "zh",
+        regex: new RegExp(String.raw`[滿满]\s*${AMOUNT}\s*[減减折抵]\s*${AMOUNT}`),
+        read: m => ({ kind: 'fixed', threshold: amount(m[1]), discount: amount(m[2]) })
+    },
+    {
+        // 滿300打9折 (10% off), 滿500享85折 (15% off)
+        name: "man-zhe",
+        locale: "zh",
+        regex: new RegExp(String.raw`[滿满]\s*${AMOUNT}\s*(?:打|享)?\s*(\d{1,2}(?:\.\d+)?)\s*折`),
+        read: m => {
+            const rate = amount(m[2]);
+            const paid = rate < 10 ? rate * 10 : rate;
+            return paid > 0 && paid < 100 ? { kind: 'percent', threshold: amount(m[1]), percent: Math.round((100 - paid) * 100) / 100 } : null;
+        }
+    },
+    {
+        // "300-50", "300/50": common shorthand, but it could also be a range ("10-20") or a
+        // month ("2024-05"), which are not read at all
+        name: "threshold-dash-discount",
+        locale: "und",
+        regex: new RegExp(String.raw`^\s*${AMOUNT}\s*[-/–]\s*${AMOUNT}\s*$`),
+        read: m => {
+            if (/^\s*(?:19|20)\d\d\s*[-/–]\s*(?:0[1-9]|1[0-2])\s*$/.test(m[0])) return null;
+            const terms: ParsedTerms = { kind: 'fixed', threshold: amount(m[1]), discount: amount(m[2]) };
+            return plausible(terms) ? terms : null;
+        },
+        loose: true
+    }
+];
+
+// Adds phrasings for another language or shop. Later patterns are tried after the built-in ones.
+export function registerCouponPattern(pattern: CouponPattern) {
+    patterns.push(pattern);
+}
+
+// Closing brackets, full stops and exclamation marks don't count as unread text
+const TRAILING_PUNCTUATION = /^[\s.!)。！）]*$/;
+
+// Amounts that can't be right for a real coupon
+function plausible(terms: ParsedTerms): boolean {
+    if (terms.kind === 'fixed') return terms.threshold > 0 && terms.discount > 0 && terms.discount < terms.threshold;
+    return terms.threshold >= 0 && terms.percent > 0 && terms.percent < 100 && (terms.cap === undefined || terms.cap > 0);
+}
+
+function toCoupon(terms: ParsedTerms, count: number, id: string): Coupon {
+    const base = { id, threshold: terms.threshold, count };
+    if (terms.kind === 'fixed') return { ...base, kind: 'fixed', discount: terms.discount };
+    if (terms.cap !== undefined) return { ...base, kind: 'capped-percent', percent: terms.percent, cap: terms.cap };
+    return { ...base, kind: 'percent', percent: terms.percent };
+}
+
+/**
+ * Reads one coupon per line of pasted promotional text. Lines no pattern understands are
+ * returned as unrecognised; blank lines are skipped.
+ */
+export function parseCouponText(text: string): ParseResult {
+    const result: ParseResult = { parsed: [], unrecognised: [] };
+    const stamp = Date.now();
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (line === "") return;
+
+        const countMatch = line.match(COUNT_SUFFIX);
+        const count = countMatch ? parseInt(countMatch[1] ?? countMatch[2], 10) : 1;
+        const body = countMatch ? line.slice(0, countMatch.index) : line;
+
+        for (const pattern of patterns) {
+            const match = body.match(pattern.regex);
+            const terms = match && pattern.read(match);
+            if (!terms) continue;
+            // Text after the match may be terms the pattern doesn't know about
+            const rest = body.slice((match.index ?? 0) + match[0].length);
+            result.parsed.push({
+                lineNumber: index + 1,
+                text: line,
+                coupon: toCoupon(terms, count > 0 ? count : 1, `c-${stamp}-${index}`),
+                pattern: pattern.name,
+                certain: !pattern.loose && plausible(terms) && count > 0 && TRAILING_PUNCTUATION.test(rest)
+            });
+            return;
+        }
+        result.unrecognised.push({ lineNumber: index + 1, text: line });
+    });
+
+    return result;
+}
@@ -0,0 +1,155 @@
+import type { CappedPercentCoupon, Coupon, CouponKind, CouponTier, FixedCoupon, PercentCoupon, TieredCoupon } from "../types";
+import { DEFAULT_CURRENCY, formatMoney, roundHalfUp, toUnits } from "./currency";
+
+export type PercentageCoupon = PercentCoupon | CappedPercentCoupon;
+
+// One way to use a fixed-amount coupon: a fixed coupon has one, a tiered coupon one per tier.
+// The options of a tiered coupon share its copies.
+export interface FixedOption {
+    coupon: FixedCoupon | TieredCoupon;
+    tier?: number;
+    threshold: number;
+    discount: number;
+}
+
+export const COUPON_KIND_LABELS: Record<CouponKind, string> = {
+    'fixed': "Fixed amount",
+    'percent': "Percentage",
+    'capped-percent': "Percentage (capped)",
+    'tiered': "Tiered"
+};
+
+export function isFixed(c: Coupon): c is FixedCoupon {
+    return c.kind === 'fixed';
+}
+
+export function isPercentage(c: Coupon): c is PercentageCoupon {
+    return c.kind === 'percent' || c.kind === 'capped-percent';
+}
+
+export function isTiered(c: Coupon): c is TieredCoupon {
+    return c.kind === 'tiered';
+}
+
+function isUsableTier(t: CouponTier): boolean {
+    return t.threshold > 0 && t.discount > 0;
+}
+
+// Lowest threshold of the usable tiers, kept in `threshold`
+export function lowestTier(tiers: CouponTier[]): number {
+    const usable = tiers.filter(isUsableTier);
+    return usable.length > 0 ? Math.min(...usable.map(t => t.threshold)) : 0;
+}
+
+// Coupons that can take part in an optimization at all
+export function isUsable(c: Coupon): boolean {
+    if (!(c.count > 0)) return false;
+    if (isFixed(c)) return c.threshold > 0 && c.discount > 0;
+    if (isTiered(c)) return c.tiers.some(isUsableTier);
+    if (!(c.threshold >= 0 && c.percent > 0 && c.percent <= 100)) return false;
+    return c.kind === 'percent' || c.cap > 0;
+}
+
+// Discount (in scaled integer units) of one use applied to `priceScaled`
+export function percentOff(c: PercentageCoupon, priceScaled: number, scale: number): number {
+    let off = roundHalfUp(priceScaled * c.percent / 100);
+    if (c.kind === 'capped-percent') {
+        off = Math.min(off, toUnits(c.cap, scale));
+    }
+    return Math.min(off, priceScaled);
+}
+
+// What one use is worth at least, for telling big coupons from small ones
+export function faceValue(c: Coupon): number {
+    switch (c.kind) {
+        case 'fixed':
+            return c.discount;
+        case 'percent':
+            return (c.threshold * c.percent) / 100;
+        case 'capped-percent':
+            return Math.min(c.cap, (c.threshold * c.percent) / 100);
+        case 'tiered':
+            return Math.min(...c.tiers.filter(isUsableTier).map(t => t.discount), Infinity);
+    }
+}
+
+// Usable fixed coupons and the usable tiers of tiered coupons
+export function fixedOptions(coupons: Coupon[]): FixedOption[] {
+    const out: FixedOption[] = [];
+    for (const c of coupons) {
+        if (!isUsable(c)) continue;
+        if (isFixed(c)) {
+            out.push({ coupon: c, threshold: c.threshold, discount: c.discount });
+        } else if (isTiered(c)) {
+            c.tiers.forEach((t, tier) => {
+                if (isUsableTier(t)) out.push({ coupon: c, tier, threshold: t.threshold, discount: t.discount });
+            });
+        }
+    }
+    return out;
+}
+
+// No coupon is used more often than it has copies, whichever tiers the uses take
+export function withinCopies(options: FixedOption[], counts: number[]): boolean {
+    const used = new Map<string, number>();
+    for (let i = 0; i < options.length; i++) {
+        if (counts[i] === 0 || options[i].tier === undefined) continue;
+        const { id, count } = options[i].coupon;
+        const total = (used.get(id) ?? 0) + counts[i];
+        if (total > count) return false;
+        used.set(id, total);
+    }
+    return true;
+}
+
+export function describeCoupon(c: Coupon, currency: string = DEFAULT_CURRENCY): string {
+    return withLabel(c, describeTerms(c, currency));
+}
+
+function withLabel(c: Coupon, terms: string): string {
+    return c.label ? `${c.label}: ${terms}` : terms;
+}
+
+function describeTerms(c: Coupon, currency: string): string {
+    const money = (amount: number) => formatMoney(amount, currency);
+    switch (c.kind) {
+        case 'fixed':
+            return `Spend ${money(c.threshold)} / Get ${money(c.discount)} Off`;
+        case 'percent':
+            return c.threshold > 0 ? `Spend ${money(c.threshold)} / Get ${c.percent}% Off` : `${c.percent}% Off`;
+        case 'capped-percent':
+            return `${c.threshold > 0 ? `Spend ${money(c.threshold)} / ` : ''}Get ${c.percent}% Off (max ${money(c.cap)})`;
+        case 'tiered':
+            return `Tiered: ${c.tiers.map(t => `Spend ${money(t.threshold)} / Get ${money(t.discount)} Off`).join(", ")}`;
+    }
+}
+
+// A use of the coupon, naming the tier it took
+export function describeUse(c: Coupon, tier: number | undefined, currency: string = DEFAULT_CURRENCY): string {
+    const tiers = isTiered(c) ? c.tiers : [];
+    const t = tier !== undefined ? tiers[tier] : undefined;
+    if (!t) return describeCoupon(c, currency);
+    return withLabel(c, `Spend ${formatMoney(t.threshold, currency)} / Get ${formatMoney(t.discount, currency)} Off (tier ${tier! + 1} of ${tiers.length})`);
+}
+
+// Switch a coupon to another kind, keeping the fields the kinds share
+export function convertCoupon(c: Coupon, kind: CouponKind): Coupon {
+    const { id, label, threshold, count, scope, expiresOn, stackGroup, nonStackable, ownerId } = c;
+    const base = { id, label, threshold, count, scope, expiresOn, stackGroup, nonStackable, ownerId };
+    const percent = isPercentage(c) ? c.percent : 10;
+    switch (kind) {
+        case 'fixed':
+            return isTiered(c) && c.tiers.length > 0
+                ? { ...base, kind, threshold: c.tiers[0].threshold, discount: c.tiers[0].discount }
+                : { ...base, kind, discount: isFixed(c) ? c.discount : 10 };
+        case 'percent':
+            return { ...base, kind, percent };
+        case 'capped-percent':
+            return { ...base, kind, percent, cap: c.kind === 'capped-percent' ? c.cap : 10 };
+        case 'tiered': {
+            const first = { threshold: threshold > 0 ? threshold : 100, discount: isFixed(c) ? c.discount : 10 };
+            const tiers = [first, { threshold: first.threshold * 2, discount: first.discount * 2.5 }];
+            return { ...base, kind, threshold: lowestTier(tiers), tiers };
+        }
+    }
+}
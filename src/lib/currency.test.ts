@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { currencyDigits, currencyScale, inputStep, isKnownCurrency, toUnits } from "./currency";
+import { calculateOptimization } from "./optimizer";
+
+describe("currency precision", () => {
+    it.each([["JPY", 0, "1"], ["USD", 2, "0.01"], ["KWD", 3, "0.001"]])("solves %s in its minor unit", (currency, digits, step) => {
+        expect(currencyDigits(currency)).toBe(digits);
+        expect(currencyScale(currency)).toBe(10 ** digits);
+        expect(inputStep(currency)).toBe(step);
+    });
+
+    it("rounds half up despite float noise", () => {
+        expect(toUnits(1.005, 100)).toBe(101);
+        expect(toUnits(0.125, 100)).toBe(13);
+        expect(toUnits(12.5, 1)).toBe(13);
+    });
+
+    it("tells codes Intl knows from made-up ones", () => {
+        expect(isKnownCurrency("eur")).toBe(true);
+        expect(isKnownCurrency("EURO")).toBe(false);
+    });
+
+    it("rounds percentages to the currency's minor unit", () => {
+        const coupons: Coupon[] = [{ id: "pct", kind: "percent", threshold: 0, percent: 15, count: 1 }];
+        // 15% of 333 is 49.95: whole yen round up, cents stay exact
+        expect(calculateOptimization(coupons, 333, { currency: "JPY" }).totalDiscount).toBe(50);
+        expect(calculateOptimization(coupons, 333, { currency: "USD" }).totalDiscount).toBe(49.95);
+        expect(calculateOptimization(coupons, 3.333, { currency: "KWD" }).totalDiscount).toBe(0.5);
+    });
+});
@@ -0,0 +1,70 @@
+// Amounts are entered as decimals but solved as integers of the currency's minor unit
+// (cents, yen, fils). Both directions round the same way, so the UI shows what the solver used.
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Offered in the currency picker; any ISO 4217 code works
+export const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "JPY", "KRW", "CNY", "TWD", "HKD", "SGD", "AUD", "CAD", "INR", "KWD", "BHD"];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatter(currency: string): Intl.NumberFormat {
+    let f = formatters.get(currency);
+    if (!f) {
+        try {
+            f = new Intl.NumberFormat(undefined, { style: "currency", currency });
+        } catch {
+            // Unknown code: format like the default currency
+            f = new Intl.NumberFormat(undefined, { style: "currency", currency: DEFAULT_CURRENCY });
+        }
+        formatters.set(currency, f);
+    }
+    return f;
+}
+
+export function isKnownCurrency(currency: string): boolean {
+    try {
+        new Intl.NumberFormat(undefined, { style: "currency", currency });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Digits after the decimal point: 0 for JPY and KRW, 2 for USD, 3 for KWD and BHD
+export function currencyDigits(currency: string = DEFAULT_CURRENCY): number {
+    return formatter(currency).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Integer units per whole currency unit
+export function currencyScale(currency: string = DEFAULT_CURRENCY): number {
+    return 10 ** currencyDigits(currency);
+}
+
+// Step for amount inputs, e.g. "0.01" or "1"
+export function inputStep(currency: string = DEFAULT_CURRENCY): string {
+    const digits = currencyDigits(currency);
+    return digits === 0 ? "1" : (1 / 10 ** digits).toFixed(digits);
+}
+
+/**
+ * Rounds half up (towards +∞). The value is first cut to 15 significant digits so float
+ * noise like 1.005 * 100 = 100.49999999999999 still rounds up.
+ */
+export function roundHalfUp(value: number): number {
+    return Math.round(Number(value.toPrecision(15)));
+}
+
+// Decimal amount -> integer minor units
+export function toUnits(amount: number, scale: number): number {
+    return roundHalfUp(amount * scale);
+}
+
+// Intl rounds half away from zero, which matches roundHalfUp for the non-negative amounts shown here
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    return formatter(currency).format(amount);
+}
+
+export function currencySymbol(currency: string = DEFAULT_CURRENCY): string {
+    return formatter(currency).formatToParts(0).find(p => p.type === "currency")?.value ?? currency;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { savingsCurve } from "./curve";
+import { calculateOptimization, createBasketSolver } from "./optimizer";
+
+const coupons: Coupon[] = [
+    { id: "a", kind: "fixed", threshold: 100, discount: 20, count: 1 },
+    { id: "b", kind: "fixed", threshold: 50, discount: 5, count: 1 }
+];
+
+const segments = (curve: ReturnType<typeof savingsCurve> | undefined) =>
+    curve?.segments.map(s => [s.from, s.to, s.discountFrom, s.discountTo]);
+
+describe("savingsCurve", () => {
+    it("breaks where a new combination kicks in, with the plan at each start", () => {
+        const curve = calculateOptimization(coupons, 200, { curve: true }).savingsCurve;
+        expect(segments(curve)).toEqual([
+            [0, 49.99, 0, 0],
+            [50, 99.99, 5, 5],
+            [100, 149.99, 20, 20],
+            [150, 200, 25, 25]
+        ]);
+        expect(curve?.segments[3].solution.map(u => u.couponId)).toEqual(["a", "b"]);
+        expect(curve?.sampled).toBeUndefined();
+    });
+
+    it("marks totals where spending up to the next breakpoint pays for itself", () => {
+        const curve = calculateOptimization(coupons, 200, { curve: true }).savingsCurve;
+        expect(curve?.deadZones).toEqual([
+            { from: 0, to: 45 },
+            { from: 50, to: 85 },
+            { from: 100, to: 145 },
+            { from: 150, to: 200 }
+        ]);
+    });
+
+    it("lets a percentage grow across its segment and runs to the end of the top-up range", () => {
+        const percent: Coupon[] = [{ id: "p", kind: "percent", threshold: 100, percent: 10, count: 1 }];
+        const curve = calculateOptimization(percent, 150, { curve: true, topUpLimit: 50 }).savingsCurve;
+        expect(segments(curve)).toEqual([[0, 99.99, 0, 0], [100, 200, 10, 20]]);
+        expect(curve?.deadZones).toEqual([{ from: 0, to: 90 }]);
+    });
+
+    it("follows the stacking rules at every point", () => {
+        const grouped = coupons.map(c => ({ ...c, stackGroup: "g" }));
+        const curve = calculateOptimization(grouped, 200, { curve: true, rules: { groupLimits: { g: 1 } } }).savingsCurve;
+        expect(segments(curve)?.at(-1)).toEqual([150, 200, 20, 20]);
+        expect(curve?.deadZones.at(-1)).toEqual({ from: 100, to: 200 });
+    });
+
+    it("thins the breakpoints evenly past the segment limit", () => {
+        const many: Coupon[] = Array.from({ length: 10 }, (_, i) => ({ id: `c${i}`, kind: "fixed", threshold: 10 * (i + 1), discount: 1, count: 1 }));
+        const curve = savingsCurve(createBasketSolver(many, 10000, 100), 10000, 100, 3);
+        expect(curve?.sampled).toBe(true);
+        expect(curve?.segments).toHaveLength(3);
+        expect(curve?.segments[0].from).toBe(0);
+        expect(curve?.segments.at(-1)?.to).toBe(100);
+    });
+
+    it("is left out unless asked for", () => {
+        expect(calculateOptimization(coupons, 200).savingsCurve).toBeUndefined();
+    });
+});
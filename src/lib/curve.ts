@@ -0,0 +1,63 @@
+import type { SavingsCurve, SavingsSegment } from "../types";
+import type { BasketSolver } from "./optimizer";
+import { usageFromSteps } from "./sequence";
+
+// Segments solved at most by default; beyond this the breakpoints are thinned evenly
+const MAX_SEGMENTS = 200;
+
+/**
+ * Best discount for every cart total in [0, upTo] (scaled), read from a solver built for at least
+ * `upTo`. The discount never drops as the total grows, so a segment whose ends save the same is
+ * flat throughout. Null when the solver has no table to take breakpoints from.
+ */
+export function savingsCurve(solver: BasketSolver, upTo: number, scale: number, maxSegments = MAX_SEGMENTS): SavingsCurve | null {
+    const breakpoints = solver.breakpoints(0, upTo);
+    if (!breakpoints) return null;
+
+    let starts = [0, ...breakpoints.filter(w => w > 0 && w <= upTo)];
+    const sampled = starts.length > maxSegments;
+    if (sampled) {
+        const step = starts.length / maxSegments;
+        starts = Array.from({ length: maxSegments }, (_, i) => starts[Math.floor(i * step)]);
+    }
+
+    const segments: SavingsSegment[] = starts.map((from, i) => {
+        // One scaled unit before the next segment
+        const to = i + 1 < starts.length ? starts[i + 1] - 1 : upTo;
+        const first = solver.solve(from);
+        const last = to > from ? solver.solve(to).value : first.value;
+        return {
+            from: from / scale,
+            to: to / scale,
+            discountFrom: first.value / scale,
+            discountTo: last / scale,
+            solution: usageFromSteps(first.steps)
+        };
+    });
+
+    return { segments, deadZones: deadZones(segments, 1 / scale), sampled: sampled || undefined };
+}
+
+/**
+ * Totals where no larger total in range ends up cheaper: the discount is flat there and no later
+ * jump pays for the extra spend. `unit` is the smallest amount step.
+ */
+function deadZones(segments: SavingsSegment[], unit: number): { from: number; to: number }[] {
+    const zones: { from: number; to: number }[] = [];
+    // Lowest final price at the start of any later segment
+    let cheapestLater = Infinity;
+    for (let i = segments.length - 1; i >= 0; i--) {
+        const s = segments[i];
+        if (s.discountTo === s.discountFrom) {
+            // Final price here is total - discount; dead while it's no higher than cheapestLater
+            const end = Math.min(s.to, cheapestLater + s.discountFrom);
+            if (end >= s.from) {
+                const next = zones[0];
+                if (next && end === s.to && next.from - s.to <= unit + 1e-9) next.from = s.from;
+                else zones.unshift({ from: s.from, to: end });
+            }
+        }
+        cheapestLater = Math.min(cheapestLater, s.from - s.discountFrom);
+    }
+    return zones;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { COALESCE_MS, createHistory, current, navigate, recordEdit, redo, restart, undo, type EditHistory } from "./editHistory";
+
+// Edits far enough apart to be steps of their own
+const edits = (...states: number[]): EditHistory<number> =>
+    states.reduce((h, state, i) => recordEdit(h, state, (i + 1) * 10 * COALESCE_MS).history, createHistory(0, "s"));
+
+describe("recordEdit", () => {
+    it("adds a step per edit, each with its own id", () => {
+        const h = edits(1, 2);
+        expect(h.entries.map(e => [e.id, e.state])).toEqual([["s-0", 0], ["s-1", 1], ["s-2", 2]]);
+        expect(h.index).toBe(2);
+    });
+
+    it("coalesces rapid typing into the current step", () => {
+        const first = recordEdit(createHistory(0, "s"), 1, 5000);
+        expect(first.action).toBe('push');
+        const second = recordEdit(first.history, 12, 5000 + COALESCE_MS - 1);
+        expect(second.action).toBe('replace');
+        expect(second.history.entries.map(e => e.state)).toEqual([0, 12]);
+        // The pause is measured from the latest keystroke
+        expect(recordEdit(second.history, 123, 5000 + 2 * COALESCE_MS - 2).action).toBe('replace');
+        expect(recordEdit(second.history, 123, 5000 + 2 * COALESCE_MS).action).toBe('push');
+    });
+
+    it("drops the redo steps when editing after an undo", () => {
+        const h = recordEdit(undo(edits(1, 2))!, 3, 100 * COALESCE_MS).history;
+        expect(h.entries.map(e => e.state)).toEqual([0, 1, 3]);
+        expect(redo(h)).toBeNull();
+    });
+});
+
+describe("undo and redo", () => {
+    it("walk the steps and stop at either end", () => {
+        const h = edits(1, 2);
+        const back = undo(undo(h)!)!;
+        expect(current(back).state).toBe(0);
+        expect(undo(back)).toBeNull();
+        expect(current(redo(back)!).state).toBe(1);
+    });
+
+    it("make the next edit a step of its own", () => {
+        const first = recordEdit(createHistory(0, "s"), 1, 5000).history;
+        const h = redo(undo(first)!)!;
+        expect(recordEdit(h, 2, 5001).action).toBe('push');
+    });
+});
+
+describe("navigate", () => {
+    it("follows the browser to one of this page load's entries", () => {
+        const h = edits(1, 2);
+        const moved = navigate(h, "s-1");
+        expect(moved).toEqual(undo(h));
+    });
+
+    it("returns null for entries from before a reload, which start a new list", () => {
+        const h = edits(1, 2);
+        expect(navigate(h, "old-3")).toBeNull();
+        expect(navigate(h, undefined)).toBeNull();
+        const fresh = restart(h, 7);
+        expect(fresh.entries).toEqual([{ id: "s-3", state: 7 }]);
+        expect(undo(fresh)).toBeNull();
+    });
+});
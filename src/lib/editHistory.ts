@@ -0,0 +1,67 @@
+// Undo/redo over the page's edits, one browser history entry per step. Pure: the caller pushes or
+// replaces the browser entry as told, and navigates to it when the browser moves.
+
+// Edits closer together than this (e.g. typing a number) are a single undo step
+export const COALESCE_MS = 1000;
+
+export interface HistoryEntry<T> {
+    // Stored in `history.state` to find the entry again
+    id: string;
+    state: T;
+}
+
+export interface EditHistory<T> {
+    // Oldest first; `index` is the one shown
+    entries: HistoryEntry<T>[];
+    index: number;
+    // Prefix of this page load's ids; older browser entries only have their URL
+    session: string;
+    nextId: number;
+    // Time of the last edit, or 0 when the next edit must start a step of its own
+    lastEdit: number;
+}
+
+export function createHistory<T>(state: T, session: string): EditHistory<T> {
+    return { entries: [{ id: `${session}-0`, state }], index: 0, session, nextId: 1, lastEdit: 0 };
+}
+
+export function current<T>(h: EditHistory<T>): HistoryEntry<T> {
+    return h.entries[h.index];
+}
+
+/**
+ * Records an edit made at `now` (ms). Within COALESCE_MS of the last one it rewrites the current
+ * step ('replace'); otherwise it drops any redo steps and adds one ('push').
+ */
+export function recordEdit<T>(h: EditHistory<T>, state: T, now: number): { history: EditHistory<T>; action: 'push' | 'replace' } {
+    if (h.lastEdit > 0 && now - h.lastEdit < COALESCE_MS) {
+        const entries = h.entries.map((e, i) => (i === h.index ? { ...e, state } : e));
+        return { history: { ...h, entries, lastEdit: now }, action: 'replace' };
+    }
+    const entry = { id: `${h.session}-${h.nextId}`, state };
+    const entries = [...h.entries.slice(0, h.index + 1), entry];
+    return { history: { ...h, entries, index: entries.length - 1, nextId: h.nextId + 1, lastEdit: now }, action: 'push' };
+}
+
+/**
+ * The browser moved to the entry with `id`. Null when it isn't one of ours (an entry from before
+ * a reload); see `restart`. The next edit starts a new step instead of rewriting this one.
+ */
+export function navigate<T>(h: EditHistory<T>, id: string | undefined): EditHistory<T> | null {
+    const index = h.entries.findIndex(e => e.id === id);
+    return index >= 0 ? { ...h, index, lastEdit: 0 } : null;
+}
+
+// A new list from a state read from an unknown entry's URL
+export function restart<T>(h: EditHistory<T>, state: T): EditHistory<T> {
+    return { ...h, entries: [{ id: `${h.session}-${h.nextId}`, state }], index: 0, nextId: h.nextId + 1, lastEdit: 0 };
+}
+
+// The step before or after, or null at either end
+export function undo<T>(h: EditHistory<T>): EditHistory<T> | null {
+    return h.index > 0 ? { ...h, index: h.index - 1, lastEdit: 0 } : null;
+}
+
+export function redo<T>(h: EditHistory<T>): EditHistory<T> | null {
+    return h.index < h.entries.length - 1 ? { ...h, index: h.index + 1, lastEdit: 0 } : null;
+}
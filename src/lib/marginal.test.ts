@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { couponValues } from "./marginal";
+import { calculateOptimization } from "./optimizer";
+
+const coupons: Coupon[] = [
+    { id: "a", kind: "fixed", threshold: 100, discount: 20, count: 2 },
+    { id: "b", kind: "fixed", threshold: 100, discount: 5, count: 1 },
+    { id: "far", kind: "fixed", threshold: 500, discount: 100, count: 1 }
+];
+
+const values = (total: number) => calculateOptimization(coupons, total, { couponValues: true }).couponValues;
+
+describe("couponValues", () => {
+    it("reports the savings lost without one copy or every copy, and gained from one more", () => {
+        expect(values(350)?.slice(0, 2)).toEqual([
+            { couponId: "a", dropOne: 20, dropAll: 40, gainOne: 15 },
+            { couponId: "b", dropOne: 5, dropAll: 5, gainOne: 0 }
+        ]);
+    });
+
+    it("flags coupons the best plan can do without and ones the cart can't reach", () => {
+        expect(values(250)?.map(v => [v.couponId, v.dropAll, v.flag])).toEqual([
+            ["a", 35, undefined],
+            ["b", 0, 'dominated'],
+            ["far", 0, 'out-of-reach']
+        ]);
+    });
+
+    it("leaves out coupons the input checks ignored", () => {
+        const broken: Coupon = { id: "broken", kind: "fixed", threshold: NaN, discount: 10, count: 1 };
+        const result = calculateOptimization([...coupons, broken], 250, { couponValues: true });
+        expect(result.couponValues?.map(v => v.couponId)).toEqual(["a", "b", "far"]);
+        expect(result.ignored?.map(i => i.id)).toEqual(["broken"]);
+    });
+
+    it("doesn't re-solve for a copy the plan leaves unused", () => {
+        const spare: Coupon = { id: "spare", kind: "fixed", threshold: 100, discount: 20, count: 3 };
+        const base = calculateOptimization([spare], 250);
+        const solved: number[] = [];
+        const [value] = couponValues([spare], base, 100, variant => {
+            solved.push(variant.length === 0 ? 0 : variant[0].count);
+            return calculateOptimization(variant, 250).totalDiscount;
+        });
+        expect(value).toEqual({ couponId: "spare", dropOne: 0, dropAll: 40, gainOne: 0 });
+        expect(solved).toEqual([0, 4]);
+    });
+
+    it("flags coupons that can never take anything off", () => {
+        const unusable: Coupon = { id: "zero", kind: "percent", threshold: 0, percent: 0, count: 1 };
+        const [value] = couponValues([unusable], calculateOptimization([], 100), 100, () => 0);
+        expect(value.flag).toBe('unusable');
+    });
+});
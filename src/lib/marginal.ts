@@ -0,0 +1,45 @@
+import type { Coupon, CouponUsage, CouponValue, OptimizationResult } from "../types";
+import { isUsable } from "./coupons";
+import { toUnits } from "./currency";
+
+// Savings after coupons and any extra order fees
+export function netSavings(result: OptimizationResult): number {
+    return result.totalDiscount - (result.extraFees ?? 0);
+}
+
+/**
+ * Each coupon's marginal value to a cart already solved as `base`. `solve` returns the net savings
+ * for the same cart with a different coupon list. A copy the base plan leaves unused can be removed
+ * for free, so the cart is only re-solved where the answer could change.
+ */
+export function couponValues(
+    coupons: Coupon[],
+    base: OptimizationResult,
+    scale: number,
+    solve: (coupons: Coupon[]) => number
+): CouponValue[] {
+    const savings = toUnits(netSavings(base), scale);
+    // Clamped at zero: a search cut short may find a little less than the true best
+    const lost = (variant: Coupon[]) => Math.max(0, savings - toUnits(solve(variant), scale)) / scale;
+    const gained = (variant: Coupon[]) => Math.max(0, toUnits(solve(variant), scale) - savings) / scale;
+    const used = (solution: CouponUsage[], id: string) =>
+        solution.filter(u => u.couponId === id).reduce((sum, u) => sum + u.count, 0);
+    const replaced = (idx: number, coupon: Coupon | null) =>
+        coupon ? coupons.map((c, i) => (i === idx ? coupon : c)) : coupons.filter((_, i) => i !== idx);
+
+    return coupons.map((c, idx) => {
+        const value: CouponValue = { couponId: c.id, dropOne: 0, dropAll: 0, gainOne: 0 };
+        if (!isUsable(c)) return { ...value, flag: 'unusable' };
+        if (toUnits(c.threshold, scale) > toUnits(base.totalOriginal, scale)) return { ...value, flag: 'out-of-reach' };
+
+        const copies = Math.floor(c.count);
+        const inPlan = used(base.solution, c.id);
+        if (inPlan > 0) {
+            value.dropAll = lost(replaced(idx, null));
+            value.dropOne = copies > inPlan ? 0 : copies > 1 ? lost(replaced(idx, { ...c, count: copies - 1 })) : value.dropAll;
+        }
+        value.gainOne = gained(replaced(idx, { ...c, count: copies + 1 }));
+        if (inPlan === 0 && value.gainOne === 0) value.flag = 'dominated';
+        return value;
+    });
+}
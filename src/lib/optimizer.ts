@@ -1,200 +1,637 @@
-import type { Coupon, OptimizationResult, CouponUsage } from "../types";
+import type { Coupon, IgnoredInput, OptimizationResult, OptimizationOptions, StackingRules, Strategy } from "../types";
+import { compareUsage, rankCandidates, type UsageCounts } from "./alternatives";
+import { cartTotal, isScoped, optimizeCart } from "./cart";
+import { currencyScale, toUnits } from "./currency";
+import { planOrders } from "./orders";
+import { isValidOn, planPurchases, todayIso } from "./planner";
+import { fixedOptions, isPercentage, isUsable, withinCopies, type FixedOption, type PercentageCoupon } from "./coupons";
+import { searchCouponCounts } from "./branchAndBound";
+import { bestSequence, percentBound, percentSearch, usageFromSteps, type FixedStep, type SequenceResult } from "./sequence";
+import { createStackingCheck, explainExclusions, hasStackingRules, withoutStacking } from "./stacking";
+import { findTopUps } from "./topUp";
+import { unverified, verifyBasket } from "./verify";
+import { savingsCurve } from "./curve";
+import { couponValues, netSavings } from "./marginal";
+import { splitBill } from "./split";
+import { planSequential } from "./sequential";
+import { screenInputs } from "./validation";
 
 // Maximum array size safety limit (approx 20MB for Int32Array)
 const MAX_SLOTS = 5_000_000;
 
+// Savings curve points under stacking rules, each a separate search
+const CURVE_SEGMENTS_WITH_RULES = 40;
+
 function gcd(a: number, b: number): number {
     return b === 0 ? a : gcd(b, a % b);
 }
 
-export function calculateOptimization(
-    coupons: Coupon[],
-    totalPrice: number
-): OptimizationResult {
-    if (!coupons || coupons.length === 0 || totalPrice <= 0) {
-        return {
-            totalOriginal: totalPrice,
-            totalDiscount: 0,
-            finalPrice: totalPrice,
-            solution: []
-        };
-    }
+export interface FixedPlan {
+    // Scaled discount
+    value: number;
+    // Uses per option, aligned with the options the solver was built for
+    counts: number[];
+    // No plan at this capacity is worth more. Equals value unless the search was cut short.
+    upperBound: number;
+}
 
-    // 1. Setup & Filtering
-    const scale = 100;
-    const W_limit = Math.round(totalPrice * scale);
-    const validCoupons: Coupon[] = [];
-    let totalPossibleCost = 0;
+export interface FixedSolver {
+    // Best fixed-coupon plan whose thresholds fit into `capacity` scaled units (capacity <= W_limit).
+    solve(capacity: number): FixedPlan;
+    // Capacities in (from, to] at which the best fixed discount increases.
+    // Null when the DP table would not fit into memory.
+    breakpoints(from: number, to: number): number[] | null;
+}
 
-    for (const c of coupons) {
-        if (c.count > 0 && c.threshold > 0 && c.discount > 0) {
-            const cost = Math.round(c.threshold * scale);
-            // Optimization 1: Ignore impossible coupons
-            if (cost <= W_limit) {
-                validCoupons.push(c);
-                totalPossibleCost += cost * c.count;
-            }
+interface FixedTable {
+    W: number;
+    commonFactor: number;
+    dp: Int32Array;
+    // Decision bits, one per (item, capacity)
+    keep: Uint8Array;
+    items: { cost: number; val: number; option: number; realCount: number }[];
+    // One pass per copy of a tiered coupon; picked[w] is 1 + the position in `options` of the
+    // tier taken at capacity w, or 0
+    choices: { options: number[]; picked: Uint8Array }[];
+}
+
+/**
+ * 0/1 knapsack over the fixed coupons (binary decomposition of the counts), solved once for
+ * capacity W_limit and queryable for any smaller capacity. The table is only built when a
+ * query actually needs it. Totals too large for the table fall back to branch and bound.
+ * Every copy of a tiered coupon is a group of its own in which at most one tier is taken.
+ */
+export function createFixedSolver(
+    options: FixedOption[],
+    W_limit: number,
+    scale: number,
+    onProgress?: (fraction: number) => void
+): FixedSolver {
+    const costs = options.map(o => toUnits(o.threshold, scale));
+    const values = options.map(o => toUnits(o.discount, scale));
+
+    // With room for everything, every copy takes its most valuable option (the cheapest of equals)
+    const favourite = new Map<FixedOption["coupon"], number>();
+    options.forEach((o, i) => {
+        const current = favourite.get(o.coupon);
+        if (current === undefined || values[i] > values[current] || (values[i] === values[current] && costs[i] < costs[current])) {
+            favourite.set(o.coupon, i);
         }
+    });
+    let totalPossibleCost = 0;
+    for (const [coupon, i] of favourite) {
+        totalPossibleCost += costs[i] * coupon.count;
     }
 
-    // 2. Trivial Case
+    // Trivial Case
     // If we can afford all available valid coupons, simply take them all.
     // This effectively handles the case where W is huge (clamping logic).
-    if (totalPossibleCost <= W_limit) {
-        let totalDiscountScaled = 0;
-        const solution: CouponUsage[] = [];
+    const takeAll = (): FixedPlan => {
+        let value = 0;
+        const counts = options.map(() => 0);
+        for (const [coupon, i] of favourite) {
+            value += values[i] * coupon.count;
+            counts[i] = coupon.count;
+        }
+        return { value, counts, upperBound: value };
+    };
 
-        for (const c of validCoupons) {
-            totalDiscountScaled += Math.round(c.discount * scale) * c.count;
-            solution.push({ couponId: c.id, count: c.count });
+    // Without a table: search coupon counts directly. Exact unless the node limit is hit.
+    const searchTypes = options.map((o, i) => ({ cost: costs[i], value: values[i], maxCount: o.coupon.count }));
+    const tiered = options.some(o => o.tier !== undefined);
+    const search = (capacity: number): FixedPlan => {
+        const result = searchCouponCounts(searchTypes, {
+            capacity,
+            isFeasible: tiered ? counts => withinCopies(options, counts) : undefined,
+            onProgress
+        });
+        return { value: result.value, counts: result.counts, upperBound: result.upperBound };
+    };
+
+    let table: FixedTable | null | undefined;
+    const getTable = (): FixedTable | null => {
+        if (table === undefined) table = buildTable();
+        return table;
+    };
+
+    const buildTable = (): FixedTable | null => {
+        // DP Preparation
+        // If we are here, we have more coupons than we can afford.
+        // Capacities at or above totalPossibleCost take everything, so the table stops there.
+        let W = Math.min(W_limit, totalPossibleCost);
+        const items: FixedTable["items"] = [];
+        const choices: FixedTable["choices"] = [];
+
+        // GCD Reduction (on valid coupons)
+        let commonFactor = W;
+        for (const cost of costs) {
+            commonFactor = gcd(commonFactor, cost);
         }
 
-        const totalDiscount = totalDiscountScaled / scale;
-        return {
-            totalOriginal: totalPrice,
-            totalDiscount: totalDiscount,
-            finalPrice: totalPrice - totalDiscount,
-            solution
-        };
+        if (commonFactor > 1) {
+            W /= commonFactor;
+        }
+        const reduced = costs.map(cost => cost / commonFactor);
+
+        // Expand (Binary Decomposition)
+        options.forEach((o, option) => {
+            if (o.tier !== undefined) return;
+            const cost = reduced[option];
+            const val = values[option];
+
+            let count = o.coupon.count;
+            let currentPower = 1;
+            while (count >= currentPower) {
+                items.push({
+                    cost: cost * currentPower,
+                    val: val * currentPower,
+                    option,
+                    realCount: currentPower
+                });
+                count -= currentPower;
+                currentPower *= 2;
+            }
+            if (count > 0) {
+                items.push({
+                    cost: cost * count,
+                    val: val * count,
+                    option,
+                    realCount: count
+                });
+            }
+        });
+
+        // Tiered coupons: one group per copy
+        for (const coupon of favourite.keys()) {
+            if (coupon.kind !== 'tiered') continue;
+            const tiers = options.map((o, i) => (o.coupon === coupon ? i : -1)).filter(i => i >= 0);
+            for (let k = 0; k < coupon.count; k++) {
+                choices.push({ options: tiers, picked: new Uint8Array(0) });
+            }
+        }
+
+        // Check memory limits (a choice pass keeps a byte per capacity)
+        if (W > MAX_SLOTS || choices.length * (W + 1) > MAX_SLOTS * 4) {
+            return null;
+        }
+
+        // DP Initialization
+        // dp[w] holds max value for capacity w (weight <= w), so it can be read at any capacity.
+        const dp = new Int32Array(W + 1).fill(0);
+
+        // To reconstruct, we need a Decision Matrix.
+        // keeping (items.length * W) bits might be large.
+        // items.length could be e.g. 50. W = 5,000,000. Total = 250M entries.
+        // So the decisions are packed 8 per byte.
+
+        const n = items.length;
+        // keep track of which items were taken.
+        // taken[i][w] = 1 if item i was taken for capacity w.
+        // Flattened bit index: i * (W+1) + w
+        const keep = new Uint8Array(Math.ceil((n * (W + 1)) / 8));
+        const passes = n + choices.length;
+
+        // DP Execution
+        for (let i = 0; i < n; i++) {
+            const { cost, val } = items[i];
+            for (let w = W; w >= cost; w--) {
+                const includeVal = dp[w - cost] + val;
+                if (includeVal > dp[w]) {
+                    dp[w] = includeVal;
+                    const bit = i * (W + 1) + w;
+                    keep[bit >> 3] |= 1 << (bit & 7); // Mark as taken
+                }
+            }
+            onProgress?.((i + 1) / passes);
+        }
+        // Costs are positive, so dp[w - cost] still holds the previous pass when dp[w] is written
+        choices.forEach((pass, p) => {
+            pass.picked = new Uint8Array(W + 1);
+            for (let w = W; w >= 1; w--) {
+                let best = dp[w];
+                let pick = 0;
+                pass.options.forEach((option, k) => {
+                    const cost = reduced[option];
+                    if (cost <= w && dp[w - cost] + values[option] > best) {
+                        best = dp[w - cost] + values[option];
+                        pick = k + 1;
+                    }
+                });
+                if (pick > 0) {
+                    dp[w] = best;
+                    pass.picked[w] = pick;
+                }
+            }
+            onProgress?.((n + p + 1) / passes);
+        });
+
+        return { W, commonFactor, dp, keep, items, choices };
+    };
+
+    return {
+        solve(capacity: number): FixedPlan {
+            if (totalPossibleCost <= capacity) return takeAll();
+            const t = getTable();
+            if (!t) return search(capacity);
+            const { W, commonFactor, dp, keep, items, choices } = t;
+
+            // Reconstruction
+            // All costs are multiples of commonFactor, so capacity rounds down in reduced units.
+            // We iterate the passes backwards: tier groups (computed last) first, then the items.
+            // If keep[i][currW] is 1, we took item i. currW -= item.cost.
+            // The `keep` array records whether we *updated* dp[w] at step i, which is exactly the decision.
+            const start = Math.floor(capacity / commonFactor);
+            let currW = start;
+            const counts = options.map(() => 0);
+            for (let p = choices.length - 1; p >= 0; p--) {
+                const pick = choices[p].picked[currW];
+                if (pick > 0) {
+                    const option = choices[p].options[pick - 1];
+                    counts[option] += 1;
+                    currW -= costs[option] / commonFactor;
+                }
+            }
+            for (let i = items.length - 1; i >= 0; i--) {
+                // Checks if we took item i at current remaining capacity
+                const bit = i * (W + 1) + currW;
+                if ((keep[bit >> 3] >> (bit & 7)) & 1) {
+                    const item = items[i];
+                    // Record usage
+                    counts[item.option] += item.realCount;
+
+                    currW -= item.cost;
+                }
+            }
+            // currW might not be 0 (unused capacity). that's fine.
+            // dp stores the integer discount in cents ('val' was never divided by commonFactor).
+            return { value: dp[start], counts, upperBound: dp[start] };
+        },
+
+        breakpoints(from: number, to: number): number[] | null {
+            const out: number[] = [];
+            if (totalPossibleCost === 0) return out;
+            const upper = Math.min(to, totalPossibleCost);
+            if (from >= upper) return out;
+            const t = getTable();
+            if (!t) return null;
+            const { commonFactor, dp } = t;
+            for (let w = Math.max(1, Math.floor(from / commonFactor) + 1); w * commonFactor <= upper; w++) {
+                if (dp[w] > dp[w - 1]) out.push(w * commonFactor);
+            }
+            return out;
+        }
+    };
+}
+
+export interface BasketPlan extends SequenceResult {
+    // Scaled; no plan saves more. Equals value unless the search was cut short.
+    upperBound: number;
+}
+
+export interface BasketCandidate extends SequenceResult {
+    usage: UsageCounts;
+}
+
+export interface BasketSolver {
+    // Best single-checkout plan for a cart worth `capacity` scaled units (capacity <= W_max).
+    solve(capacity: number): BasketPlan;
+    // Up to `keep` good plans per set of percentage coupons, unranked. `compare` settles equal fixed discounts.
+    candidates(capacity: number, keep: number, compare: (a: UsageCounts, b: UsageCounts) => number): BasketCandidate[];
+    // Cart totals in (from, to] at which the best discount may jump. Under stacking rules these
+    // come from the unrestricted knapsack and are only candidates.
+    breakpoints(from: number, to: number): number[] | null;
+    // Best fixed-coupon value for `capacity` as the table holds it, without reconstructing the
+    // coupons; null under stacking rules, where there is no table
+    tableValue(capacity: number): number | null;
+}
+
+/**
+ * Fixed coupons go through the knapsack; percentage coupons are enumerated on top of it.
+ * Like fixed coupons, each percentage use reserves its threshold out of the cart total.
+ * For every affordable subset, the fixed coupons share what is left and the best order is picked.
+ * Stacking rules don't fit the knapsack table, so with rules the fixed coupons are searched
+ * with branch and bound and every combination is checked against the rules.
+ */
+export function createBasketSolver(
+    coupons: Coupon[],
+    W_max: number,
+    scale: number,
+    onProgress?: (fraction: number) => void,
+    rules?: StackingRules
+): BasketSolver {
+    // Optimization 1: Ignore impossible coupons (and tiers)
+    const validFixed = fixedOptions(coupons).filter(o => toUnits(o.threshold, scale) <= W_max);
+    const validPercent = coupons.filter((c): c is PercentageCoupon => isPercentage(c) && isUsable(c) && toUnits(c.threshold, scale) <= W_max);
+
+    const fixed = createFixedSolver(validFixed, W_max, scale, onProgress);
+    const fixedTypes = validFixed.map(o => ({
+        cost: toUnits(o.threshold, scale),
+        value: toUnits(o.discount, scale),
+        maxCount: o.coupon.count
+    }));
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+    const usageOf = (subset: PercentageCoupon[], counts: number[]): UsageCounts => {
+        const usage = new Map<string, number>();
+        subset.forEach(c => usage.set(c.id, (usage.get(c.id) ?? 0) + 1));
+        counts.forEach((k, i) => {
+            if (k > 0) usage.set(validFixed[i].coupon.id, (usage.get(validFixed[i].coupon.id) ?? 0) + k);
+        });
+        return usage;
+    };
+    const feasible = (subset: PercentageCoupon[]) => (counts: number[]) =>
+        withinCopies(validFixed, counts) && (!check || check(usageOf(subset, counts)));
+    const stepsOf = (counts: number[]): FixedStep[] => validFixed
+        .map((o, i) => ({ couponId: o.coupon.id, tier: o.tier, count: counts[i], value: fixedTypes[i].value * counts[i] }))
+        .filter(f => f.count > 0);
+    // Past its limits the search only tries the most valuable percentage uses, in a greedy order
+    const percents = percentSearch(validPercent, W_max, scale);
+    const subsets = percents.subsets
+        .filter(subset => !check || check(usageOf(subset, [])))
+        .map(subset => ({
+            subset,
+            reserved: subset.reduce((sum, c) => sum + toUnits(c.threshold, scale), 0)
+        }));
+
+    const solveFixed = (subset: PercentageCoupon[], capacity: number): FixedPlan => {
+        if (!check) return fixed.solve(capacity);
+        const result = searchCouponCounts(fixedTypes, {
+            capacity,
+            isFeasible: feasible(subset),
+            onProgress
+        });
+        return { value: result.value, counts: result.counts, upperBound: result.upperBound };
+    };
+
+    return {
+        solve(capacity: number): BasketPlan {
+            let best: SequenceResult | null = null;
+            let upperBound = 0;
+
+            for (const { subset, reserved } of subsets) {
+                if (reserved > capacity) continue;
+
+                const plan = solveFixed(subset, capacity - reserved);
+                const sequence = bestSequence(subset, stepsOf(plan.counts), capacity, scale, percents.exhaustive);
+
+                if (!best || sequence.value > best.value) {
+                    best = sequence;
+                }
+                // The discount only grows with the fixed block's value, so sequencing the
+                // block's upper bound bounds this subset
+                const bound = plan.upperBound > plan.value
+                    ? bestSequence(subset, [{ couponId: "", count: 1, value: plan.upperBound }], capacity, scale, percents.exhaustive).value
+                    : sequence.value;
+                upperBound = Math.max(upperBound, bound);
+            }
+            // Sets and orders left untried: no plan beats the fixed coupons alone plus the largest percentages
+            if (!percents.exhaustive) {
+                const loose = solveFixed([], capacity).upperBound + percentBound(validPercent, capacity, scale);
+                upperBound = Math.max(upperBound, Math.min(capacity, loose));
+            }
+            const result = best ?? { value: 0, steps: [] };
+            return { ...result, upperBound: Math.max(upperBound, result.value) };
+        },
+
+        candidates(capacity, keep, compare): BasketCandidate[] {
+            const out: BasketCandidate[] = [];
+            for (const { subset, reserved } of subsets) {
+                if (reserved > capacity) continue;
+
+                const search = searchCouponCounts(fixedTypes, {
+                    capacity: capacity - reserved,
+                    keep,
+                    isFeasible: feasible(subset),
+                    compare: (a, b) => compare(usageOf(subset, a), usageOf(subset, b))
+                });
+                for (const alternative of search.alternatives) {
+                    out.push({ ...bestSequence(subset, stepsOf(alternative.counts), capacity, scale, percents.exhaustive), usage: usageOf(subset, alternative.counts) });
+                }
+            }
+            return out;
+        },
+
+        breakpoints(from: number, to: number): number[] | null {
+            const points = new Set<number>();
+            for (const { reserved } of subsets) {
+                if (reserved > from && reserved <= to) points.add(reserved);
+                const shifted = fixed.breakpoints(Math.max(0, from - reserved), to - reserved);
+                if (!shifted) return null;
+                shifted.forEach(p => points.add(p + reserved));
+            }
+            return [...points].sort((a, b) => a - b);
+        },
+
+        tableValue(capacity: number): number | null {
+            return check ? null : fixed.solve(capacity).value;
+        }
+    };
+}
+
+/**
+ * Best use of the coupons for a cart. Inputs with errors (see validation.ts) are left out before
+ * solving and listed in `ignored`.
+ */
+export function calculateOptimization(
+    coupons: Coupon[],
+    totalPrice: number,
+    options: OptimizationOptions = {}
+): OptimizationResult {
+    const input = screenInputs(coupons, totalPrice, options);
+    const result = optimize(input.coupons, input.totalPrice, input.options);
+    const ignored = [...input.ignored, ...(result.ignored ?? [])];
+    if (ignored.length > 0) result.ignored = ignored;
+    return result;
+}
+
+function optimize(coupons: Coupon[], totalPrice: number, options: OptimizationOptions): OptimizationResult {
+    const items = options.items ?? [];
+    const verify = options.verify !== false;
+    // Integer units per currency unit: 1 for JPY, 100 for USD, 1000 for KWD
+    const scale = currencyScale(options.currency);
+
+    // Group orders: solved as one cart, then the bill is shared out. Coalitions of the group are
+    // solved as carts of their own when the scheme asks for it.
+    if (options.group && options.group.participants.length > 0) {
+        const result = calculateOptimization(coupons, totalPrice, { ...options, group: undefined });
+        const { currency, mode, orders, rules, application } = options;
+        result.split = splitBill(options.group, coupons, result, scale, (own, total) =>
+            netSavings(calculateOptimization(own, total, { currency, mode, orders, rules, application, verify: false }))
+        );
+        return result;
     }
 
-    // 3. DP Preparation
-    // If we are here, we have more coupons than we can afford.
-    // We must optimize. The capacity is capped at W_limit.
-    let W = W_limit;
-    const items: { cost: number; val: number; originalCouponId: string; realCount: number }[] = [];
-
-    // 4. GCD Reduction (on valid coupons)
-    let commonFactor = W;
-    for (const c of validCoupons) {
-        const cost = Math.round(c.threshold * scale);
-        commonFactor = gcd(commonFactor, cost);
+    // What each coupon is worth: the cart alone, re-solved with a copy less or more. Values next
+    // to a plan that is only the best found would mislead, so there are none then.
+    if (options.couponValues) {
+        const result = calculateOptimization(coupons, totalPrice, { ...options, couponValues: false });
+        if (result.discountUpperBound === undefined) {
+            const { currency, items, mode, orders, rules, application } = options;
+            result.couponValues = couponValues(coupons, result, scale, variant =>
+                netSavings(calculateOptimization(variant, totalPrice, { currency, items, mode, orders, rules, application, verify: false }))
+            );
+        }
+        return result;
     }
 
-    if (commonFactor > 1) {
-        W /= commonFactor;
+    // Planning horizon: the coupons are shared with purchases still to come. This cart (the
+    // purchase with id "current") only gets the copies the schedule gives it, so the plan shown
+    // for it never spends a coupon a later purchase was counting on.
+    if (options.purchases && options.purchases.length > 0) {
+        const { purchases, ...rest } = options;
+        const cart = items.length > 0 ? cartTotal(items, scale) : totalPrice;
+        const schedule = purchases.map(p => (p.id === 'current' ? { ...p, amount: cart } : p));
+        const today = schedule.find(p => p.id === 'current')?.date || todayIso();
+        const valid = coupons.filter(c => isValidOn(c, today));
+        const horizon = planPurchases(valid, schedule, scale, options.onProgress, options.rules);
+        const current = horizon.purchases.find(p => p.purchaseId === 'current');
+        const allotted = current
+            ? valid.flatMap(c => {
+                const count = current.coupons.filter(u => u.couponId === c.id).reduce((sum, u) => sum + u.count, 0);
+                return count > 0 ? [{ ...c, count }] : [];
+            })
+            : valid;
+        const result = calculateOptimization(allotted, totalPrice, rest);
+        result.horizon = horizon;
+        // Coupons this cart can't have, named rather than silently missing from the plan
+        const left: IgnoredInput[] = coupons.flatMap(c => {
+            if (!isValidOn(c, today)) return [{ kind: 'coupon' as const, id: c.id, messages: [`It expired on ${c.expiresOn}.`] }];
+            if (current && isPercentage(c) && isUsable(c)) {
+                return [{ kind: 'coupon' as const, id: c.id, messages: ["Percentage coupons aren't planned across purchases, so none is used."] }];
+            }
+            return [];
+        });
+        if (left.length > 0) result.ignored = [...(result.ignored ?? []), ...left];
+        return result;
     }
 
-    // 5. Expand (Binary Decomposition)
-    for (const c of validCoupons) {
-        let cost = Math.round(c.threshold * scale);
-        const val = Math.round(c.discount * scale);
+    // Orders mode: split the purchase into several checkouts
+    if (options.mode === 'orders' && options.orders) {
+        const result = planOrders(coupons, items.length > 0 ? cartTotal(items, scale) : totalPrice, items, options.orders, scale, options.onProgress, options.rules);
+        if (verify) result.verification = unverified("Plans split over several orders have no independent check.");
+        return result;
+    }
 
-        if (commonFactor > 1) {
-            cost /= commonFactor;
+    // Sequential thresholds: the order of the coupons matters, so it is searched for as well.
+    // Item scopes would need the discount spread over the items first; those coupons sit out.
+    if (options.application === 'sequential') {
+        const scoped = items.length > 0 && coupons.some(isScoped);
+        const result = planSequential(
+            scoped ? coupons.filter(c => !isScoped(c)) : coupons,
+            items.length > 0 ? cartTotal(items, scale) : totalPrice,
+            scale,
+            options.onProgress,
+            options.rules
+        );
+        if (scoped) {
+            result.warning = [result.warning, "Coupons limited to some items are left out when thresholds apply to the discounted price."].filter(Boolean).join(" ");
         }
+        if (verify) result.verification = unverified("Plans whose thresholds apply to the discounted price have no independent check.");
+        return result;
+    }
 
-        let count = c.count;
-        let currentPower = 1;
-        while (count >= currentPower) {
-            items.push({
-                cost: cost * currentPower,
-                val: val * currentPower,
-                originalCouponId: c.id,
-                realCount: currentPower
-            });
-            count -= currentPower;
-            currentPower *= 2;
+    // Item-level carts: the total is derived from the items and scopes are honoured
+    if (items.length > 0) {
+        const ranking = options.alternatives !== undefined
+            ? { keep: options.alternatives, tieBreak: options.tieBreak ?? 'fewest-coupons' as const }
+            : undefined;
+        const result = optimizeCart(coupons, items, scale, options.onProgress, ranking, options.rules);
+        // Extra spend can only be suggested when every coupon would see it
+        if (options.topUpLimit !== undefined && !coupons.some(isScoped)) {
+            const W = toUnits(result.totalOriginal, scale);
+            const limit = Math.max(0, toUnits(options.topUpLimit, scale));
+            result.topUps = findTopUps(createBasketSolver(coupons, W + limit, scale, undefined, options.rules), W, limit, scale);
         }
-        if (count > 0) {
-            items.push({
-                cost: cost * count,
-                val: val * count,
-                originalCouponId: c.id,
-                realCount: count
-            });
+        // Without scopes the items only make up the total, so the plan is checked like any basket
+        if (verify) {
+            result.verification = coupons.some(isScoped)
+                ? unverified("Plans with coupons limited to some items have no independent check.")
+                : verifyBasket(coupons, result.totalOriginal, result, options.currency, options.rules);
         }
+        return result;
     }
 
-    // Check memory limits
-    if (W > MAX_SLOTS) {
-        return {
+    if (!coupons || coupons.length === 0 || totalPrice <= 0) {
+        const result: OptimizationResult = {
             totalOriginal: totalPrice,
             totalDiscount: 0,
             finalPrice: totalPrice,
-            solution: [],
-            warning: "Total calculated amount is too high for the browser optimizer. Please try reducing the total amount or using larger coupon denominations."
+            solution: []
         };
+        if (verify) result.verification = verifyBasket(coupons, totalPrice, result, options.currency, options.rules);
+        return result;
     }
 
-    // 4. DP Initialization
-    // dp[w] = max value attainable with weight <= w ??
-    // No, dp[w] = max value attainable with EXACTLY weight w?
-    // Knapsack standard: dp[w] = max value with weight <= w.
-    // Actually standard 0/1 implementation:
-    // dp[w] holds max value for capacity w.
-
-    const dp = new Int32Array(W + 1).fill(0);
-
-    // To reconstruct, we need a Decision Matrix. 
-    // keeping (items.length * W) bits might be large.
-    // items.length could be e.g. 50. W = 100,000. Total = 5M entries. 
-    // We can use a flattened Int8Array or Uint8Array.
-
-    const n = items.length;
-    // keep track of which items were taken.
-    // taken[i][w] = 1 if item i was taken for capacity w.
-    // Flattened: taken[i * (W+1) + w]
-    const keep = new Uint8Array(n * (W + 1));
-
-    // 5. DP Execution
-    for (let i = 0; i < n; i++) {
-        const { cost, val } = items[i];
-        for (let w = W; w >= cost; w--) {
-            const includeVal = dp[w - cost] + val;
-            if (includeVal > dp[w]) {
-                dp[w] = includeVal;
-                keep[i * (W + 1) + w] = 1; // Mark as taken
-            }
-        }
-    }
+    // 1. Setup
+    const W_limit = toUnits(totalPrice, scale);
+    const topUpLimit = Math.max(0, toUnits(options.topUpLimit ?? 0, scale));
 
-    // 6. Reconstruction
-    const usedCouponsMap = new Map<string, number>();
-
-    let currW = W;
-    // We need to trace back from the optimal capacity.
-    // The knapsack dp[W] gives the max value for capacity W.
-    // Since we populated it, dp[W] is indeed the max value.
-    // However, because we iterate W down to cost, `dp[W]` might have come from a smaller weight in previous iterations?
-    // Standard knapsack: dp[w] represents max value for capacity w.
-    // The trace back needs to follow the decisions.
-    // We iterate items backwards.
-    // If keep[i][currW] is 1, we took item i. currW -= item.cost.
-
-    // Wait, standard trace back requires us to verify if taking it was the optimal choice for *that step*.
-    // With the `keep` array recording the update, it records if we *updated* dp[w] at step i.
-    // Yes.
-
-    for (let i = n - 1; i >= 0; i--) {
-        // Checks if we took item i at current remaining capacity
-        if (keep[i * (W + 1) + currW] === 1) {
-            const item = items[i];
-            // Record usage
-            const currentCount = usedCouponsMap.get(item.originalCouponId) || 0;
-            usedCouponsMap.set(item.originalCouponId, currentCount + item.realCount);
-
-            currW -= item.cost;
-        }
+    // 2. Solve. With a top-up limit the table is built for the larger total and reused below.
+    // Totals too large for the table are searched with branch and bound instead.
+    let solver = createBasketSolver(coupons, W_limit + topUpLimit, scale, options.onProgress, options.rules);
+    let best = solver.solve(W_limit);
+    let topUpRange = topUpLimit;
+    if (best.upperBound > best.value && topUpLimit > 0) {
+        // The larger table didn't fit; the cart's own total may still be solved exactly
+        solver = createBasketSolver(coupons, W_limit, scale, options.onProgress, options.rules);
+        best = solver.solve(W_limit);
+        topUpRange = 0;
     }
+    const proven = best.upperBound <= best.value;
 
-    // 7. Format Result
-    // currW might not be 0 (unused capacity). that's fine.
-
-    const maxDiscount = dp[W] / scale; // Remember val was scaled
-    // The DP dp[W] stores the integer discount.
-    // Wait, I didn't divide 'val' by commonFactor, I kept it as cents.
-    // So dp[W] is in cents.
+    // 3. Alternatives: the K best distinct plans, equal savings settled by the tie-break
+    let chosen: SequenceResult = best;
+    let alternatives: Strategy[] | undefined;
+    if (options.alternatives !== undefined) {
+        const keep = Math.max(1, Math.floor(options.alternatives) || 1);
+        const tieBreak = options.tieBreak ?? 'fewest-coupons';
+        const countsOf = (plan: SequenceResult): UsageCounts =>
+            new Map(usageFromSteps(plan.steps).map(u => [u.couponId, u.count]));
+        const ranked = rankCandidates(
+            [{ ...best, usage: countsOf(best) }, ...solver.candidates(W_limit, keep, (a, b) => compareUsage(a, b, coupons, tieBreak))],
+            keep,
+            coupons,
+            tieBreak
+        );
+        chosen = ranked[0];
+        alternatives = ranked.map(plan => ({
+            solution: usageFromSteps(plan.steps),
+            steps: plan.steps,
+            discount: plan.value / scale,
+            gap: (ranked[0].value - plan.value) / scale
+        }));
+    }
 
-    const solution: CouponUsage[] = [];
-    usedCouponsMap.forEach((count, couponId) => {
-        solution.push({ couponId, count });
-    });
+    // 4. Which coupons the stacking rules kept out, against the best plan without rules
+    const solution = usageFromSteps(chosen.steps);
+    const exclusions = hasStackingRules(coupons, options.rules)
+        ? explainExclusions(coupons, solution, usageFromSteps(createBasketSolver(withoutStacking(coupons), W_limit, scale).solve(W_limit).steps), options.rules)
+        : undefined;
 
-    return {
+    // 5. Format Result
+    const maxDiscount = chosen.value / scale;
+    const result: OptimizationResult = {
         totalOriginal: totalPrice,
         totalDiscount: maxDiscount,
         finalPrice: totalPrice - maxDiscount,
-        solution
+        solution,
+        steps: chosen.steps,
+        alternatives,
+        exclusions,
+        topUps: options.topUpLimit !== undefined ? findTopUps(solver, W_limit, topUpRange, scale) : undefined,
+        discountUpperBound: proven ? undefined : best.upperBound / scale,
+        warning: proven
+            ? undefined
+            : "Too many coupon combinations to search exhaustively. Showing the best combination found."
     };
+
+    // 6. Check the plan independently of how it was found
+    if (verify) result.verification = verifyBasket(coupons, totalPrice, result, options.currency, options.rules, c => solver.tableValue(c));
+
+    // 7. The table covers every total up to the end of the top-up range. Under stacking rules each
+    // point is a search of its own, so fewer are taken, and none when even this cart's search ran out.
+    if (options.curve && (proven || !hasStackingRules(coupons, options.rules))) {
+        const maxSegments = hasStackingRules(coupons, options.rules) ? CURVE_SEGMENTS_WITH_RULES : undefined;
+        result.savingsCurve = savingsCurve(solver, W_limit + topUpRange, scale, maxSegments) ?? undefined;
+    }
+    return result;
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { CartItem, Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+
+const coupons: Coupon[] = [{ id: "fifteen", kind: "fixed", threshold: 100, discount: 15, count: 3 }];
+
+const ordersMode = (orderFee: number, items?: CartItem[]) =>
+    ({ mode: 'orders' as const, orders: { maxCouponsPerOrder: 1, orderFee }, items });
+
+describe("orders mode", () => {
+    it("splits the purchase so every coupon gets an order of its own", () => {
+        const result = calculateOptimization(coupons, 300, ordersMode(0));
+        expect(result.orders?.map(o => [o.amount, o.discount])).toEqual([[100, 15], [100, 15], [100, 15]]);
+        expect(result.totalDiscount).toBe(45);
+        expect(result.extraFees).toBe(0);
+    });
+
+    it("only adds an order when the coupon saves more than its fee", () => {
+        const result = calculateOptimization(coupons, 300, ordersMode(20));
+        expect(result.orders).toHaveLength(1);
+        expect(result.totalDiscount).toBe(15);
+        expect(result.finalPrice).toBe(285);
+    });
+
+    it("keeps items whole when filling the orders", () => {
+        const items: CartItem[] = [
+            { id: "lamp", name: "Lamp", price: 120, quantity: 1, categories: [] },
+            { id: "rug", name: "Rug", price: 100, quantity: 2, categories: [] }
+        ];
+        const result = calculateOptimization(coupons, 0, ordersMode(5, items));
+        const orders = result.orders ?? [];
+        expect(orders.every(o => o.amount >= 100 * o.coupons.reduce((n, u) => n + u.count, 0))).toBe(true);
+        expect(orders.map(o => o.items)).toEqual([[{ itemId: "lamp", quantity: 1 }], [{ itemId: "rug", quantity: 1 }], [{ itemId: "rug", quantity: 1 }]]);
+        expect(result.totalDiscount).toBe(45);
+        expect(result.extraFees).toBe(10);
+    });
+});
+
+describe("orders mode with coupons limited to some items", () => {
+    const pot = { categories: ["pot"], itemIds: [] };
+    const kettle = (quantity: number): CartItem => ({ id: "kettle", name: "Kettle", price: 100, quantity, categories: ["tea"] });
+    const pan = (price: number, quantity: number): CartItem => ({ id: "pan", name: "Pan", price, quantity, categories: ["pot"] });
+
+    it("checks scoped coupons sharing an order against its items together", () => {
+        // Each coupon alone fits the 120 of pans, but not both at once
+        const scoped: Coupon[] = [
+            { id: "big", kind: "fixed", threshold: 80, discount: 15, count: 1, scope: pot },
+            { id: "small", kind: "fixed", threshold: 60, discount: 15, count: 1, scope: pot }
+        ];
+        const result = calculateOptimization(scoped, 0, { mode: 'orders', orders: { maxCouponsPerOrder: 2, orderFee: 0 }, items: [kettle(2), pan(60, 2)] });
+        expect(result.orders?.map(o => o.coupons.map(u => u.couponId))).toEqual([["small"]]);
+        expect(result.totalDiscount).toBe(15);
+        expect(result.warning).toMatch(/dropped/);
+    });
+
+    it("drops the fee of an order no longer worth it once a coupon is dropped", () => {
+        const mixed: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 100, discount: 30, count: 2 },
+            { id: "pots", kind: "fixed", threshold: 100, discount: 30, count: 1, scope: pot },
+            { id: "q", kind: "fixed", threshold: 20, discount: 5, count: 1 }
+        ];
+        // The second order was for the pan coupon; the 5 it has left doesn't pay the fee of 10
+        const result = calculateOptimization(mixed, 0, { mode: 'orders', orders: { maxCouponsPerOrder: 2, orderFee: 10 }, items: [kettle(3), pan(50, 1)] });
+        expect(result.orders).toHaveLength(1);
+        expect(result.totalDiscount).toBe(60);
+        expect(result.extraFees).toBe(0);
+        expect(result.finalPrice).toBe(290);
+    });
+});
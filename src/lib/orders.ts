@@ -0,0 +1,249 @@
+import type { CartItem, Coupon, CouponUsage, OptimizationResult, OrderSplitSettings, PlannedOrder, StackingRules } from "../types";
+import { searchCouponCounts } from "./branchAndBound";
+import { isItemEligible, scopeCoverage } from "./cart";
+import { fixedOptions, isPercentage, isUsable, withinCopies, type FixedOption } from "./coupons";
+import { toUnits } from "./currency";
+import { createStackingCheck, hasStackingRules, minOrders } from "./stacking";
+
+interface DraftOrder {
+    // One entry per coupon use
+    coupons: FixedOption[];
+    amount: number;
+    units: CartItem[];
+}
+
+function requirement(order: DraftOrder, scale: number): number {
+    return order.coupons.reduce((sum, c) => sum + toUnits(c.threshold, scale), 0);
+}
+
+// How far the order is from covering its coupons, counting only eligible items per coupon. Used to
+// decide which order needs an item most; `covers` is the exact test.
+function deficit(order: DraftOrder, scale: number): number {
+    let worst = requirement(order, scale) - order.amount;
+    for (const c of order.coupons) {
+        worst = Math.max(worst, toUnits(c.threshold, scale) - eligibleSpend(order, c, scale));
+    }
+    return worst;
+}
+
+function eligibleSpend(order: DraftOrder, c: FixedOption, scale: number): number {
+    return order.units.reduce((sum, u) => sum + (isItemEligible(u, c.coupon) ? toUnits(u.price, scale) : 0), 0);
+}
+
+// Whether the order's items cover all its coupons' thresholds together, each item counted once
+// (Hall's condition over the coupons' scopes, as for a single cart)
+function covers(order: DraftOrder, scale: number): boolean {
+    if (requirement(order, scale) > order.amount) return false;
+    const groups = new Map<string, { eligible: boolean[]; used: number }>();
+    for (const c of order.coupons) {
+        const eligible = order.units.map(u => isItemEligible(u, c.coupon));
+        const key = eligible.map(e => (e ? "1" : "0")).join("");
+        const group = groups.get(key) ?? { eligible, used: 0 };
+        group.used += toUnits(c.threshold, scale);
+        groups.set(key, group);
+    }
+    const list = [...groups.values()];
+    const { violates } = scopeCoverage(list.map(g => g.eligible), order.units.map(u => toUnits(u.price, scale)));
+    return !violates(list.map(g => g.used), -1);
+}
+
+function usagesOf(coupons: FixedOption[], scale: number): CouponUsage[] {
+    const usage: CouponUsage[] = [];
+    for (const c of coupons) {
+        const existing = usage.find(u => u.couponId === c.coupon.id && u.tier === c.tier);
+        if (existing) {
+            existing.count += 1;
+        } else {
+            const entry: CouponUsage = { couponId: c.coupon.id, count: 1, discount: 0 };
+            if (c.tier !== undefined) entry.tier = c.tier;
+            usage.push(entry);
+        }
+    }
+    for (const u of usage) {
+        const c = coupons.find(c => c.coupon.id === u.couponId && c.tier === u.tier)!;
+        u.discount = (toUnits(c.discount, scale) * u.count) / scale;
+    }
+    return usage;
+}
+
+/**
+ * Splits the purchase into several checkouts when a shop only accepts a few coupons per order.
+ * Every order beyond the first costs `orderFee`, so another order is only opened when its
+ * coupons save more than the fee. Only fixed-amount coupons are split across orders.
+ * Stacking rules hold for every order on its own.
+ */
+export function planOrders(
+    coupons: Coupon[],
+    totalPrice: number,
+    items: CartItem[],
+    settings: OrderSplitSettings,
+    scale: number,
+    onProgress?: (fraction: number) => void,
+    rules?: StackingRules
+): OptimizationResult {
+    const perOrder = Math.max(1, Math.min(Math.floor(settings.maxCouponsPerOrder) || 1, rules?.maxCoupons ?? Infinity));
+    const feeScaled = Math.max(0, toUnits(settings.orderFee || 0, scale));
+    const W = toUnits(totalPrice, scale);
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+
+    const validCoupons = fixedOptions(coupons).filter(o =>
+        toUnits(o.threshold, scale) <= W && (!check || check(new Map([[o.coupon.id, 1]])))
+    );
+    const usageOf = (counts: number[]) => {
+        const usage = new Map<string, number>();
+        validCoupons.forEach((o, i) => usage.set(o.coupon.id, (usage.get(o.coupon.id) ?? 0) + counts[i]));
+        return usage;
+    };
+
+    // Coupon uses dealt into orders, biggest thresholds first, each into the first order that
+    // still has room for it under the rules
+    const deal = (counts: number[]): FixedOption[][] => {
+        const dealt: FixedOption[][] = [];
+        const sorted = validCoupons
+            .flatMap((c, i) => new Array<FixedOption>(counts[i]).fill(c))
+            .sort((a, b) => b.threshold - a.threshold);
+        for (const c of sorted) {
+            const fits = (order: FixedOption[]) => {
+                if (order.length >= perOrder) return false;
+                if (!check) return true;
+                const usage = new Map<string, number>();
+                [...order, c].forEach(o => usage.set(o.coupon.id, (usage.get(o.coupon.id) ?? 0) + 1));
+                return check(usage);
+            };
+            const target = dealt.find(fits);
+            if (target) {
+                target.push(c);
+            } else {
+                dealt.push([c]);
+            }
+        }
+        return dealt;
+    };
+    const skippedPercent = coupons.some(c => isPercentage(c) && isUsable(c));
+
+    // 1. For m orders, the best set of at most m * perOrder coupon uses.
+    // More orders allow more coupons but cost another fee each.
+    const types = validCoupons.map(c => ({
+        cost: toUnits(c.threshold, scale),
+        value: toUnits(c.discount, scale),
+        maxCount: c.coupon.count
+    }));
+    const tiered = validCoupons.some(o => o.tier !== undefined);
+    const totalUses = [...new Set(validCoupons.map(o => o.coupon))].reduce((sum, c) => sum + c.count, 0);
+    const unlimited = searchCouponCounts(types, { capacity: W, isFeasible: tiered ? counts => withinCopies(validCoupons, counts) : undefined });
+
+    let best = { net: 0, counts: new Array<number>(types.length).fill(0), orders: 1, value: 0 };
+    let complete = unlimited.complete;
+    // Non-stackable coupons and group limits may need an order per use
+    const maxOrders = Math.max(1, check ? totalUses : Math.ceil(totalUses / perOrder));
+    for (let m = 1; m <= maxOrders; m++) {
+        onProgress?.(m / maxOrders);
+        // Even every coupon at once can't pay for this many fees
+        if (unlimited.value - feeScaled * (m - 1) <= best.net) break;
+
+        const search = searchCouponCounts(types, {
+            capacity: W,
+            isFeasible: counts => withinCopies(validCoupons, counts) && (check
+                ? minOrders(coupons, usageOf(counts), perOrder, rules) <= m
+                : counts.reduce((a, b) => a + b, 0) <= m * perOrder)
+        });
+        complete = complete && search.complete;
+        const orders = Math.max(1, deal(search.counts).length);
+        const net = search.value - feeScaled * (orders - 1);
+        if (net > best.net) {
+            best = { net, counts: search.counts, orders, value: search.value };
+        }
+    }
+
+    // 2. Deal the coupon uses into orders
+    const drafts: DraftOrder[] = deal(best.counts).map(order => ({ coupons: order, amount: 0, units: [] }));
+    if (drafts.length === 0) drafts.push({ coupons: [], amount: 0, units: [] });
+
+    let warning = skippedPercent ? "Percentage coupons are not split across orders and were left out." : undefined;
+
+    // 3. Fill the orders
+    const units = items
+        .filter(item => item.price > 0 && item.quantity > 0)
+        .flatMap(item => new Array<CartItem>(item.quantity).fill(item))
+        .sort((a, b) => b.price - a.price);
+
+    if (units.length === 0) {
+        // Plain total: every order spends exactly its thresholds, the rest goes into the first order
+        drafts.forEach(d => {
+            d.amount = requirement(d, scale);
+        });
+        drafts[0].amount += W - drafts.reduce((sum, d) => sum + d.amount, 0);
+    } else {
+        // Items are indivisible: hand each unit to the order that needs it most
+        for (const unit of units) {
+            let target: DraftOrder | null = null;
+            for (const d of drafts) {
+                if (covers(d, scale) || !d.coupons.some(c => isItemEligible(unit, c.coupon))) continue;
+                if (!target || deficit(d, scale) > deficit(target, scale)) target = d;
+            }
+            target = target ?? drafts[0];
+            target.units.push(unit);
+            target.amount += toUnits(unit.price, scale);
+        }
+
+        // Orders that still miss a threshold give up coupons until their items cover the rest:
+        // first those their items can't cover even alone, then the least valuable. An order left saving no more than its fee (the fees were weighed
+        // against the coupons of all orders together) gives up the rest too. Orders without
+        // coupons merge into the first order.
+        const failed = drafts.filter(d => !covers(d, scale));
+        if (failed.length > 0) {
+            warning = [warning, "Some coupons could not be matched with whole items and were dropped."].filter(Boolean).join(" ");
+            for (const d of failed) {
+                const alone = (c: FixedOption) => toUnits(c.threshold, scale) > eligibleSpend(d, c, scale);
+                d.coupons.sort((a, b) => Number(alone(a)) - Number(alone(b)) || b.discount - a.discount || a.threshold - b.threshold);
+                while (!covers(d, scale)) d.coupons.pop();
+            }
+            const saving = (d: DraftOrder) => d.coupons.reduce((sum, c) => sum + toUnits(c.discount, scale), 0);
+            // The first order with coupons left pays no extra fee
+            drafts.filter(d => d.coupons.length > 0).slice(1).forEach(d => {
+                if (saving(d) <= feeScaled) d.coupons = [];
+            });
+            const keep = drafts.filter(d => d.coupons.length > 0);
+            const leftovers = drafts.filter(d => d.coupons.length === 0);
+            const sink = keep[0] ?? leftovers[0];
+            for (const d of leftovers) {
+                if (d === sink) continue;
+                sink.units.push(...d.units);
+                sink.amount += d.amount;
+            }
+            drafts.splice(0, drafts.length, ...(keep.includes(sink) ? keep : [sink, ...keep]));
+        }
+    }
+
+    // 4. Format Result
+    const orders: PlannedOrder[] = drafts.map(d => {
+        const discount = d.coupons.reduce((sum, c) => sum + toUnits(c.discount, scale), 0);
+        const itemsInOrder = new Map<string, number>();
+        d.units.forEach(u => itemsInOrder.set(u.id, (itemsInOrder.get(u.id) ?? 0) + 1));
+        return {
+            amount: d.amount / scale,
+            items: [...itemsInOrder].map(([itemId, quantity]) => ({ itemId, quantity })),
+            coupons: usagesOf(d.coupons, scale),
+            discount: discount / scale,
+            fee: feeScaled / scale,
+            finalPrice: (d.amount - discount + feeScaled) / scale
+        };
+    });
+
+    const totalDiscount = orders.reduce((sum, o) => sum + toUnits(o.discount, scale), 0) / scale;
+    // The first order's fee is paid either way
+    const extraFees = (feeScaled * (orders.length - 1)) / scale;
+    if (!complete) {
+        warning = [warning, "Too many coupon combinations to search exhaustively. Showing the best split found."].filter(Boolean).join(" ");
+    }
+
+    return {
+        totalOriginal: totalPrice,
+        totalDiscount,
+        finalPrice: totalPrice - totalDiscount + extraFees,
+        solution: usagesOf(drafts.flatMap(d => d.coupons), scale),
+        orders,
+        extraFees,
+        warning
+    };
+}
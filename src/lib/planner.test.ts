@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon, PlannedPurchase } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { isValidOn, planPurchases } from "./planner";
+
+const coupons: Coupon[] = [
+    { id: "lasting", kind: "fixed", threshold: 100, discount: 20, count: 1 },
+    { id: "expiring", kind: "fixed", threshold: 100, discount: 15, count: 1, expiresOn: "2026-01-15" }
+];
+
+const purchases: PlannedPurchase[] = [
+    { id: "current", date: "2026-01-01", amount: 100 },
+    { id: "later", date: "2026-02-01", amount: 100 }
+];
+
+describe("purchase planning", () => {
+    it("treats the expiry date as the last valid day", () => {
+        expect(isValidOn(coupons[1], "2026-01-15")).toBe(true);
+        expect(isValidOn(coupons[1], "2026-01-16")).toBe(false);
+        expect(isValidOn(coupons[0], "2099-01-01")).toBe(true);
+    });
+
+    it("uses the expiring coupon first and keeps the other for later", () => {
+        const horizon = planPurchases(coupons, purchases, 100);
+        expect(horizon.totalDiscount).toBe(35);
+        expect(horizon.greedyDiscount).toBe(20);
+        expect(horizon.purchases.map(p => p.coupons.map(u => u.couponId))).toEqual([["expiring"], ["lasting"]]);
+        expect(horizon.unused).toEqual([]);
+    });
+
+    it("plans this cart with only the coupons the schedule gives it", () => {
+        const result = calculateOptimization(coupons, 100, { purchases });
+        expect(result.solution.map(u => u.couponId)).toEqual(["expiring"]);
+        expect(result.totalDiscount).toBe(15);
+        expect(result.horizon?.totalDiscount).toBe(35);
+    });
+
+    it("leaves out coupons that expired before this cart", () => {
+        const expired: Coupon = { id: "expired", kind: "fixed", threshold: 10, discount: 50, count: 1, expiresOn: "2025-12-31" };
+        const result = calculateOptimization([...coupons, expired], 100, { purchases });
+        expect(result.solution.map(u => u.couponId)).toEqual(["expiring"]);
+        expect(result.horizon?.unused).toEqual([]);
+        expect(result.ignored).toEqual([{ kind: 'coupon', id: "expired", messages: ["It expired on 2025-12-31."] }]);
+    });
+
+    it("says percentage coupons are left out of the plan", () => {
+        const percent: Coupon = { id: "tenth", kind: "percent", threshold: 0, percent: 10, count: 1 };
+        const result = calculateOptimization([...coupons, percent], 100, { purchases });
+        expect(result.solution.map(u => u.couponId)).toEqual(["expiring"]);
+        expect(result.ignored?.map(i => i.id)).toEqual(["tenth"]);
+        expect(result.ignored?.[0].messages[0]).toMatch(/Percentage coupons/);
+    });
+});
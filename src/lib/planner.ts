@@ -0,0 +1,212 @@
+import type { Coupon, CouponUsage, HorizonPlan, PlannedPurchase, PurchaseSchedule, StackingRules } from "../types";
+import type { UsageCounts } from "./alternatives";
+import { fixedOptions, isPercentage, isUsable, type FixedOption } from "./coupons";
+import { toUnits } from "./currency";
+import { createStackingCheck, hasStackingRules } from "./stacking";
+
+const NODE_LIMIT = 500_000;
+const PROGRESS_INTERVAL = 10_000;
+
+interface PlanType {
+    option: FixedOption;
+    cost: number;
+    value: number;
+    // Index of the coupon whose copies this type draws on (shared by the tiers of a coupon)
+    pool: number;
+}
+
+interface Schedule {
+    // counts[type][purchase]
+    counts: number[][];
+    value: number;
+    complete: boolean;
+}
+
+// Local calendar date as YYYY-MM-DD
+export function todayIso(): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// A coupon can be used up to and including its expiry day
+export function isValidOn(coupon: Coupon, date: string): boolean {
+    return !coupon.expiresOn || date <= coupon.expiresOn;
+}
+
+/**
+ * Branch and bound over how many copies of each coupon go to each purchase.
+ * Types are tried best ratio first and handed out purchase by purchase; the bound is the
+ * fractional knapsack of the remaining copies over all remaining capacity.
+ */
+function searchSchedule(
+    types: PlanType[],
+    // Copies per pool
+    copies: number[],
+    capacities: number[],
+    eligible: boolean[][],
+    // Stacking rules for the coupons of one purchase
+    check: ((usage: UsageCounts) => boolean) | null,
+    onProgress?: (fraction: number) => void
+): Schedule {
+    const order = types
+        .map((_, i) => i)
+        .filter(i => copies[types[i].pool] > 0 && types[i].value > 0)
+        .sort((a, b) => types[b].value / types[b].cost - types[a].value / types[a].cost);
+    const pairs = order.flatMap(t => capacities.map((_, j) => ({ t, j })).filter(p => eligible[p.t][p.j]));
+
+    const remainingCap = capacities.slice();
+    const remainingCount = copies.slice();
+    const counts = types.map(() => capacities.map(() => 0));
+    let best = { counts: counts.map(row => row.slice()), value: 0 };
+    let nodes = 0;
+    let complete = true;
+
+    const bound = (p: number): number => {
+        if (p === pairs.length) return 0;
+        let capacity = remainingCap.reduce((a, b) => a + b, 0);
+        let total = 0;
+        for (let d = order.indexOf(pairs[p].t); d < order.length && capacity > 0; d++) {
+            const t = types[order[d]];
+            // Tiers of one coupon each see all its copies, which only loosens the bound
+            const available = remainingCount[t.pool];
+            if (t.cost * available <= capacity) {
+                total += t.value * available;
+                capacity -= t.cost * available;
+            } else {
+                total += t.value * (capacity / t.cost);
+                capacity = 0;
+            }
+        }
+        return total;
+    };
+
+    const usageAt = (j: number): UsageCounts => {
+        const usage = new Map<string, number>();
+        types.forEach((type, i) => {
+            const id = type.option.coupon.id;
+            usage.set(id, (usage.get(id) ?? 0) + counts[i][j]);
+        });
+        return usage;
+    };
+
+    const visit = (p: number, value: number) => {
+        if (p === pairs.length) {
+            if (value > best.value) best = { counts: counts.map(row => row.slice()), value };
+            return;
+        }
+        if (++nodes > NODE_LIMIT) {
+            complete = false;
+            return;
+        }
+        if (onProgress && nodes % PROGRESS_INTERVAL === 0) onProgress(nodes / NODE_LIMIT);
+        if (value + bound(p) <= best.value) return;
+
+        const { t, j } = pairs[p];
+        const type = types[t];
+        const max = Math.min(remainingCount[type.pool], Math.floor(remainingCap[j] / type.cost));
+        for (let k = max; k >= 0; k--) {
+            counts[t][j] = k;
+            if (k > 0 && check && !check(usageAt(j))) continue;
+            remainingCount[type.pool] -= k;
+            remainingCap[j] -= k * type.cost;
+            visit(p + 1, value + k * type.value);
+            remainingCount[type.pool] += k;
+            remainingCap[j] += k * type.cost;
+            if (!complete) break;
+        }
+        counts[t][j] = 0;
+    };
+
+    visit(0, 0);
+    return { counts: best.counts, value: best.value, complete };
+}
+
+/**
+ * Spreads the coupon inventory over several purchases to save the most in total, never
+ * using a coupon after its expiry date. Like orders mode, only fixed-amount coupons are planned.
+ */
+export function planPurchases(
+    coupons: Coupon[],
+    purchases: PlannedPurchase[],
+    scale: number,
+    onProgress?: (fraction: number) => void,
+    rules?: StackingRules
+): HorizonPlan {
+    const sorted = purchases
+        .filter(p => p.amount > 0 && p.date !== "")
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const capacities = sorted.map(p => toUnits(p.amount, scale));
+
+    const options = fixedOptions(coupons);
+    const pooled = [...new Set(options.map(o => o.coupon))];
+    const copies = pooled.map(c => c.count);
+    const types: PlanType[] = options.map(option => ({
+        option,
+        cost: toUnits(option.threshold, scale),
+        value: toUnits(option.discount, scale),
+        pool: pooled.indexOf(option.coupon)
+    }));
+    const eligible = types.map(t => sorted.map(p => isValidOn(t.option.coupon, p.date)));
+
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+    const searched = searchSchedule(types, copies, capacities, eligible, check, onProgress);
+
+    // Baseline: each purchase takes the best it can from whatever earlier purchases left over
+    const greedy = { counts: types.map(() => capacities.map(() => 0)), value: 0 };
+    const left = copies.slice();
+    sorted.forEach((_, j) => {
+        const single = searchSchedule(types, left, [capacities[j]], types.map((_, t) => [eligible[t][j]]), check);
+        greedy.value += single.value;
+        single.counts.forEach((row, t) => {
+            greedy.counts[t][j] = row[0];
+            left[types[t].pool] -= row[0];
+        });
+    });
+    // An interrupted search can fall behind the baseline
+    const plan = greedy.value > searched.value ? greedy : searched;
+
+    const schedule: PurchaseSchedule[] = sorted.map((p, j) => {
+        const usage: CouponUsage[] = [];
+        let discount = 0;
+        types.forEach((t, i) => {
+            const k = plan.counts[i][j];
+            if (k === 0) return;
+            const entry: CouponUsage = { couponId: t.option.coupon.id, count: k, discount: (t.value * k) / scale };
+            if (t.option.tier !== undefined) entry.tier = t.option.tier;
+            usage.push(entry);
+            discount += t.value * k;
+        });
+        return {
+            purchaseId: p.id,
+            date: p.date,
+            amount: p.amount,
+            coupons: usage,
+            discount: discount / scale,
+            finalPrice: (capacities[j] - discount) / scale
+        };
+    });
+
+    const unused = pooled
+        .map((c, pool) => ({
+            couponId: c.id,
+            count: c.count - types.reduce((sum, t, i) => sum + (t.pool === pool ? plan.counts[i].reduce((a, b) => a + b, 0) : 0), 0)
+        }))
+        .filter(u => u.count > 0);
+
+    const warnings: string[] = [];
+    if (coupons.some(c => isPercentage(c) && isUsable(c))) {
+        warnings.push("Percentage coupons are not planned across purchases and were left out.");
+    }
+    if (!searched.complete) {
+        warnings.push("Too many ways to spread the coupons to search exhaustively. Showing the best schedule found.");
+    }
+
+    return {
+        purchases: schedule,
+        totalDiscount: plan.value / scale,
+        greedyDiscount: greedy.value / scale,
+        unused,
+        warning: warnings.length > 0 ? warnings.join(" ") : undefined
+    };
+}
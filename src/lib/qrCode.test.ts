@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { encodeQr, qrPath, type QrCode, type QrErrorCorrection } from "./qrCode";
+
+// Data codewords of a version 1 symbol; all 26 codewords form a single block
+const V1_DATA: Record<QrErrorCorrection, number> = { L: 19, M: 16, Q: 13, H: 9 };
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_, y) => y % 2 === 0,
+    x => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+function gfMultiply(a: number, b: number): number {
+    let product = 0;
+    for (let i = 7; i >= 0; i--) {
+        product = (product << 1) ^ ((product >>> 7) * 0x11d);
+        if ((b >>> i) & 1) product ^= a;
+    }
+    return product;
+}
+
+// Reads a version 1 symbol back the way a scanner would: format, unmasked codewords, then the bytes
+function decodeVersion1(code: QrCode): { ecl: QrErrorCorrection; codewords: number[]; text: string } {
+    const { size, modules } = code;
+    const dark = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+
+    let bits = 0;
+    for (let i = 0; i <= 5; i++) bits |= dark(8, i) << i;
+    bits |= (dark(8, 7) << 6) | (dark(8, 8) << 7) | (dark(7, 8) << 8);
+    for (let i = 9; i < 15; i++) bits |= dark(14 - i, 8) << i;
+    const format = bits ^ 0x5412;
+    const ecl = (['M', 'L', 'H', 'Q'] as const)[format >>> 13];
+    const mask = MASKS[(format >>> 10) & 7];
+
+    // Finders with separators and format areas, and the timing patterns
+    const reserved = (x: number, y: number) =>
+        x === 6 || y === 6 || (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8);
+    const codewords: number[] = [];
+    let current = 0;
+    let count = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical;
+                if (reserved(x, y)) continue;
+                current = (current << 1) | (dark(x, y) ^ (mask(x, y) ? 1 : 0));
+                if (++count % 8 === 0) {
+                    codewords.push(current);
+                    current = 0;
+                }
+            }
+        }
+    }
+
+    const data = codewords.slice(0, V1_DATA[ecl]);
+    const stream = data.flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+    const read = (from: number, length: number) => stream.slice(from, from + length).reduce((v, b) => (v << 1) | b, 0);
+    expect(read(0, 4)).toBe(0x4);
+    const bytes = Array.from({ length: read(4, 8) }, (_, i) => read(12 + i * 8, 8));
+    return { ecl, codewords: codewords.slice(0, 26), text: new TextDecoder().decode(new Uint8Array(bytes)) };
+}
+
+describe("encodeQr", () => {
+    it.each(["HELLO", "Plan 12345", "ex.am/p?s=abc"])("writes %s so it reads back with valid error correction", text => {
+        const code = encodeQr(text);
+        expect(code.version).toBe(1);
+        const { ecl, codewords, text: decoded } = decodeVersion1(code);
+        expect(decoded).toBe(text);
+        // Every root of the generator polynomial is a root of the whole block
+        let root = 1;
+        for (let i = 0; i < 26 - V1_DATA[ecl]; i++) {
+            expect(codewords.reduce((acc, c) => gfMultiply(acc, root) ^ c, 0)).toBe(0);
+            root = gfMultiply(root, 2);
+        }
+    });
+
+    it("raises the error correction while the version stays the same", () => {
+        // A version 1 symbol holds 7 bytes at H, 11 at Q and 14 at M
+        expect(decodeVersion1(encodeQr("HELLO")).ecl).toBe('H');
+        expect(decodeVersion1(encodeQr("Plan 12345")).ecl).toBe('Q');
+        expect(decodeVersion1(encodeQr("ex.am/p?s=abc")).ecl).toBe('M');
+    });
+
+    it("picks the smallest version that holds the text", () => {
+        // 123 bytes: version 7 holds 122 at M, version 8 holds 152
+        const code = encodeQr("https://example.com/?s=" + "a".repeat(100));
+        expect(code.version).toBe(8);
+        expect(code.size).toBe(49);
+        expect(code.modules).toHaveLength(49);
+    });
+
+    it("draws the finder patterns and timing patterns", () => {
+        const { size, modules } = encodeQr("https://example.com/");
+        const finderRow = [true, true, true, true, true, true, true, false];
+        expect(modules[0].slice(0, 8)).toEqual(finderRow);
+        expect(modules[0].slice(size - 8).reverse()).toEqual(finderRow);
+        expect(modules[size - 1].slice(0, 8)).toEqual(finderRow);
+        expect(modules[6].slice(8, size - 8)).toEqual(Array.from({ length: size - 16 }, (_, i) => i % 2 === 0));
+        // The dark module beside the bottom left finder
+        expect(modules[size - 8][8]).toBe(true);
+    });
+
+    it("refuses text too long for any version", () => {
+        expect(() => encodeQr("x".repeat(3000))).toThrow(/Too long/);
+    });
+});
+
+describe("qrPath", () => {
+    it("draws one unit square per dark module, offset by the margin", () => {
+        const code: QrCode = { version: 1, size: 2, modules: [[true, false], [false, true]] };
+        expect(qrPath(code, 4)).toBe("M4,4h1v1h-1zM5,5h1v1h-1z");
+    });
+});
@@ -0,0 +1,396 @@
+// QR Code Model 2 encoder (ISO/IEC 18004) for links: byte mode, versions 1 to 40, the mask with the
+// lowest penalty. Runs offline, so a plan can be shown at a store counter without a network.
+
+// 'L' restores about 7% of damaged modules, 'M' 15%, 'Q' 25%, 'H' 30%
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Value written into the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// By error correction level, then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const BYTE_MODE = 0x4;
+const PAD_BYTES = [0xec, 0x11];
+
+// Penalty weights of the mask evaluation
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+// Dark modules by row then column, without the quiet zone around them
+export interface QrCode {
+    version: number;
+    size: number;
+    modules: boolean[][];
+}
+
+function bit(value: number, index: number): boolean {
+    return ((value >>> index) & 1) !== 0;
+}
+
+// Modules left for data and error correction once the function patterns are placed
+function rawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        result -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+}
+
+function dataCodewords(version: number, ecl: QrErrorCorrection): number {
+    return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecl][version] * ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+// Bits of the character count in byte mode
+function countBits(version: number): number {
+    return version <= 9 ? 8 : 16;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
+
+// Generator polynomial of the given degree, highest coefficient (always 1) left out
+function reedSolomonDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < degree) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+}
+
+// Error correction codewords of one block
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = new Array<number>(divisor.length).fill(0);
+    for (const b of data) {
+        const factor = b ^ result.shift()!;
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= gfMultiply(coefficient, factor);
+        });
+    }
+    return result;
+}
+
+// Data codewords split into blocks, each followed by its error correction, then interleaved
+function addErrorCorrection(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+    const blockCount = ERROR_CORRECTION_BLOCKS[ecl][version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortLength = Math.floor(rawCodewords / blockCount);
+    const divisor = reedSolomonDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = reedSolomonRemainder(block, divisor);
+        // Short blocks get a placeholder so every block has the same length
+        if (i < shortBlocks) block.push(0);
+        blocks.push([...block, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+}
+
+// Mode, count, the bytes, terminator and padding, as codewords
+function dataBits(bytes: Uint8Array, version: number, ecl: QrErrorCorrection): number[] {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(BYTE_MODE, 4);
+    append(bytes.length, countBits(version));
+    bytes.forEach(b => append(b, 8));
+
+    const capacity = dataCodewords(version, ecl) * 8;
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let i = 0; bits.length < capacity; i++) append(PAD_BYTES[i % 2], 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+    }
+    return codewords;
+}
+
+// Centres of the alignment patterns along either axis
+function alignmentPositions(version: number): number[] {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const result = [6];
+    for (let pos = version * 4 + 10; result.length < count; pos -= step) result.splice(1, 0, pos);
+    return result;
+}
+
+// The 15 format bits (error correction level and mask, BCH protected and masked)
+function formatBits(ecl: QrErrorCorrection, mask: number): number {
+    const data = (FORMAT_BITS[ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    return ((data << 10) | rem) ^ 0x5412;
+}
+
+// The 18 version bits (versions 7 and up)
+function versionBits(version: number): number {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    return (version << 12) | rem;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_, y) => y % 2 === 0,
+    x => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+// Symbol under construction: modules by row, and which of them belong to function patterns
+interface Grid {
+    size: number;
+    modules: boolean[][];
+    reserved: boolean[][];
+}
+
+function createGrid(size: number): Grid {
+    const blank = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    return { size, modules: blank(), reserved: blank() };
+}
+
+function setFunction(grid: Grid, x: number, y: number, dark: boolean) {
+    grid.modules[y][x] = dark;
+    grid.reserved[y][x] = true;
+}
+
+function drawFunctionPatterns(grid: Grid, version: number) {
+    const { size } = grid;
+    for (let i = 0; i < size; i++) {
+        setFunction(grid, 6, i, i % 2 === 0);
+        setFunction(grid, i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx;
+                const y = cy + dy;
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(grid, x, y, distance !== 2 && distance !== 4);
+            }
+        }
+    }
+
+    const positions = alignmentPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+        positions.forEach((cy, j) => {
+            // The finder patterns take these corners
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) setFunction(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        });
+    });
+
+    // Reserve the format areas now; they are written once the mask is chosen
+    drawFormat(grid, 'L', 0);
+
+    if (version >= 7) {
+        const bits = versionBits(version);
+        for (let i = 0; i < 18; i++) {
+            const a = size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            setFunction(grid, a, b, bit(bits, i));
+            setFunction(grid, b, a, bit(bits, i));
+        }
+    }
+}
+
+function drawFormat(grid: Grid, ecl: QrErrorCorrection, mask: number) {
+    const { size } = grid;
+    const bits = formatBits(ecl, mask);
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, bit(bits, i));
+    setFunction(grid, 8, 7, bit(bits, 6));
+    setFunction(grid, 8, 8, bit(bits, 7));
+    setFunction(grid, 7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, bit(bits, i));
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) setFunction(grid, size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(grid, 8, size - 15 + i, bit(bits, i));
+    setFunction(grid, 8, size - 8, true);
+}
+
+// Codewords laid out in the zigzag of two-module columns, right to left, skipping function modules
+function drawCodewords(grid: Grid, codewords: number[]) {
+    const { size } = grid;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        // The vertical timing pattern has no partner column
+        if (right === 6) right = 5;
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const upward = ((right + 1) & 2) === 0;
+                const y = upward ? size - 1 - vertical : vertical;
+                if (!grid.reserved[y][x] && i < codewords.length * 8) {
+                    grid.modules[y][x] = bit(codewords[i >>> 3], 7 - (i & 7));
+                    i++;
+                }
+            }
+        }
+    }
+}
+
+// Masking twice undoes it
+function applyMask(grid: Grid, mask: number) {
+    const invert = MASKS[mask];
+    for (let y = 0; y < grid.size; y++) {
+        for (let x = 0; x < grid.size; x++) {
+            if (!grid.reserved[y][x] && invert(x, y)) grid.modules[y][x] = !grid.modules[y][x];
+        }
+    }
+}
+
+// Dark-light-dark-dark-dark-light-dark with four light modules on one side
+const FINDER_LIKE = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+function linePenalty(line: boolean[]): number {
+    let penalty = 0;
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+            run++;
+        } else {
+            if (run >= 5) penalty += PENALTY_RUN + run - 5;
+            run = 1;
+        }
+    }
+    for (let i = 0; i + 11 <= line.length; i++) {
+        for (const pattern of FINDER_LIKE) {
+            if (pattern.every((dark, k) => line[i + k] === dark)) penalty += PENALTY_FINDER_LIKE;
+        }
+    }
+    return penalty;
+}
+
+// Lower is easier to scan: long runs, 2x2 blocks, finder look-alikes and an uneven dark share cost
+function penalty(modules: boolean[][]): number {
+    const size = modules.length;
+    let result = 0;
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+        result += linePenalty(modules[y]);
+        result += linePenalty(modules.map(row => row[y]));
+        for (let x = 0; x < size; x++) {
+            if (modules[y][x]) dark++;
+            if (x + 1 < size && y + 1 < size) {
+                const c = modules[y][x];
+                if (modules[y][x + 1] === c && modules[y + 1][x] === c && modules[y + 1][x + 1] === c) result += PENALTY_BLOCK;
+            }
+        }
+    }
+    const total = size * size;
+    return result + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+}
+
+/**
+ * Encodes `text` (as UTF-8) in the smallest version that holds it, raising the error correction
+ * level while the version stays the same. Throws when the text is too long for any version.
+ */
+export function encodeQr(text: string, minEcl: QrErrorCorrection = 'M'): QrCode {
+    const bytes = new TextEncoder().encode(text);
+    const fits = (version: number, ecl: QrErrorCorrection) =>
+        4 + countBits(version) + bytes.length * 8 <= dataCodewords(version, ecl) * 8;
+
+    let version = MIN_VERSION;
+    while (!fits(version, minEcl)) {
+        if (version === MAX_VERSION) throw new Error(`Too long for a QR code (${bytes.length} bytes)`);
+        version++;
+    }
+    const levels: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+    let ecl = minEcl;
+    for (const higher of levels.slice(levels.indexOf(minEcl) + 1)) {
+        if (fits(version, higher)) ecl = higher;
+    }
+
+    const grid = createGrid(version * 4 + 17);
+    drawFunctionPatterns(grid, version);
+    drawCodewords(grid, addErrorCorrection(dataBits(bytes, version, ecl), version, ecl));
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        applyMask(grid, mask);
+        drawFormat(grid, ecl, mask);
+        const score = penalty(grid.modules);
+        if (score < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = score;
+        }
+        applyMask(grid, mask);
+    }
+    applyMask(grid, bestMask);
+    drawFormat(grid, ecl, bestMask);
+
+    return { version, size: grid.size, modules: grid.modules };
+}
+
+// SVG path of the dark modules, one unit per module, offset by a quiet zone of `margin` modules
+export function qrPath(code: QrCode, margin = 4): string {
+    const parts: string[] = [];
+    code.modules.forEach((row, y) => {
+        row.forEach((dark, x) => {
+            if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+        });
+    });
+    return parts.join("");
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { greedyOrder, percentSearch } from "./sequence";
+import type { PercentageCoupon } from "./coupons";
+
+const percent = (id: string, pct: number, count = 1, cap?: number): PercentageCoupon =>
+    cap === undefined
+        ? { id, kind: "percent", threshold: 0, percent: pct, count }
+        : { id, kind: "capped-percent", threshold: 0, percent: pct, cap, count };
+
+describe("percentage coupon search", () => {
+    it("tries every set and order of a few coupons", () => {
+        const search = percentSearch([percent("a", 10, 2), percent("b", 20)], 10000, 100);
+        expect(search.exhaustive).toBe(true);
+        expect(search.subsets).toHaveLength(6);
+    });
+
+    it("applies a capped coupon after the uncapped ones when that saves more", () => {
+        const coupons: Coupon[] = [percent("capped", 50, 1, 10), percent("plain", 20)];
+        const result = calculateOptimization(coupons, 100);
+        expect(result.totalDiscount).toBe(30);
+        expect(result.discountUpperBound).toBeUndefined();
+    });
+
+    it("falls back to the most valuable uses in a greedy order when there are too many", () => {
+        const coupons = Array.from({ length: 30 }, (_, i) => percent(`p${i}`, i + 1, 3));
+        const search = percentSearch(coupons, 10000, 100);
+        expect(search.exhaustive).toBe(false);
+        expect(search.subsets).toHaveLength(7);
+        expect(search.subsets[6].map(c => c.id)).toEqual(["p29", "p29", "p29", "p28", "p28", "p28"]);
+    });
+
+    it("reports an upper bound when the search was cut short", () => {
+        const coupons: Coupon[] = Array.from({ length: 30 }, (_, i) => percent(`p${i}`, i + 1, 3));
+        const started = Date.now();
+        const result = calculateOptimization(coupons, 1000);
+        expect(Date.now() - started).toBeLessThan(5000);
+        expect(result.totalDiscount).toBeGreaterThan(0);
+        expect(result.discountUpperBound).toBeGreaterThanOrEqual(result.totalDiscount);
+        expect(result.discountUpperBound).toBeLessThanOrEqual(1000);
+    });
+
+    it("orders greedily by what each use takes off the running price", () => {
+        const order = greedyOrder([percent("small", 5), percent("capped", 50, 1, 10), percent("big", 30)], 10000, 100);
+        expect(order.map(c => c.id)).toEqual(["big", "capped", "small"]);
+    });
+});
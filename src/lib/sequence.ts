@@ -0,0 +1,229 @@
+import type { AppliedStep, CouponUsage } from "../types";
+import { percentOff, type PercentageCoupon } from "./coupons";
+
+// Percentage coupon uses per order
+export const MAX_PERCENT_USES = 6;
+
+// Sets of percentage uses one search tries; with more, only the most valuable uses are combined
+export const MAX_PERCENT_SUBSETS = 256;
+
+// Orders (times the places for the fixed block) tried over all those sets; with more, each set
+// is applied largest discount first
+export const MAX_SEQUENCE_WORK = 50_000;
+
+// A fixed coupon (or one tier of a tiered coupon) used `count` times, worth `value` scaled units in total
+export interface FixedStep {
+    couponId: string;
+    tier?: number;
+    count: number;
+    value: number;
+}
+
+export interface SequenceResult {
+    // Scaled total discount
+    value: number;
+    steps: AppliedStep[];
+}
+
+// Distinct orderings of the percentage uses (copies of the same coupon are interchangeable)
+export function permutations(uses: PercentageCoupon[]): PercentageCoupon[][] {
+    const sorted = [...uses].sort((a, b) => a.id.localeCompare(b.id));
+    const used = new Array<boolean>(sorted.length).fill(false);
+    const current: PercentageCoupon[] = [];
+    const out: PercentageCoupon[][] = [];
+
+    const walk = () => {
+        if (current.length === sorted.length) {
+            out.push(current.slice());
+            return;
+        }
+        for (let i = 0; i < sorted.length; i++) {
+            if (used[i]) continue;
+            if (i > 0 && !used[i - 1] && sorted[i - 1].id === sorted[i].id) continue;
+            used[i] = true;
+            current.push(sorted[i]);
+            walk();
+            current.pop();
+            used[i] = false;
+        }
+    };
+    walk();
+    return out;
+}
+
+function pushStep(steps: AppliedStep[], couponId: string, tier: number | undefined, count: number, discount: number, priceAfter: number) {
+    const last = steps[steps.length - 1];
+    if (last && last.couponId === couponId && last.tier === tier) {
+        last.count += count;
+        last.discount += discount;
+        last.priceAfter = priceAfter;
+    } else {
+        const step: AppliedStep = { couponId, count, discount, priceAfter };
+        if (tier !== undefined) step.tier = tier;
+        steps.push(step);
+    }
+}
+
+// Distinct orderings of the uses, without listing them
+function permutationCount(uses: PercentageCoupon[]): number {
+    const copies = new Map<string, number>();
+    uses.forEach(c => copies.set(c.id, (copies.get(c.id) ?? 0) + 1));
+    let count = 1;
+    for (let i = 2; i <= uses.length; i++) count *= i;
+    for (const k of copies.values()) {
+        for (let i = 2; i <= k; i++) count /= i;
+    }
+    return count;
+}
+
+// Each use in turn takes the largest discount at the running price
+export function greedyOrder(uses: PercentageCoupon[], priceScaled: number, scale: number): PercentageCoupon[] {
+    const left = [...uses].sort((a, b) => a.id.localeCompare(b.id));
+    const order: PercentageCoupon[] = [];
+    let price = priceScaled;
+    while (left.length > 0) {
+        let pick = 0;
+        left.forEach((c, i) => {
+            if (percentOff(c, price, scale) > percentOff(left[pick], price, scale)) pick = i;
+        });
+        price -= percentOff(left[pick], price, scale);
+        order.push(...left.splice(pick, 1));
+    }
+    return order;
+}
+
+// Orders `bestSequence` tries: all of them, or the greedy one
+export function sequenceOrders(uses: PercentageCoupon[], exhaustive: boolean, priceScaled: number, scale: number): PercentageCoupon[][] {
+    return exhaustive ? permutations(uses) : [greedyOrder(uses, priceScaled, scale)];
+}
+
+/**
+ * Picks the checkout order of percentage coupons relative to each other and to the block of
+ * fixed coupons. Order matters because a percentage is taken from the running price and caps
+ * only bite on large bases. Unless `exhaustive`, only the greedy order is tried.
+ */
+export function bestSequence(
+    percents: PercentageCoupon[],
+    fixed: FixedStep[],
+    priceScaled: number,
+    scale: number,
+    exhaustive = true
+): SequenceResult {
+    let best: SequenceResult | null = null;
+
+    for (const order of sequenceOrders(percents, exhaustive, priceScaled, scale)) {
+        // The fixed block may go before, between or after the percentage coupons
+        for (let fixedAt = 0; fixedAt <= order.length; fixedAt++) {
+            let price = priceScaled;
+            const steps: AppliedStep[] = [];
+
+            const applyFixed = () => {
+                for (const f of fixed) {
+                    const off = Math.min(f.value, price);
+                    price -= off;
+                    pushStep(steps, f.couponId, f.tier, f.count, off, price);
+                }
+            };
+
+            order.forEach((c, i) => {
+                if (i === fixedAt) applyFixed();
+                const off = percentOff(c, price, scale);
+                price -= off;
+                pushStep(steps, c.id, undefined, 1, off, price);
+            });
+            if (fixedAt === order.length) applyFixed();
+
+            const value = priceScaled - price;
+            if (!best || value > best.value) {
+                best = { value, steps };
+            }
+        }
+    }
+
+    const result = best ?? { value: 0, steps: [] };
+    return {
+        value: result.value,
+        steps: result.steps.map(s => ({ ...s, discount: s.discount / scale, priceAfter: s.priceAfter / scale }))
+    };
+}
+
+// Every way of picking copies of the percentage coupons, up to MAX_PERCENT_USES in total
+function allPercentSubsets(coupons: PercentageCoupon[]): PercentageCoupon[][] {
+    const out: PercentageCoupon[][] = [];
+    const walk = (index: number, current: PercentageCoupon[]) => {
+        if (index === coupons.length) {
+            out.push(current);
+            return;
+        }
+        const c = coupons[index];
+        for (let k = 0; k <= c.count && current.length + k <= MAX_PERCENT_USES; k++) {
+            walk(index + 1, [...current, ...new Array<PercentageCoupon>(k).fill(c)]);
+        }
+    };
+    walk(0, []);
+    return out;
+}
+
+// How many sets allPercentSubsets would list, counted by the number of uses in them
+function percentSubsetCount(coupons: PercentageCoupon[]): number {
+    let ways = [1];
+    for (const c of coupons) {
+        const next = new Array<number>(Math.min(MAX_PERCENT_USES, ways.length - 1 + c.count) + 1).fill(0);
+        ways.forEach((w, used) => {
+            for (let k = 0; k <= c.count && used + k <= MAX_PERCENT_USES; k++) next[used + k] += w;
+        });
+        ways = next;
+    }
+    return ways.reduce((a, b) => a + b, 0);
+}
+
+// Copies of the percentage coupons, each at what it takes off `priceScaled`, most valuable first
+function rankedUses(coupons: PercentageCoupon[], priceScaled: number, scale: number): { coupon: PercentageCoupon; off: number }[] {
+    return coupons
+        .flatMap(c => new Array<PercentageCoupon>(Math.min(c.count, MAX_PERCENT_USES)).fill(c))
+        .map(coupon => ({ coupon, off: percentOff(coupon, priceScaled, scale) }))
+        .sort((a, b) => b.off - a.off || a.coupon.threshold - b.coupon.threshold || a.coupon.id.localeCompare(b.coupon.id))
+        .slice(0, MAX_PERCENT_USES);
+}
+
+// No set of uses takes more off a cart of `priceScaled` than this (scaled), in whatever order
+export function percentBound(coupons: PercentageCoupon[], priceScaled: number, scale: number): number {
+    return rankedUses(coupons, priceScaled, scale).reduce((sum, u) => sum + u.off, 0);
+}
+
+export interface PercentSearch {
+    subsets: PercentageCoupon[][];
+    // Every set and every order of it is tried (pass this on to bestSequence), so the search can be exact
+    exhaustive: boolean;
+}
+
+/**
+ * The sets of percentage uses to try on a cart of `priceScaled`. Within the limits above these
+ * are all of them; past them, the most valuable uses at that price taken 0, 1, 2, ... at a time.
+ */
+export function percentSearch(coupons: PercentageCoupon[], priceScaled: number, scale: number): PercentSearch {
+    if (percentSubsetCount(coupons) <= MAX_PERCENT_SUBSETS) {
+        const subsets = allPercentSubsets(coupons);
+        const work = subsets.reduce((sum, subset) => sum + permutationCount(subset) * (subset.length + 1), 0);
+        return { subsets, exhaustive: work <= MAX_SEQUENCE_WORK };
+    }
+    const ranked = rankedUses(coupons, priceScaled, scale).map(u => u.coupon);
+    return { subsets: ranked.map((_, k) => ranked.slice(0, k)).concat([ranked]), exhaustive: false };
+}
+
+// Total uses and discount per coupon (and tier), in order of first application
+export function usageFromSteps(steps: AppliedStep[]): CouponUsage[] {
+    const solution: CouponUsage[] = [];
+    for (const step of steps) {
+        const existing = solution.find(u => u.couponId === step.couponId && u.tier === step.tier);
+        if (existing) {
+            existing.count += step.count;
+            existing.discount += step.discount;
+        } else {
+            const usage: CouponUsage = { couponId: step.couponId, count: step.count, discount: step.discount };
+            if (step.tier !== undefined) usage.tier = step.tier;
+            solution.push(usage);
+        }
+    }
+    return solution;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { solveSequential } from "./sequential";
+
+describe("sequential thresholds", () => {
+    it("checks each threshold against the price left by the coupons before it", () => {
+        const coupons: Coupon[] = [
+            { id: "big", kind: "fixed", threshold: 90, discount: 30, count: 1 },
+            { id: "small", kind: "fixed", threshold: 80, discount: 10, count: 1 }
+        ];
+        // Taking 30 first leaves 70, below the other threshold; 10 first leaves 90, enough for both
+        const result = calculateOptimization(coupons, 100, { application: 'sequential' });
+        expect(result.totalDiscount).toBe(40);
+        expect(result.steps?.map(s => [s.couponId, s.priceAfter])).toEqual([["small", 90], ["big", 60]]);
+        expect(result.discountUpperBound).toBeUndefined();
+    });
+
+    it("applies a percentage while the price is still high", () => {
+        const coupons: Coupon[] = [
+            { id: "pct", kind: "percent", threshold: 0, percent: 10, count: 1 },
+            { id: "fixed", kind: "fixed", threshold: 50, discount: 20, count: 1 }
+        ];
+        const { value, steps } = solveSequential(coupons, 10000, 100);
+        // 10 then 20 off 100, against 20 then 8
+        expect(value).toBe(3000);
+        expect(steps.map(s => s.couponId)).toEqual(["pct", "fixed"]);
+    });
+
+    it("follows plans thousands of steps long without running out of stack", () => {
+        const coupons: Coupon[] = [{ id: "cent", kind: "fixed", threshold: 1, discount: 0.01, count: 20000 }];
+        const result = calculateOptimization(coupons, 1000, { application: 'sequential' });
+        expect(result.totalDiscount).toBeCloseTo(200, 6);
+        expect(result.steps).toHaveLength(20000);
+    });
+
+    it("reports an upper bound when the search is cut short", () => {
+        // Thresholds close to the price make most orders differ
+        const coupons: Coupon[] = Array.from({ length: 8 }, (_, i) => ({
+            id: `c${i}`, kind: "fixed", threshold: 50 + i * 7, discount: 3 + (i % 4), count: 6
+        }));
+        const { value, complete, upperBound } = solveSequential(coupons, 15000, 100);
+        expect(complete).toBe(false);
+        expect(value).toBeGreaterThan(0);
+        expect(upperBound).toBeGreaterThan(value);
+    });
+});
@@ -0,0 +1,210 @@
+import type { AppliedStep, Coupon, OptimizationResult, StackingRules } from "../types";
+import type { UsageCounts } from "./alternatives";
+import { fixedOptions, isPercentage, isUsable, percentOff } from "./coupons";
+import { toUnits } from "./currency";
+import { MAX_PERCENT_USES, usageFromSteps } from "./sequence";
+import { createStackingCheck, hasStackingRules } from "./stacking";
+
+// Search states (copies left, price) visited before settling for the best plan found
+const MAX_STATES = 300_000;
+
+// One use of a coupon: its fixed amount (or one tier's), or its percentage of the price at that point
+interface Move {
+    coupon: number;
+    couponId: string;
+    tier?: number;
+    // Scaled; checked against the price left by the coupons applied before
+    threshold: number;
+    off: (price: number) => number;
+}
+
+function movesOf(coupons: Coupon[], scale: number): Move[] {
+    const index = new Map(coupons.map((c, i) => [c, i]));
+    const moves: Move[] = fixedOptions(coupons).map(o => {
+        const value = toUnits(o.discount, scale);
+        return {
+            coupon: index.get(o.coupon)!,
+            couponId: o.coupon.id,
+            tier: o.tier,
+            threshold: toUnits(o.threshold, scale),
+            off: price => Math.min(value, price)
+        };
+    });
+    coupons.forEach((c, i) => {
+        if (isPercentage(c) && isUsable(c)) {
+            moves.push({ coupon: i, couponId: c.id, threshold: toUnits(c.threshold, scale), off: price => percentOff(c, price, scale) });
+        }
+    });
+    return moves;
+}
+
+// A state of the search: the price left, with the copies left as they are while it is on the stack
+interface Frame {
+    price: number;
+    key: string;
+    open: { i: number; off: number }[];
+    // No plan from here saves more
+    bound: number;
+    // Index into `open` of the next use to try, and of the one whose state is being solved (-1: none)
+    next: number;
+    pending: number;
+    // Best further discount so far, and the move that gets it
+    value: number;
+    move: number;
+}
+
+// Uses a coupon may take part in
+function copiesOf(c: Coupon): number {
+    if (!isUsable(c)) return 0;
+    return Math.floor(isPercentage(c) ? Math.min(c.count, MAX_PERCENT_USES) : c.count);
+}
+
+/**
+ * Best order and subset of coupon uses when every threshold is checked against the price after
+ * the coupons before it. `W` and the result are scaled. Each step is a single use, so the running
+ * price can be shown after each one.
+ */
+export function solveSequential(
+    coupons: Coupon[],
+    W: number,
+    scale: number,
+    rules?: StackingRules,
+    onProgress?: (fraction: number) => void
+): { value: number; steps: AppliedStep[]; complete: boolean; upperBound: number } {
+    const moves = movesOf(coupons, scale);
+    const left = coupons.map(copiesOf);
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+    const usage: UsageCounts = new Map();
+
+    // Best further discount from a state, and the move that gets it (-1: stop here)
+    const memo = new Map<string, { value: number; move: number }>();
+    const keyOf = (price: number) => `${left.join(",")}|${price}`;
+    let complete = true;
+
+    const take = (m: Move, delta: number) => {
+        left[m.coupon] -= delta;
+        usage.set(m.couponId, (usage.get(m.couponId) ?? 0) + delta);
+    };
+
+    // States being solved, depth first. The stack is explicit because thousands of cheap copies
+    // make a plan thousands of steps long.
+    const stack: Frame[] = [];
+
+    // The value of a state already solved (or given up on), or undefined once it is pushed
+    const enter = (price: number): number | undefined => {
+        const key = keyOf(price);
+        const known = memo.get(key);
+        if (known) return known.value;
+        if (memo.size >= MAX_STATES) {
+            complete = false;
+            return 0;
+        }
+
+        // Uses open at this price, larger discounts first so the bound below is met early
+        const open = moves
+            .map((m, i) => ({ i, off: left[m.coupon] > 0 && m.threshold <= price ? m.off(price) : 0 }))
+            .filter(o => o.off > 0)
+            .sort((a, b) => b.off - a.off);
+        // No plan from here takes more than every copy left at its largest discount now
+        const most = coupons.map(() => 0);
+        for (const o of open) most[moves[o.i].coupon] = Math.max(most[moves[o.i].coupon], o.off);
+        const bound = Math.min(price, most.reduce((sum, off, c) => sum + off * left[c], 0));
+
+        stack.push({ price, key, open, bound, next: 0, pending: -1, value: 0, move: -1 });
+        return undefined;
+    };
+
+    let value = enter(W) ?? 0;
+    while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const settle = (k: number, further: number) => {
+            const { i, off } = frame.open[k];
+            if (off + further > frame.value) {
+                frame.value = off + further;
+                frame.move = i;
+            }
+            take(moves[i], -1);
+        };
+        // The state below this one is solved
+        if (frame.pending >= 0) {
+            settle(frame.pending, value);
+            frame.pending = -1;
+        }
+
+        while (frame.next < frame.open.length && frame.value < frame.bound) {
+            const k = frame.next++;
+            const { i, off } = frame.open[k];
+            take(moves[i], 1);
+            // The rules only limit how many coupons are used, so a plan they reject can't be extended
+            if (check && !check(usage)) {
+                take(moves[i], -1);
+                continue;
+            }
+            const further = enter(frame.price - off);
+            if (further === undefined) {
+                frame.pending = k;
+                break;
+            }
+            settle(k, further);
+        }
+        if (frame.pending >= 0) continue;
+
+        stack.pop();
+        memo.set(frame.key, { value: frame.value, move: frame.move });
+        if (onProgress && memo.size % 1024 === 0) onProgress(memo.size / MAX_STATES);
+        value = frame.value;
+    }
+
+    // Follow the chosen moves from the start
+    const steps: AppliedStep[] = [];
+    let price = W;
+    for (let step = memo.get(keyOf(price)); step && step.move >= 0; step = memo.get(keyOf(price))) {
+        const m = moves[step.move];
+        const off = m.off(price);
+        price -= off;
+        left[m.coupon]--;
+        const applied: AppliedStep = { couponId: m.couponId, count: 1, discount: off / scale, priceAfter: price / scale };
+        if (m.tier !== undefined) applied.tier = m.tier;
+        steps.push(applied);
+    }
+
+    // Without the order mattering: every copy at its largest discount on the full price
+    let upperBound = 0;
+    if (!complete) {
+        coupons.forEach((c, i) => {
+            const most = Math.max(0, ...moves.filter(m => m.coupon === i && m.threshold <= W).map(m => m.off(W)));
+            upperBound += most * copiesOf(c);
+        });
+        upperBound = Math.max(value, Math.min(W, upperBound));
+    }
+    // A search cut short may still have reached the bound
+    const proven = complete || value >= upperBound;
+    return { value, steps, complete: proven, upperBound: proven ? value : upperBound };
+}
+
+// A single order under sequential thresholds, in the shape calculateOptimization returns
+export function planSequential(
+    coupons: Coupon[],
+    totalPrice: number,
+    scale: number,
+    onProgress?: (fraction: number) => void,
+    rules?: StackingRules
+): OptimizationResult {
+    const W = toUnits(totalPrice, scale);
+    if (!(W > 0)) {
+        return { totalOriginal: totalPrice, totalDiscount: 0, finalPrice: totalPrice, solution: [] };
+    }
+    const plan = solveSequential(coupons, W, scale, rules, onProgress);
+    const totalDiscount = plan.value / scale;
+    return {
+        totalOriginal: totalPrice,
+        totalDiscount,
+        finalPrice: totalPrice - totalDiscount,
+        solution: usageFromSteps(plan.steps),
+        steps: plan.steps,
+        discountUpperBound: plan.complete ? undefined : plan.upperBound / scale,
+        warning: plan.complete
+            ? undefined
+            : "Too many coupon orders to search exhaustively. Showing the best order found."
+    };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { AppState, Coupon } from "../types";
+import { decodeShareLink, emptyState, encodeShareLink } from "./shareLink";
+
+// Ids are not part of a link; coupons and participants get new ones when read
+const withoutIds = (coupons: Coupon[]) => coupons.map(c => ({ ...c, id: undefined, ownerId: c.ownerId && "owner" }));
+
+const base64Json = (value: unknown) => btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+describe("share links", () => {
+    const state: AppState = {
+        ...emptyState(),
+        currency: "JPY",
+        total: 12000,
+        coupons: [
+            { id: "a", kind: "fixed", threshold: 5000, discount: 500, count: 2, expiresOn: "2026-12-31", stackGroup: "store" },
+            { id: "b", kind: "capped-percent", threshold: 0, percent: 7.5, cap: 1000, count: 1, label: "App", ownerId: "g1" },
+            { id: "c", kind: "tiered", threshold: 3000, count: 1, tiers: [{ threshold: 3000, discount: 200 }, { threshold: 8000, discount: 900 }] }
+        ],
+        group: { scheme: 'coupons', participants: [{ id: "g1", name: "Aki", subtotal: 7000 }, { id: "g2", name: "Ben", subtotal: 5000 }] },
+        application: 'sequential',
+        rules: { maxCoupons: 3 }
+    };
+
+    it("reads back what it wrote", () => {
+        const { state: decoded, errors, participantId } = decodeShareLink(`?${encodeShareLink(state, "g2")}`);
+        expect(errors).toEqual([]);
+        const [aki, ben] = decoded.group.participants;
+        expect(participantId).toBe(ben.id);
+        expect(decoded.coupons[1].ownerId).toBe(aki.id);
+        expect(withoutIds(decoded.coupons)).toEqual(withoutIds(state.coupons));
+        expect(decoded.group.participants.map(p => [p.name, p.subtotal])).toEqual([["Aki", 7000], ["Ben", 5000]]);
+        expect({ ...decoded, coupons: [], group: state.group }).toEqual({ ...state, coupons: [], rules: { maxCoupons: 3, groupLimits: undefined } });
+    });
+
+    it("rejects a link that was changed on the way", () => {
+        const link = encodeShareLink(state);
+        const damaged = link.slice(0, 10) + (link[10] === "A" ? "B" : "A") + link.slice(11);
+        const { state: decoded, errors } = decodeShareLink(`?${damaged}`);
+        expect(decoded).toEqual(emptyState());
+        expect(errors[0]).toMatch(/damaged/);
+    });
+
+    it("upgrades a version 2 link", () => {
+        // Written by the version 2 encoder: a tiered coupon scoped to an item and a capped percentage
+        const { state: decoded, errors } = decodeShareLink("?s=AgEwA0VVUtHhAQAQAAEGS2V0dGxlwAcgAQdraXRjaGVuACAAAgMDwAwgAsAMoAHgEsACCRsdAQAKMjAyNi0xMi0zMQIQoAYQoAFQB1dlbGNvbWUAGouQ8w");
+        expect(errors).toEqual([]);
+        expect(decoded.currency).toBe("EUR");
+        expect(decoded.total).toBe(180.5);
+        expect(decoded.items.map(i => [i.name, i.price, i.quantity])).toEqual([["Kettle", 60, 2]]);
+        expect(withoutIds(decoded.coupons)).toEqual([
+            {
+                id: undefined,
+                kind: "tiered",
+                threshold: 100,
+                count: 2,
+                tiers: [{ threshold: 100, discount: 10 }, { threshold: 150, discount: 20 }],
+                expiresOn: "2026-12-31",
+                scope: { categories: ["kitchen"], itemIds: [decoded.items[0].id] }
+            },
+            { id: undefined, kind: "capped-percent", threshold: 50, percent: 10, cap: 5, count: 1, label: "Welcome" }
+        ]);
+        // Added after version 2
+        expect(decoded.group).toEqual(emptyState().group);
+        expect(decoded.application).toBe('independent');
+    });
+
+    it("upgrades a version 1 link, taking a tiered coupon's threshold from its tiers", () => {
+        const coupons = [[0, [[200, 15], [100, 5]], 1, null, 3], [50, 10, 2]];
+        const { state: decoded, errors } = decodeShareLink(`?cur=usd&t=250&c=${base64Json(coupons)}`);
+        expect(errors).toEqual([]);
+        expect(decoded.currency).toBe("USD");
+        expect(withoutIds(decoded.coupons)).toEqual([
+            { id: undefined, kind: "tiered", threshold: 100, count: 1, tiers: [{ threshold: 200, discount: 15 }, { threshold: 100, discount: 5 }] },
+            { id: undefined, kind: "fixed", threshold: 50, discount: 10, count: 2 }
+        ]);
+    });
+
+    it("explains coupons in the unversioned format instead of guessing", () => {
+        const { state: decoded, errors } = decodeShareLink("?t=100&c=50:5");
+        expect(decoded.coupons).toEqual([]);
+        expect(errors[0]).toMatch(/can't be read/);
+    });
+});
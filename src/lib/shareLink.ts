@@ -0,0 +1,510 @@
+import type { AppState, CartItem, Coupon, CouponKind, Participant, PlannedPurchase, SplitScheme } from "../types";
+import { lowestTier } from "./coupons";
+import { DEFAULT_CURRENCY, isKnownCurrency } from "./currency";
+import { DEFAULT_ORDER_SETTINGS, LEGACY_PARAMS, NO_GROUP, readLegacyParams } from "./shareLinkLegacy";
+import { describeErrors } from "./validation";
+
+// A share link is `?s=<payload>`, the payload being URL safe Base64 of
+//   version (varint) | flags (byte) | body | CRC-32 of everything before it (4 bytes, big endian)
+// Version 1 was the older one-parameter-per-part format, read by shareLinkLegacy.ts.
+// Version 3 added group orders, version 4 the threshold application rule.
+export const SHARE_VERSION = 4;
+
+const PARAM = "s";
+// Flag: the body is LZ compressed
+const COMPRESSED = 1;
+
+// Position in this list is the kind code stored in the link
+const KIND_CODES: CouponKind[] = ['fixed', 'percent', 'capped-percent', 'tiered'];
+
+// Optional coupon fields present, one bit each
+const HAS_SCOPE = 1;
+const HAS_EXPIRY = 2;
+const HAS_GROUP = 4;
+const NON_STACKABLE = 8;
+const HAS_LABEL = 16;
+const HAS_OWNER = 32;
+
+// Position in this list is the split scheme code stored in the link
+const SCHEME_CODES: SplitScheme[] = ['spend', 'coupons', 'shapley'];
+
+// Optional query parameter naming the participant (by position) a link was sent to
+const FOR_PARAM = "for";
+
+export interface DecodedState {
+    state: AppState;
+    // Problems worth telling the user about; the parts concerned are left empty
+    errors: string[];
+    // Group orders: the participant the link was sent to
+    participantId?: string;
+}
+
+export function emptyState(): AppState {
+    return {
+        currency: DEFAULT_CURRENCY,
+        total: 0,
+        coupons: [],
+        items: [],
+        mode: 'basket',
+        orders: DEFAULT_ORDER_SETTINGS,
+        purchases: [],
+        rules: {},
+        group: NO_GROUP,
+        application: 'independent'
+    };
+}
+
+// Upgrades a state read from a link of version `v` to what version `v + 1` means by it
+const MIGRATIONS: Record<number, (state: AppState) => AppState> = {
+    // Version 1 stored a tiered coupon's threshold separately from its tiers
+    1: state => ({
+        ...state,
+        coupons: state.coupons.map(c => (c.kind === 'tiered' ? { ...c, threshold: lowestTier(c.tiers) } : c))
+    })
+};
+
+function migrate(state: AppState, version: number): AppState {
+    for (let v = version; v < SHARE_VERSION; v++) {
+        // Versions that only added fields read the old links as they are
+        state = MIGRATIONS[v]?.(state) ?? state;
+    }
+    return state;
+}
+
+function createWriter() {
+    const bytes: number[] = [];
+
+    // Unsigned LEB128
+    const uint = (n: number) => {
+        do {
+            let b = n % 128;
+            n = Math.floor(n / 128);
+            if (n > 0) b |= 0x80;
+            bytes.push(b);
+        } while (n > 0);
+    };
+
+    // Exact decimals: zigzag mantissa * 8 + decimal places (0-6). Places 7 marks a missing number.
+    const number = (x: number | undefined) => {
+        if (x === undefined || !Number.isFinite(x)) {
+            uint(7);
+            return;
+        }
+        let places = 0;
+        while (places < 6 && !Number.isInteger(Number((x * 10 ** places).toPrecision(15)))) places++;
+        const mantissa = Math.round(x * 10 ** places);
+        uint((mantissa >= 0 ? mantissa * 2 : -mantissa * 2 - 1) * 8 + places);
+    };
+
+    const string = (text: string) => {
+        const encoded = new TextEncoder().encode(text);
+        uint(encoded.length);
+        encoded.forEach(b => bytes.push(b));
+    };
+
+    const raw = (data: Uint8Array) => {
+        data.forEach(b => bytes.push(b));
+    };
+
+    return { uint, number, string, raw, bytes: () => Uint8Array.from(bytes) };
+}
+
+function createReader(bytes: Uint8Array) {
+    let at = 0;
+
+    const byte = (): number => {
+        if (at >= bytes.length) throw new Error("This share link is cut off.");
+        return bytes[at++];
+    };
+
+    const uint = (): number => {
+        let value = 0;
+        let factor = 1;
+        for (;;) {
+            const b = byte();
+            value += (b & 0x7f) * factor;
+            if (!(b & 0x80)) return value;
+            factor *= 128;
+            if (factor > 2 ** 56) throw new Error("This share link is damaged.");
+        }
+    };
+
+    const number = (): number => {
+        const v = uint();
+        const places = v % 8;
+        if (places === 7) return NaN;
+        const zigzag = Math.floor(v / 8);
+        const mantissa = zigzag % 2 ? -(zigzag + 1) / 2 : zigzag / 2;
+        return mantissa / 10 ** places;
+    };
+
+    const raw = (length: number): Uint8Array => {
+        if (at + length > bytes.length) throw new Error("This share link is cut off.");
+        at += length;
+        return bytes.subarray(at - length, at);
+    };
+
+    const string = (): string => new TextDecoder().decode(raw(uint()));
+
+    const rest = (): Uint8Array => raw(bytes.length - at);
+
+    return { byte, uint, number, string, raw, rest, done: () => at >= bytes.length };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const b of bytes) {
+        crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+const MIN_MATCH = 4;
+const WINDOW = 1 << 12;
+// No real link expands to more than this; a larger body means the data is bad
+const MAX_BODY = 1 << 22;
+
+/**
+ * Byte-oriented LZ77: a run of sequences (literal count, literals, match length, match distance).
+ * A match length of 0 ends the stream. Repeated field layouts and names shrink well.
+ */
+function compress(input: Uint8Array): Uint8Array {
+    const out = createWriter();
+    // Last position of every 4-byte prefix seen so far
+    const last = new Map<number, number>();
+    let literalStart = 0;
+    let i = 0;
+    while (i + MIN_MATCH <= input.length) {
+        const key = input[i] | (input[i + 1] << 8) | (input[i + 2] << 16) | (input[i + 3] << 24);
+        const candidate = last.get(key);
+        last.set(key, i);
+        if (candidate === undefined || i - candidate > WINDOW) {
+            i++;
+            continue;
+        }
+        let length = 0;
+        while (i + length < input.length && input[candidate + length] === input[i + length]) length++;
+        if (length < MIN_MATCH) {
+            i++;
+            continue;
+        }
+        out.uint(i - literalStart);
+        out.raw(input.subarray(literalStart, i));
+        out.uint(length);
+        out.uint(i - candidate);
+        i += length;
+        literalStart = i;
+    }
+    out.uint(input.length - literalStart);
+    out.raw(input.subarray(literalStart));
+    out.uint(0);
+    return out.bytes();
+}
+
+function decompress(input: Uint8Array): Uint8Array {
+    const reader = createReader(input);
+    const out: number[] = [];
+    for (;;) {
+        reader.raw(reader.uint()).forEach(b => out.push(b));
+        const length = reader.uint();
+        if (length === 0) break;
+        const distance = reader.uint();
+        if (distance === 0 || distance > out.length || out.length + length > MAX_BODY) {
+            throw new Error("This share link is damaged.");
+        }
+        // Byte by byte: a match may overlap the bytes it produces
+        for (let k = 0; k < length; k++) {
+            out.push(out[out.length - distance]);
+        }
+    }
+    return Uint8Array.from(out);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach(b => {
+        binary += String.fromCharCode(b);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+    let base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+    while (base64.length % 4) {
+        base64 += "=";
+    }
+    const binary = atob(base64);
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+function writeBody(state: AppState): Uint8Array {
+    const w = createWriter();
+    w.string(state.currency);
+    w.number(state.total);
+    w.uint(state.mode === 'orders' ? 1 : 0);
+    w.number(state.orders.maxCouponsPerOrder);
+    w.number(state.orders.orderFee);
+
+    w.uint(state.items.length);
+    for (const item of state.items) {
+        w.string(item.name);
+        w.number(item.price);
+        w.number(item.quantity);
+        w.uint(item.categories.length);
+        item.categories.forEach(w.string);
+    }
+
+    w.uint(state.purchases.length);
+    for (const p of state.purchases) {
+        w.string(p.date);
+        w.number(p.amount);
+        w.string(p.label ?? "");
+    }
+
+    w.number(state.rules.maxCoupons);
+    const groupLimits = Object.entries(state.rules.groupLimits ?? {});
+    w.uint(groupLimits.length);
+    for (const [group, limit] of groupLimits) {
+        w.string(group);
+        w.number(limit);
+    }
+
+    const { participants } = state.group;
+    w.uint(participants.length);
+    for (const p of participants) {
+        w.string(p.name);
+        w.number(p.subtotal);
+    }
+    w.uint(SCHEME_CODES.indexOf(state.group.scheme));
+    w.uint(state.application === 'sequential' ? 1 : 0);
+
+    w.uint(state.coupons.length);
+    for (const c of state.coupons) {
+        // Owners are referenced by position in the participant list
+        const owner = participants.findIndex(p => p.id === c.ownerId);
+        const flags = (c.scope ? HAS_SCOPE : 0)
+            | (c.expiresOn ? HAS_EXPIRY : 0)
+            | (c.stackGroup ? HAS_GROUP : 0)
+            | (c.nonStackable ? NON_STACKABLE : 0)
+            | (c.label ? HAS_LABEL : 0)
+            | (owner >= 0 ? HAS_OWNER : 0);
+        w.uint(KIND_CODES.indexOf(c.kind));
+        w.uint(flags);
+        w.number(c.threshold);
+        w.number(c.count);
+        switch (c.kind) {
+            case 'fixed':
+                w.number(c.discount);
+                break;
+            case 'percent':
+                w.number(c.percent);
+                break;
+            case 'capped-percent':
+                w.number(c.percent);
+                w.number(c.cap);
+                break;
+            case 'tiered':
+                w.uint(c.tiers.length);
+                for (const t of c.tiers) {
+                    w.number(t.threshold);
+                    w.number(t.discount);
+                }
+                break;
+        }
+        if (c.scope) {
+            const categories = c.scope.categories ?? [];
+            // Items are referenced by position in the link's item list
+            const indexes = (c.scope.itemIds ?? [])
+                .map(id => state.items.findIndex(i => i.id === id))
+                .filter(idx => idx >= 0);
+            w.uint(categories.length);
+            categories.forEach(w.string);
+            w.uint(indexes.length);
+            indexes.forEach(w.uint);
+        }
+        if (c.expiresOn) w.string(c.expiresOn);
+        if (c.stackGroup) w.string(c.stackGroup);
+        if (c.label) w.string(c.label);
+        if (owner >= 0) w.uint(owner);
+    }
+    return w.bytes();
+}
+
+function readBody(bytes: Uint8Array, version: number): AppState {
+    const r = createReader(bytes);
+    const stamp = Date.now();
+    const list = <T>(read: (idx: number) => T): T[] => Array.from({ length: r.uint() }, (_, idx) => read(idx));
+
+    const currency = r.string();
+    const total = r.number();
+    const mode = r.uint() === 1 ? 'orders' : 'basket';
+    const orders = { maxCouponsPerOrder: r.number(), orderFee: r.number() };
+
+    const items = list((idx): CartItem => ({
+        id: `i-${stamp}-${idx}`,
+        name: r.string(),
+        price: r.number(),
+        quantity: r.number(),
+        categories: list(() => r.string())
+    }));
+
+    const purchases = list((idx): PlannedPurchase => {
+        const purchase: PlannedPurchase = { id: `p-${stamp}-${idx}`, date: r.string(), amount: r.number() };
+        const label = r.string();
+        if (label) purchase.label = label;
+        return purchase;
+    });
+
+    const maxCoupons = r.number();
+    const groupLimits = Object.fromEntries(list(() => [r.string(), r.number()] as const));
+
+    let group = NO_GROUP;
+    if (version >= 3) {
+        const participants = list((idx): Participant => ({ id: `g-${stamp}-${idx}`, name: r.string(), subtotal: r.number() }));
+        group = { participants, scheme: SCHEME_CODES[r.uint()] ?? 'spend' };
+    }
+    const application = version >= 4 && r.uint() === 1 ? 'sequential' : 'independent';
+
+    const coupons = list((idx): Coupon => {
+        const kind = KIND_CODES[r.uint()];
+        if (!kind) throw new Error("This share link contains a coupon type this version doesn't know.");
+        const flags = r.uint();
+        const base = { id: `c-${stamp}-${idx}`, threshold: r.number(), count: r.number() };
+        let coupon: Coupon;
+        switch (kind) {
+            case 'fixed':
+                coupon = { ...base, kind, discount: r.number() };
+                break;
+            case 'percent':
+                coupon = { ...base, kind, percent: r.number() };
+                break;
+            case 'capped-percent':
+                coupon = { ...base, kind, percent: r.number(), cap: r.number() };
+                break;
+            case 'tiered':
+                coupon = { ...base, kind, tiers: list(() => ({ threshold: r.number(), discount: r.number() })) };
+                break;
+        }
+        if (flags & HAS_SCOPE) {
+            coupon.scope = {
+                categories: list(() => r.string()),
+                itemIds: list(() => items[r.uint()]?.id).filter((id): id is string => !!id)
+            };
+        }
+        if (flags & HAS_EXPIRY) coupon.expiresOn = r.string();
+        if (flags & HAS_GROUP) coupon.stackGroup = r.string();
+        if (flags & NON_STACKABLE) coupon.nonStackable = true;
+        if (flags & HAS_LABEL) coupon.label = r.string();
+        if (flags & HAS_OWNER) {
+            const owner = group.participants[r.uint()];
+            if (owner) coupon.ownerId = owner.id;
+        }
+        return coupon;
+    });
+
+    if (!r.done()) throw new Error("This share link has unexpected data at the end.");
+
+    return {
+        currency: isKnownCurrency(currency) ? currency.toUpperCase() : DEFAULT_CURRENCY,
+        total: isNaN(total) ? 0 : total,
+        coupons,
+        items,
+        mode,
+        orders,
+        purchases,
+        rules: {
+            maxCoupons: isNaN(maxCoupons) ? undefined : maxCoupons,
+            groupLimits: Object.keys(groupLimits).length > 0 ? groupLimits : undefined
+        },
+        group,
+        application
+    };
+}
+
+// Body readers by version; each version's result is migrated up to the current one
+const READERS: Record<number, (body: Uint8Array) => AppState> = {
+    2: body => readBody(body, 2),
+    3: body => readBody(body, 3),
+    4: body => readBody(body, 4)
+};
+
+// Query string (without the leading ?) that decodeShareLink reads back, optionally addressed to
+// one of the group order's participants
+export function encodeShareLink(state: AppState, participantId?: string): string {
+    const body = writeBody(state);
+    const packed = compress(body);
+    const header = createWriter();
+    header.uint(SHARE_VERSION);
+    header.uint(packed.length < body.length ? COMPRESSED : 0);
+    header.raw(packed.length < body.length ? packed : body);
+
+    const bytes = header.bytes();
+    const crc = crc32(bytes);
+    const payload = new Uint8Array(bytes.length + 4);
+    payload.set(bytes);
+    new DataView(payload.buffer).setUint32(bytes.length, crc);
+    const recipient = state.group.participants.findIndex(p => p.id === participantId);
+    return `${PARAM}=${toBase64Url(payload)}${recipient >= 0 ? `&${FOR_PARAM}=${recipient}` : ""}`;
+}
+
+function readPayload(encoded: string): AppState {
+    let payload: Uint8Array;
+    try {
+        payload = fromBase64Url(encoded);
+    } catch {
+        throw new Error("This share link is damaged.");
+    }
+    if (payload.length < 6) throw new Error("This share link is cut off.");
+
+    const bytes = payload.subarray(0, payload.length - 4);
+    const expected = new DataView(payload.buffer, payload.byteOffset).getUint32(payload.length - 4);
+    if (crc32(bytes) !== expected) {
+        throw new Error("This share link is damaged or incomplete. Ask for the link again.");
+    }
+
+    const header = createReader(bytes);
+    const version = header.uint();
+    const flags = header.uint();
+    if (version > SHARE_VERSION) {
+        throw new Error("This share link was made by a newer version of the app. Reload the page and try again.");
+    }
+    const read = READERS[version];
+    if (!read) throw new Error(`Share links of version ${version} can't be read.`);
+
+    const rest = header.rest();
+    const body = flags & COMPRESSED ? decompress(rest) : rest;
+    return migrate(read(body), version);
+}
+
+/**
+ * Reads the state from a query string such as `window.location.search`, upgrading links made by
+ * older versions. A link that can't be read at all gives the empty state. Inputs the solver would
+ * leave out are kept, so they can be fixed, and named in `errors`.
+ */
+export function decodeShareLink(search: string): DecodedState {
+    const params = new URLSearchParams(search);
+    const payload = params.get(PARAM);
+    if (payload !== null) {
+        try {
+            const state = readPayload(payload);
+            const recipient = state.group.participants[Number(params.get(FOR_PARAM) ?? NaN)];
+            return { state, errors: describeErrors(state), participantId: recipient?.id };
+        } catch (e) {
+            return { state: emptyState(), errors: [e instanceof Error ? e.message : String(e)] };
+        }
+    }
+    if (LEGACY_PARAMS.some(p => params.has(p))) {
+        const errors: string[] = [];
+        const state = migrate(readLegacyParams(params, errors), 1);
+        return { state, errors: [...errors, ...describeErrors(state)] };
+    }
+    return { state: emptyState(), errors: [] };
+}
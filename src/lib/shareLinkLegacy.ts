@@ -0,0 +1,195 @@
+import type { AppState, CartItem, Coupon, CouponKind, CouponTier, GroupSettings, OrderSplitSettings, PlannedPurchase, StackingRules } from "../types";
+import { DEFAULT_CURRENCY, isKnownCurrency } from "./currency";
+
+// Version 1 links: one query parameter per part, most of them Base64 JSON tuples.
+// Only read now; new links use the binary format in shareLink.ts.
+
+export const DEFAULT_ORDER_SETTINGS: OrderSplitSettings = { maxCouponsPerOrder: 1, orderFee: 0 };
+export const NO_GROUP: GroupSettings = { participants: [], scheme: 'spend' };
+
+// Position in this list is the kind code stored in the link
+const KIND_CODES: CouponKind[] = ['fixed', 'percent', 'capped-percent', 'tiered'];
+
+// Parameters only version 1 links have
+export const LEGACY_PARAMS = ["cur", "t", "c", "i", "o", "p", "r"];
+
+function fromBase64Url(encoded: string): string {
+    let base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+    // Pad with =
+    while (base64.length % 4) {
+        base64 += "=";
+    }
+    const binary = atob(base64);
+    return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+}
+
+/**
+ * Reads a version 1 query string. Parts that can't be read are left empty and named in `errors`.
+ */
+export function readLegacyParams(params: URLSearchParams, errors: string[]): AppState {
+    const currencyParam = params.get("cur");
+    const totalParam = params.get("t");
+    const couponsParam = params.get("c");
+    const itemsParam = params.get("i");
+    const ordersParam = params.get("o");
+    const purchasesParam = params.get("p");
+    const rulesParam = params.get("r");
+
+    let newTotal = 0;
+    let newCoupons: Coupon[] = [];
+    let newItems: CartItem[] = [];
+    let newOrders = DEFAULT_ORDER_SETTINGS;
+    let newPurchases: PlannedPurchase[] = [];
+    let newRules: StackingRules = {};
+
+    if (totalParam) {
+        const parsed = parseFloat(totalParam);
+        if (!isNaN(parsed)) newTotal = parsed;
+    }
+
+    // Orders mode: o=<coupons per order>,<fee per order>
+    if (ordersParam) {
+        const [limit, fee] = ordersParam.split(",").map(Number);
+        newOrders = {
+            maxCouponsPerOrder: isNaN(limit) ? DEFAULT_ORDER_SETTINGS.maxCouponsPerOrder : limit,
+            orderFee: isNaN(fee) ? DEFAULT_ORDER_SETTINGS.orderFee : fee
+        };
+    }
+
+    if (itemsParam) {
+        try {
+            const data = JSON.parse(fromBase64Url(itemsParam));
+            if (Array.isArray(data)) {
+                newItems = data.map((item: unknown, idx: number) => {
+                    if (Array.isArray(item) && item.length >= 3) {
+                        return {
+                            id: `i-${Date.now()}-${idx}`,
+                            name: String(item[0]),
+                            price: Number(item[1]),
+                            quantity: Number(item[2]),
+                            categories: Array.isArray(item[3]) ? item[3].map(String) : []
+                        };
+                    }
+                    return null;
+                }).filter((i): i is CartItem => i !== null);
+            }
+        } catch {
+            errors.push("The cart items in this link could not be read.");
+        }
+    }
+
+    // Planned purchases: [[date, amount, label?], ...]
+    if (purchasesParam) {
+        try {
+            const data = JSON.parse(fromBase64Url(purchasesParam));
+            if (Array.isArray(data)) {
+                newPurchases = data.map((entry: unknown, idx: number) => {
+                    if (Array.isArray(entry) && entry.length >= 2) {
+                        const purchase: PlannedPurchase = {
+                            id: `p-${Date.now()}-${idx}`,
+                            date: String(entry[0]),
+                            amount: Number(entry[1])
+                        };
+                        if (typeof entry[2] === "string") purchase.label = entry[2];
+                        return purchase;
+                    }
+                    return null;
+                }).filter((p): p is PlannedPurchase => p !== null);
+            }
+        } catch {
+            errors.push("The planned purchases in this link could not be read.");
+        }
+    }
+
+    // Stacking rules: [maxCoupons | null, {group: limit}?]
+    if (rulesParam) {
+        try {
+            const data = JSON.parse(fromBase64Url(rulesParam));
+            if (Array.isArray(data)) {
+                if (typeof data[0] === "number") newRules.maxCoupons = data[0];
+                if (data[1] && typeof data[1] === "object") {
+                    newRules.groupLimits = Object.fromEntries(
+                        Object.entries(data[1] as Record<string, unknown>)
+                            .filter(([, limit]) => typeof limit === "number")
+                            .map(([group, limit]) => [group, limit as number])
+                    );
+                }
+            }
+        } catch {
+            errors.push("The stacking rules in this link could not be read.");
+            newRules = {};
+        }
+    }
+
+    if (couponsParam) {
+        // "threshold:discount" pairs predate version 1 and are not documented anywhere
+        if (couponsParam.includes(":")) {
+            errors.push("The coupons in this link use a format from before share links were versioned and can't be read.");
+        } else {
+            try {
+                // Base64 URL Safe of JSON [[threshold, value, count, scope?, kind?, cap?, expiresOn?, stackGroup?, nonStackable?], ...]
+                // scope is [categories, itemIndexes] referencing the `i` parameter, or null.
+                // Optional trailing fields are dropped, skipped ones in between are null.
+                // value is the amount off, the percentage for percentage kinds, or [[threshold, amount off], ...] for tiers.
+                const data = JSON.parse(fromBase64Url(couponsParam));
+
+                if (Array.isArray(data)) {
+                    newCoupons = data.map((item: unknown, idx: number) => {
+                        if (Array.isArray(item) && item.length >= 3) {
+                            const base = {
+                                id: `c-${Date.now()}-${idx}`,
+                                threshold: Number(item[0]),
+                                count: Number(item[2])
+                            };
+                            const value = Number(item[1]);
+                            const kind = KIND_CODES[Number(item[4] ?? 0)] ?? 'fixed';
+                            const coupon: Coupon = kind === 'fixed'
+                                ? { ...base, kind, discount: value }
+                                : kind === 'percent'
+                                    ? { ...base, kind, percent: value }
+                                    : kind === 'capped-percent'
+                                        ? { ...base, kind, percent: value, cap: Number(item[5]) }
+                                        : {
+                                            ...base,
+                                            kind,
+                                            tiers: Array.isArray(item[1])
+                                                ? item[1].map((t: unknown) => (Array.isArray(t) ? { threshold: Number(t[0]), discount: Number(t[1]) } : null))
+                                                    .filter((t): t is CouponTier => t !== null)
+                                                : []
+                                        };
+                            if (typeof item[6] === "string") coupon.expiresOn = item[6];
+                            if (typeof item[7] === "string") coupon.stackGroup = item[7];
+                            if (item[8] === 1) coupon.nonStackable = true;
+                            if (Array.isArray(item[3])) {
+                                const [categories, itemIndexes] = item[3];
+                                coupon.scope = {
+                                    categories: Array.isArray(categories) ? categories.map(String) : [],
+                                    itemIds: Array.isArray(itemIndexes)
+                                        ? itemIndexes.map(i => newItems[Number(i)]?.id).filter((id): id is string => !!id)
+                                        : []
+                                };
+                            }
+                            return coupon;
+                        }
+                        return null;
+                    }).filter((c): c is Coupon => c !== null);
+                }
+            } catch {
+                errors.push("The coupons in this link could not be read.");
+            }
+        }
+    }
+
+    return {
+        currency: currencyParam && isKnownCurrency(currencyParam) ? currencyParam.toUpperCase() : DEFAULT_CURRENCY,
+        total: newTotal,
+        coupons: newCoupons,
+        items: newItems,
+        mode: ordersParam ? 'orders' : 'basket',
+        orders: newOrders,
+        purchases: newPurchases,
+        rules: newRules,
+        group: NO_GROUP,
+        application: 'independent'
+    };
+}
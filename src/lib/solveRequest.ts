@@ -0,0 +1,66 @@
+import type { AppState, Coupon, OptimizationOptions, PlannedPurchase, TieBreak } from "../types";
+import { currencyScale } from "./currency";
+import { NO_GROUP } from "./shareLinkLegacy";
+import { groupTotal } from "./split";
+
+// Page settings that are not part of the shared state
+export interface SolveSettings {
+    // Extra spend to look for top-ups within; NaN means none
+    topUpLimit: number;
+    // Number of strategies to rank
+    alternatives?: number;
+    tieBreak: TieBreak;
+    // Date of the current cart (YYYY-MM-DD)
+    today: string;
+    // Include the savings curve
+    curve?: boolean;
+    // Include what each coupon is worth
+    couponValues?: boolean;
+}
+
+export interface SolveRequest {
+    coupons: Coupon[];
+    total: number;
+    options: Omit<OptimizationOptions, 'onProgress'>;
+}
+
+// The current cart is the first purchase of the planning horizon
+export function horizonPurchases(state: AppState, today: string): PlannedPurchase[] {
+    return [
+        { id: 'current', date: today, amount: state.total, label: "This cart" },
+        ...state.purchases
+    ];
+}
+
+/**
+ * What the page hands to `calculateOptimization` for a state, so scripts get the same result.
+ * A group order is one cart made of the participants' subtotals, without items or later purchases.
+ */
+export function buildSolveRequest(state: AppState, settings: SolveSettings): SolveRequest {
+    if (state.group.participants.length > 0) {
+        const single = buildSolveRequest({ ...state, items: [], purchases: [], group: NO_GROUP }, settings);
+        return {
+            ...single,
+            total: groupTotal(state.group.participants, currencyScale(state.currency)),
+            options: { ...single.options, group: state.group }
+        };
+    }
+    return {
+        coupons: state.coupons,
+        total: state.total,
+        options: {
+            currency: state.currency,
+            items: state.items,
+            mode: state.mode,
+            orders: state.orders,
+            rules: state.rules,
+            application: state.application,
+            topUpLimit: isNaN(settings.topUpLimit) ? 0 : settings.topUpLimit,
+            alternatives: settings.alternatives,
+            tieBreak: settings.tieBreak,
+            curve: settings.curve,
+            couponValues: settings.couponValues,
+            purchases: state.purchases.length > 0 ? horizonPurchases(state, settings.today) : undefined
+        }
+    };
+}
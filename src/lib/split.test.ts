@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon, GroupSettings, SplitScheme } from "../types";
+import { convertCoupon } from "./coupons";
+import { calculateOptimization } from "./optimizer";
+import { apportion, splitBill } from "./split";
+
+const coupons: Coupon[] = [{ id: "alice-20", kind: "fixed", threshold: 100, discount: 20, count: 1, ownerId: "alice" }];
+
+const group = (scheme: SplitScheme): GroupSettings => ({
+    scheme,
+    participants: [
+        { id: "alice", name: "Alice", subtotal: 100 },
+        { id: "bob", name: "Bob", subtotal: 100 }
+    ]
+});
+
+const owes = (scheme: SplitScheme) =>
+    calculateOptimization(coupons, 200, { group: group(scheme) }).split?.shares.map(s => s.owes);
+
+describe("apportion", () => {
+    it("hands the leftover units to the largest fractions", () => {
+        expect(apportion(10, [1, 1, 1])).toEqual([4, 3, 3]);
+        expect(apportion(100, [3, 1])).toEqual([75, 25]);
+    });
+
+    it("shares equally when the weights add up to zero and keeps losses negative", () => {
+        expect(apportion(4, [0, 0])).toEqual([2, 2]);
+        expect(apportion(4, [3, -3])).toEqual([2, 2]);
+        expect(apportion(-10, [1, 1])).toEqual([-5, -5]);
+    });
+
+    it("gives a negative weight a negative part", () => {
+        expect(apportion(20, [25, -5])).toEqual([25, -5]);
+        expect(apportion(10, [3, -1])).toEqual([15, -5]);
+    });
+});
+
+describe("splitBill", () => {
+    it("shares the savings by spend", () => {
+        expect(owes('spend')).toEqual([90, 90]);
+    });
+
+    it("credits a coupon's savings to whoever brought it", () => {
+        expect(owes('coupons')).toEqual([80, 100]);
+    });
+
+    it("gives each person what they add to the group (Shapley value)", () => {
+        // Alice saves 20 alone and Bob adds nothing to that
+        expect(owes('shapley')).toEqual([80, 100]);
+    });
+
+    it("keeps the owner when a coupon changes kind", () => {
+        expect(convertCoupon(coupons[0], 'percent').ownerId).toBe("alice");
+        expect(convertCoupon(coupons[0], 'tiered').ownerId).toBe("alice");
+    });
+});
+
+describe("splitBill with a participant who costs the group", () => {
+    // Alice's coupon saves 30 on her own cart, but only 20 once Bob's order joins it
+    const solve = (own: Coupon[], total: number) => (total === 200 ? 20 : own.length > 0 ? 30 : 0);
+    const result = { totalOriginal: 200, totalDiscount: 20, finalPrice: 180, solution: [] };
+
+    it("keeps the negative Shapley value, so the shares add up to the savings", () => {
+        const split = splitBill(group('shapley'), coupons, result, 1, solve);
+        // Alice: (30 + 20) / 2 = 25; Bob: (0 + (20 - 30)) / 2 = -5
+        expect(split.shares.map(s => s.saved)).toEqual([25, -5]);
+        expect(split.shares.map(s => s.owes)).toEqual([75, 105]);
+    });
+});
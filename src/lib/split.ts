@@ -0,0 +1,185 @@
+import type { Coupon, GroupSettings, GroupSplit, OptimizationResult, Participant, SplitScheme } from "../types";
+import { toUnits } from "./currency";
+import { netSavings } from "./marginal";
+
+export const SPLIT_SCHEME_LABELS: Record<SplitScheme, string> = {
+    spend: "In proportion to spend",
+    coupons: "By the coupons each person brought",
+    shapley: "By what each person adds (Shapley value)"
+};
+
+// Exact Shapley values solve every coalition; larger groups sample join orders instead
+const MAX_EXACT_SHAPLEY = 10;
+const SHAPLEY_SAMPLES = 100;
+
+// Best net savings (currency units) for some coupons at some total
+export type CoalitionSolver = (coupons: Coupon[], total: number) => number;
+
+function subtotalUnits(p: Participant, scale: number): number {
+    return isNaN(p.subtotal) ? 0 : Math.max(0, toUnits(p.subtotal, scale));
+}
+
+// What the group orders in total; blank subtotals count as nothing
+export function groupTotal(participants: Participant[], scale: number): number {
+    return participants.reduce((sum, p) => sum + subtotalUnits(p, scale), 0) / scale;
+}
+
+/**
+ * Splits `amount` (scaled) in proportion to `weights`, rounding so the parts add up exactly:
+ * everyone gets the whole units of their share and the rest go to the largest fractions.
+ * Weights may be negative (a Shapley value can be); a negative weight takes a negative part when
+ * the weights add up to more than zero. When they add up to zero there is no proportion to follow,
+ * and the amount is shared equally.
+ */
+export function apportion(amount: number, weights: number[]): number[] {
+    const sum = weights.reduce((a, b) => a + b, 0);
+    return roundParts(amount, weights.map(w => (sum !== 0 ? (amount * w) / sum : amount / weights.length)));
+}
+
+// Whole units close to `exact`, which add up to `amount`: each part rounded down, then the units
+// left over go to the largest fractions
+function roundParts(amount: number, exact: number[]): number[] {
+    const parts = exact.map(Math.floor);
+    let left = amount - parts.reduce((a, b) => a + b, 0);
+    const byFraction = exact.map((_, i) => i).sort((a, b) => (exact[b] - parts[b]) - (exact[a] - parts[a]));
+    for (const i of byFraction) {
+        if (left <= 0) break;
+        parts[i]++;
+        left--;
+    }
+    return parts;
+}
+
+// Seeded so the same inputs always give the same sample (mulberry32)
+function random(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Shapley value of each participant in the game where a coalition is worth the best net savings
+ * its members' subtotals and coupons reach together (scaled). Coupons nobody brought are
+ * available to every coalition.
+ */
+function shapleyValues(
+    participants: Participant[],
+    coupons: Coupon[],
+    grandValue: number,
+    scale: number,
+    solve: CoalitionSolver
+): { values: number[]; sampled: boolean } {
+    const n = participants.length;
+    const owner = new Map(participants.map((p, i) => [p.id, i]));
+    const worth = new Map<string, number>();
+    const value = (members: boolean[]): number => {
+        const key = members.map(m => (m ? "1" : "0")).join("");
+        if (!members.includes(true)) return 0;
+        if (!members.includes(false)) return grandValue;
+        let cached = worth.get(key);
+        if (cached === undefined) {
+            const own = coupons.filter(c => {
+                const idx = c.ownerId !== undefined ? owner.get(c.ownerId) : undefined;
+                return idx === undefined || members[idx];
+            });
+            const total = participants.reduce((sum, p, i) => sum + (members[i] ? subtotalUnits(p, scale) : 0), 0);
+            cached = toUnits(solve(own, total / scale), scale);
+            worth.set(key, cached);
+        }
+        return cached;
+    };
+
+    const values = new Array<number>(n).fill(0);
+    if (n <= MAX_EXACT_SHAPLEY) {
+        // phi_i = sum over coalitions S without i of |S|! (n - |S| - 1)! / n! * (v(S + i) - v(S))
+        const factorial = [1];
+        for (let k = 1; k <= n; k++) factorial.push(factorial[k - 1] * k);
+        for (let mask = 0; mask < 1 << n; mask++) {
+            const members = participants.map((_, i) => (mask & (1 << i)) !== 0);
+            const size = members.filter(Boolean).length;
+            const base = value(members);
+            participants.forEach((_, i) => {
+                if (members[i]) return;
+                const joined = members.map((m, j) => m || j === i);
+                values[i] += (factorial[size] * factorial[n - size - 1] / factorial[n]) * (value(joined) - base);
+            });
+        }
+        return { values, sampled: false };
+    }
+
+    const next = random(n);
+    for (let s = 0; s < SHAPLEY_SAMPLES; s++) {
+        const order = participants.map((_, i) => i);
+        for (let i = n - 1; i > 0; i--) {
+            const j = Math.floor(next() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        const members = new Array<boolean>(n).fill(false);
+        let before = 0;
+        for (const i of order) {
+            members[i] = true;
+            const after = value(members);
+            values[i] += (after - before) / SHAPLEY_SAMPLES;
+            before = after;
+        }
+    }
+    return { values, sampled: true };
+}
+
+/**
+ * Shares the bill of a solved group order. Everyone pays their subtotal less their part of the
+ * savings; the scheme decides the parts. `solve` is only called for Shapley values.
+ */
+export function splitBill(
+    group: GroupSettings,
+    coupons: Coupon[],
+    result: OptimizationResult,
+    scale: number,
+    solve: CoalitionSolver
+): GroupSplit {
+    const { participants, scheme } = group;
+    const savings = toUnits(netSavings(result), scale);
+    const subtotals = participants.map(p => subtotalUnits(p, scale));
+    let weights = subtotals;
+    let sampled = false;
+
+    if (scheme === 'coupons') {
+        // Each coupon's savings go to whoever brought it; everyone's coupons are shared by spend
+        const owner = new Map(participants.map((p, i) => [p.id, i]));
+        const byId = new Map(coupons.map(c => [c.id, c]));
+        const credit = participants.map(() => 0);
+        let shared = 0;
+        for (const usage of result.solution) {
+            const idx = owner.get(byId.get(usage.couponId)?.ownerId ?? "");
+            if (idx === undefined) shared += toUnits(usage.discount, scale);
+            else credit[idx] += toUnits(usage.discount, scale);
+        }
+        const sharedParts = apportion(shared, subtotals);
+        weights = credit.map((c, i) => c + sharedParts[i]);
+    }
+
+    let saved: number[];
+    if (scheme === 'shapley') {
+        // The values already add up to the savings, negative ones included; only rounding (and a
+        // sample's float error) is left to spread
+        const shapley = shapleyValues(participants, coupons, savings, scale, solve);
+        const drift = (savings - shapley.values.reduce((a, b) => a + b, 0)) / participants.length;
+        saved = roundParts(savings, shapley.values.map(v => v + drift));
+        sampled = shapley.sampled;
+    } else {
+        saved = apportion(savings, weights);
+    }
+    return {
+        scheme,
+        shares: participants.map((p, i) => ({
+            participantId: p.id,
+            subtotal: subtotals[i] / scale,
+            saved: saved[i] / scale,
+            owes: (subtotals[i] - saved[i]) / scale
+        })),
+        sampled: sampled || undefined
+    };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { createStackingCheck, minOrders } from "./stacking";
+
+const tens: Coupon = { id: "tens", kind: "fixed", threshold: 100, discount: 10, count: 3 };
+
+describe("stacking rules", () => {
+    it("limits the coupons per order and says which rule left coupons out", () => {
+        const result = calculateOptimization([tens], 300, { rules: { maxCoupons: 1 } });
+        expect(result.totalDiscount).toBe(10);
+        expect(result.exclusions).toEqual([{ couponId: "tens", count: 2, rule: 'max-coupons', limit: 1 }]);
+    });
+
+    it("uses a non-stackable coupon alone when it beats the rest together", () => {
+        const solo: Coupon = { id: "solo", kind: "fixed", threshold: 300, discount: 40, count: 1, nonStackable: true };
+        const result = calculateOptimization([tens, solo], 600);
+        expect(result.solution.map(u => u.couponId)).toEqual(["solo"]);
+        expect(result.exclusions).toEqual([{ couponId: "tens", count: 3, rule: 'blocked-by-exclusive', blockedBy: "solo" }]);
+    });
+
+    it("leaves out a non-stackable coupon worth less than the others together", () => {
+        const solo: Coupon = { id: "solo", kind: "fixed", threshold: 300, discount: 25, count: 1, nonStackable: true };
+        const result = calculateOptimization([tens, solo], 600);
+        expect(result.totalDiscount).toBe(30);
+        expect(result.exclusions).toEqual([{ couponId: "solo", count: 1, rule: 'not-stackable' }]);
+    });
+
+    it("matches stacking groups regardless of case and spacing", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 100, discount: 15, count: 1, stackGroup: "Store " },
+            { id: "b", kind: "fixed", threshold: 100, discount: 12, count: 1, stackGroup: "store" }
+        ];
+        const result = calculateOptimization(coupons, 200, { rules: { groupLimits: { STORE: 1 } } });
+        expect(result.solution.map(u => u.couponId)).toEqual(["a"]);
+        expect(result.exclusions?.[0]).toMatchObject({ couponId: "b", rule: 'group-limit', limit: 1 });
+    });
+
+    it("counts the orders the rules force", () => {
+        const coupons: Coupon[] = [tens, { id: "solo", kind: "fixed", threshold: 1, discount: 1, count: 2, nonStackable: true }];
+        const usage = new Map([["tens", 3], ["solo", 2]]);
+        expect(minOrders(coupons, usage, 2)).toBe(4);
+        expect(createStackingCheck(coupons)(new Map([["solo", 1]]))).toBe(true);
+        expect(createStackingCheck(coupons)(usage)).toBe(false);
+    });
+});
@@ -0,0 +1,122 @@
+import type { Coupon, CouponUsage, StackingExclusion, StackingRules } from "../types";
+import type { UsageCounts } from "./alternatives";
+
+export function groupKey(group: string): string {
+    return group.trim().toLowerCase();
+}
+
+function groupLimit(rules: StackingRules, group: string): number | undefined {
+    const entry = Object.entries(rules.groupLimits ?? {}).find(([g]) => groupKey(g) === groupKey(group));
+    return entry && entry[1] >= 0 ? entry[1] : undefined;
+}
+
+function maxCoupons(rules: StackingRules): number | undefined {
+    return rules.maxCoupons !== undefined && rules.maxCoupons >= 0 ? Math.floor(rules.maxCoupons) : undefined;
+}
+
+export function hasStackingRules(coupons: Coupon[], rules: StackingRules = {}): boolean {
+    return maxCoupons(rules) !== undefined
+        || coupons.some(c => c.nonStackable || (c.stackGroup && groupLimit(rules, c.stackGroup) !== undefined));
+}
+
+// The same coupons with every stacking restriction lifted, for comparing against
+export function withoutStacking(coupons: Coupon[]): Coupon[] {
+    return coupons.map(c => (c.nonStackable ? { ...c, nonStackable: false } : c));
+}
+
+/**
+ * Checks the coupon uses of one order against the rules. The check is monotone (taking uses
+ * away never breaks a rule), so searches can prune on it.
+ */
+export function createStackingCheck(coupons: Coupon[], rules: StackingRules = {}): (usage: UsageCounts) => boolean {
+    const byId = new Map(coupons.map(c => [c.id, c]));
+    const limit = maxCoupons(rules);
+
+    return usage => {
+        let total = 0;
+        let exclusive = false;
+        const perGroup = new Map<string, number>();
+        for (const [id, k] of usage) {
+            if (k <= 0) continue;
+            total += k;
+            const c = byId.get(id);
+            if (c?.nonStackable) exclusive = true;
+            if (c?.stackGroup) perGroup.set(groupKey(c.stackGroup), (perGroup.get(groupKey(c.stackGroup)) ?? 0) + k);
+        }
+        if (limit !== undefined && total > limit) return false;
+        if (exclusive && total > 1) return false;
+        for (const [group, n] of perGroup) {
+            const allowed = groupLimit(rules, group);
+            if (allowed !== undefined && n > allowed) return false;
+        }
+        return true;
+    };
+}
+
+/**
+ * Fewest orders the uses need when each order must follow the rules on its own. A lower bound
+ * that only grows with the usage, for pruning searches over split orders.
+ */
+export function minOrders(coupons: Coupon[], usage: UsageCounts, perOrder: number, rules: StackingRules = {}): number {
+    const byId = new Map(coupons.map(c => [c.id, c]));
+    let exclusive = 0;
+    let others = 0;
+    const perGroup = new Map<string, number>();
+    for (const [id, k] of usage) {
+        const c = byId.get(id);
+        if (c?.nonStackable) {
+            exclusive += k;
+        } else {
+            others += k;
+        }
+        if (c?.stackGroup) perGroup.set(groupKey(c.stackGroup), (perGroup.get(groupKey(c.stackGroup)) ?? 0) + k);
+    }
+    let needed = exclusive + Math.ceil(others / perOrder);
+    for (const [group, n] of perGroup) {
+        const allowed = groupLimit(rules, group);
+        if (allowed !== undefined) needed = Math.max(needed, allowed > 0 ? Math.ceil(n / allowed) : Infinity);
+    }
+    return needed;
+}
+
+/**
+ * Names the rule behind every coupon the plan uses less of than the best plan without rules.
+ */
+export function explainExclusions(
+    coupons: Coupon[],
+    used: CouponUsage[],
+    unrestricted: CouponUsage[],
+    rules: StackingRules = {}
+): StackingExclusion[] {
+    const count = (usage: CouponUsage[], id: string) => usage.filter(u => u.couponId === id).reduce((sum, u) => sum + u.count, 0);
+    const byId = new Map(coupons.map(c => [c.id, c]));
+    const totalUsed = used.reduce((sum, u) => sum + u.count, 0);
+    const exclusive = used.find(u => byId.get(u.couponId)?.nonStackable);
+    const limit = maxCoupons(rules);
+
+    const out: StackingExclusion[] = [];
+    for (const c of coupons) {
+        const missing = count(unrestricted, c.id) - count(used, c.id);
+        if (missing <= 0) continue;
+
+        const base = { couponId: c.id, count: missing };
+        const allowed = c.stackGroup ? groupLimit(rules, c.stackGroup) : undefined;
+        const groupUsed = c.stackGroup
+            ? used.filter(u => { const g = byId.get(u.couponId)?.stackGroup; return !!g && groupKey(g) === groupKey(c.stackGroup!); })
+                .reduce((sum, u) => sum + u.count, 0)
+            : 0;
+
+        if (c.nonStackable && !exclusive) {
+            out.push({ ...base, rule: 'not-stackable' });
+        } else if (exclusive && exclusive.couponId !== c.id) {
+            out.push({ ...base, rule: 'blocked-by-exclusive', blockedBy: exclusive.couponId });
+        } else if (allowed !== undefined && groupUsed >= allowed) {
+            out.push({ ...base, rule: 'group-limit', group: c.stackGroup, limit: allowed });
+        } else if (limit !== undefined && totalUsed >= limit) {
+            out.push({ ...base, rule: 'max-coupons', limit });
+        } else {
+            out.push({ ...base, rule: 'combination' });
+        }
+    }
+    return out;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { calculateOptimization } from "./optimizer";
+import { buildSolveRequest, type SolveSettings } from "./solveRequest";
+import { readCouponJson, readStateJson } from "./stateJson";
+
+const settings: SolveSettings = { topUpLimit: NaN, tieBreak: 'fewest-coupons', today: "2026-01-01" };
+
+describe("readCouponJson", () => {
+    it("reads numeric strings, defaults the count and keeps the optional fields", () => {
+        const errors: string[] = [];
+        const coupon = readCouponJson({ threshold: "100", discount: 20, label: "Welcome", nonStackable: true }, 0, errors);
+        expect(coupon).toEqual({ id: "c-1", kind: "fixed", threshold: 100, discount: 20, count: 1, label: "Welcome", nonStackable: true });
+        expect(errors).toEqual([]);
+    });
+
+    it("takes a tiered coupon's threshold from its lowest tier", () => {
+        const coupon = readCouponJson({ kind: "tiered", threshold: 999, tiers: [[250, 30], { threshold: 100, discount: 10 }] }, 0, []);
+        expect(coupon?.threshold).toBe(100);
+    });
+
+    it("keeps blank numbers as NaN and skips unknown kinds with a reason", () => {
+        const errors: string[] = [];
+        expect(readCouponJson({ kind: "fixed", threshold: "" }, 0, errors)?.threshold).toBeNaN();
+        expect(readCouponJson({ kind: "bogo" }, 1, errors)).toBeNull();
+        expect(readCouponJson("20 off", 2, errors)).toBeNull();
+        expect(errors).toEqual([
+            "Coupon 2 was skipped: unknown kind \"bogo\".",
+            "Coupon 3 was skipped: it is not an object."
+        ]);
+    });
+});
+
+describe("readStateJson", () => {
+    it("falls back to the base for fields of the wrong shape and names them", () => {
+        const errors: string[] = [];
+        const state = readStateJson({ currency: "dollars", mode: "fastest", coupons: {}, total: 80 }, errors);
+        expect(state.currency).toBe("USD");
+        expect(state.mode).toBe("basket");
+        expect(state.coupons).toEqual([]);
+        expect(state.total).toBe(80);
+        expect(errors).toHaveLength(3);
+    });
+
+    it("rejects anything but an object", () => {
+        const errors: string[] = [];
+        expect(readStateJson([], errors).coupons).toEqual([]);
+        expect(errors).toEqual(["Expected an object with the cart and its coupons."]);
+    });
+});
+
+describe("buildSolveRequest", () => {
+    it("solves a state read from JSON exactly as the page does", () => {
+        const state = readStateJson({
+            currency: "jpy",
+            total: 1000,
+            coupons: [{ id: "a", threshold: 500, discount: 100, count: 2 }]
+        }, []);
+        const request = buildSolveRequest(state, settings);
+        expect(request.options.currency).toBe("JPY");
+        expect(request.options.topUpLimit).toBe(0);
+        expect(calculateOptimization(request.coupons, request.total, request.options).totalDiscount).toBe(200);
+    });
+
+    it("makes the current cart the first purchase of the horizon", () => {
+        const state = readStateJson({ total: 50, purchases: [{ date: "2026-02-01", amount: 70 }] }, []);
+        expect(buildSolveRequest(state, settings).options.purchases?.map(p => [p.id, p.date, p.amount])).toEqual([
+            ["current", "2026-01-01", 50],
+            ["p-1", "2026-02-01", 70]
+        ]);
+    });
+
+    it("solves a group order as one cart of the participants' subtotals", () => {
+        const state = readStateJson({
+            total: 5,
+            group: { participants: [{ name: "A", subtotal: 60 }, { name: "B", subtotal: 40.5 }] }
+        }, []);
+        const request = buildSolveRequest(state, settings);
+        expect(request.total).toBe(100.5);
+        expect(request.options.group?.participants).toHaveLength(2);
+    });
+});
@@ -0,0 +1,192 @@
+import type { AppState, CartItem, Coupon, CouponKind, CouponScope, CouponTier, GroupSettings, Participant, PlannedPurchase, SplitScheme, StackingRules } from "../types";
+import { COUPON_KIND_LABELS, lowestTier } from "./coupons";
+import { isKnownCurrency } from "./currency";
+import { emptyState } from "./shareLink";
+
+// Reads plain JSON (a saved AppState, or one written by hand or by another program) into typed state.
+// Numbers are kept as given, NaN included, so the solver drops unusable coupons exactly as it does on the page.
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Numbers, or numeric strings as found in CSV cells; anything else is NaN like an empty input field
+function num(value: unknown): number {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value.trim() !== "") return Number(value);
+    return NaN;
+}
+
+function text(value: unknown): string | undefined {
+    if (typeof value === "string" && value !== "") return value;
+    if (typeof value === "number") return String(value);
+    return undefined;
+}
+
+function strings(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(text).filter((s): s is string => s !== undefined) : [];
+}
+
+function readTier(raw: unknown): CouponTier | null {
+    if (Array.isArray(raw)) return { threshold: num(raw[0]), discount: num(raw[1]) };
+    if (isObject(raw)) return { threshold: num(raw.threshold), discount: num(raw.discount) };
+    return null;
+}
+
+function readScope(raw: unknown): CouponScope | undefined {
+    if (!isObject(raw)) return undefined;
+    return { categories: strings(raw.categories), itemIds: strings(raw.itemIds) };
+}
+
+/**
+ * One coupon; `null` (with the reason in `errors`) when it isn't an object or has an unknown kind.
+ * A missing count means one copy.
+ */
+export function readCouponJson(raw: unknown, idx: number, errors: string[]): Coupon | null {
+    if (!isObject(raw)) {
+        errors.push(`Coupon ${idx + 1} was skipped: it is not an object.`);
+        return null;
+    }
+    const kind = (raw.kind ?? 'fixed') as CouponKind;
+    if (!(typeof kind === "string" && Object.hasOwn(COUPON_KIND_LABELS, kind))) {
+        errors.push(`Coupon ${idx + 1} was skipped: unknown kind "${String(raw.kind)}".`);
+        return null;
+    }
+    const base = {
+        id: text(raw.id) ?? `c-${idx + 1}`,
+        threshold: num(raw.threshold),
+        count: raw.count === undefined ? 1 : num(raw.count)
+    };
+    let coupon: Coupon;
+    switch (kind) {
+        case 'fixed':
+            coupon = { ...base, kind, discount: num(raw.discount) };
+            break;
+        case 'percent':
+            coupon = { ...base, kind, percent: num(raw.percent) };
+            break;
+        case 'capped-percent':
+            coupon = { ...base, kind, percent: num(raw.percent), cap: num(raw.cap) };
+            break;
+        case 'tiered': {
+            const tiers = Array.isArray(raw.tiers) ? raw.tiers.map(readTier).filter((t): t is CouponTier => t !== null) : [];
+            coupon = { ...base, kind, threshold: lowestTier(tiers), tiers };
+            break;
+        }
+    }
+    const label = text(raw.label);
+    if (label) coupon.label = label;
+    const scope = readScope(raw.scope);
+    if (scope) coupon.scope = scope;
+    const expiresOn = text(raw.expiresOn);
+    if (expiresOn) coupon.expiresOn = expiresOn;
+    const stackGroup = text(raw.stackGroup);
+    if (stackGroup) coupon.stackGroup = stackGroup;
+    if (raw.nonStackable === true) coupon.nonStackable = true;
+    const ownerId = text(raw.ownerId);
+    if (ownerId) coupon.ownerId = ownerId;
+    return coupon;
+}
+
+function readItem(raw: unknown, idx: number, errors: string[]): CartItem | null {
+    if (!isObject(raw)) {
+        errors.push(`Cart item ${idx + 1} was skipped: it is not an object.`);
+        return null;
+    }
+    return {
+        id: text(raw.id) ?? `i-${idx + 1}`,
+        name: text(raw.name) ?? "",
+        price: num(raw.price),
+        quantity: raw.quantity === undefined ? 1 : num(raw.quantity),
+        categories: strings(raw.categories)
+    };
+}
+
+function readPurchase(raw: unknown, idx: number, errors: string[]): PlannedPurchase | null {
+    if (!isObject(raw) || !text(raw.date)) {
+        errors.push(`Planned purchase ${idx + 1} was skipped: it needs a date.`);
+        return null;
+    }
+    const purchase: PlannedPurchase = { id: text(raw.id) ?? `p-${idx + 1}`, date: text(raw.date)!, amount: num(raw.amount) };
+    const label = text(raw.label);
+    if (label) purchase.label = label;
+    return purchase;
+}
+
+function readRules(raw: JsonObject): StackingRules {
+    const rules: StackingRules = {};
+    if (raw.maxCoupons !== undefined && raw.maxCoupons !== null) rules.maxCoupons = num(raw.maxCoupons);
+    if (isObject(raw.groupLimits)) {
+        rules.groupLimits = Object.fromEntries(Object.entries(raw.groupLimits).map(([group, limit]) => [group, num(limit)]));
+    }
+    return rules;
+}
+
+function readParticipant(raw: unknown, idx: number, errors: string[]): Participant | null {
+    if (!isObject(raw)) {
+        errors.push(`Participant ${idx + 1} was skipped: it is not an object.`);
+        return null;
+    }
+    return { id: text(raw.id) ?? `g-${idx + 1}`, name: text(raw.name) ?? "", subtotal: num(raw.subtotal) };
+}
+
+const SCHEMES: SplitScheme[] = ['spend', 'coupons', 'shapley'];
+
+function readGroup(raw: JsonObject, base: GroupSettings, errors: string[]): GroupSettings {
+    const group = { ...base };
+    if (raw.participants !== undefined) group.participants = readList(raw.participants, "participants", readParticipant, errors);
+    if (raw.scheme !== undefined) {
+        if (SCHEMES.includes(raw.scheme as SplitScheme)) group.scheme = raw.scheme as SplitScheme;
+        else errors.push(`Unknown split "${String(raw.scheme)}"; using ${base.scheme}.`);
+    }
+    return group;
+}
+
+function readList<T>(raw: unknown, what: string, read: (item: unknown, idx: number, errors: string[]) => T | null, errors: string[]): T[] {
+    if (!Array.isArray(raw)) {
+        errors.push(`The ${what} were ignored: expected a list.`);
+        return [];
+    }
+    return raw.map((item, idx) => read(item, idx, errors)).filter((x): x is T => x !== null);
+}
+
+/**
+ * Reads an AppState-shaped object. Missing fields come from `base`; fields of the wrong shape
+ * fall back to it too and are named in `errors`.
+ */
+export function readStateJson(raw: unknown, errors: string[], base: AppState = emptyState()): AppState {
+    if (!isObject(raw)) {
+        errors.push("Expected an object with the cart and its coupons.");
+        return base;
+    }
+    const state: AppState = { ...base };
+
+    if (raw.currency !== undefined) {
+        const currency = text(raw.currency);
+        if (currency && isKnownCurrency(currency)) state.currency = currency.toUpperCase();
+        else errors.push(`Unknown currency "${String(raw.currency)}"; using ${base.currency}.`);
+    }
+    if (raw.total !== undefined) state.total = num(raw.total);
+    if (raw.coupons !== undefined) state.coupons = readList(raw.coupons, "coupons", readCouponJson, errors);
+    if (raw.items !== undefined) state.items = readList(raw.items, "cart items", readItem, errors);
+    if (raw.purchases !== undefined) state.purchases = readList(raw.purchases, "planned purchases", readPurchase, errors);
+    if (raw.mode !== undefined) {
+        if (raw.mode === 'basket' || raw.mode === 'orders') state.mode = raw.mode;
+        else errors.push(`Unknown mode "${String(raw.mode)}"; using ${base.mode}.`);
+    }
+    if (isObject(raw.orders)) {
+        state.orders = {
+            maxCouponsPerOrder: raw.orders.maxCouponsPerOrder === undefined ? base.orders.maxCouponsPerOrder : num(raw.orders.maxCouponsPerOrder),
+            orderFee: raw.orders.orderFee === undefined ? base.orders.orderFee : num(raw.orders.orderFee)
+        };
+    }
+    if (isObject(raw.rules)) state.rules = readRules(raw.rules);
+    if (isObject(raw.group)) state.group = readGroup(raw.group, base.group, errors);
+    if (raw.application !== undefined) {
+        if (raw.application === 'independent' || raw.application === 'sequential') state.application = raw.application;
+        else errors.push(`Unknown threshold rule "${String(raw.application)}"; using ${base.application}.`);
+    }
+    return state;
+}
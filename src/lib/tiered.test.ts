@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon, TieredCoupon } from "../types";
+import { describeUse, lowestTier } from "./coupons";
+import { calculateOptimization } from "./optimizer";
+
+const tiered = (count: number): TieredCoupon => ({
+    id: "tiers",
+    kind: "tiered",
+    threshold: 100,
+    count,
+    tiers: [{ threshold: 100, discount: 10 }, { threshold: 250, discount: 30 }]
+});
+
+const uses = (coupons: Coupon[], total: number) =>
+    calculateOptimization(coupons, total).solution.map(u => [u.tier, u.count]).sort((a, b) => Number(a[0]) - Number(b[0]));
+
+describe("tiered coupons", () => {
+    it("takes exactly one tier per use, sharing the copies between tiers", () => {
+        expect(uses([tiered(2)], 350)).toEqual([[0, 1], [1, 1]]);
+        expect(uses([tiered(2)], 500)).toEqual([[1, 2]]);
+        expect(uses([tiered(1)], 350)).toEqual([[1, 1]]);
+    });
+
+    it("mixes with plain coupons in one knapsack", () => {
+        const coupons: Coupon[] = [tiered(1), { id: "fixed", kind: "fixed", threshold: 100, discount: 12, count: 1 }];
+        const result = calculateOptimization(coupons, 350);
+        expect(result.totalDiscount).toBe(42);
+    });
+
+    it("keeps its threshold at the lowest usable tier", () => {
+        expect(lowestTier([{ threshold: 300, discount: 20 }, { threshold: NaN, discount: 5 }, { threshold: 150, discount: 8 }])).toBe(150);
+    });
+
+    it("names the tier a use took", () => {
+        expect(describeUse(tiered(1), 1, "USD")).toBe("Spend $250.00 / Get $30.00 Off (tier 2 of 2)");
+    });
+});
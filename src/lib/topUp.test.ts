@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+
+describe("top-up suggestions", () => {
+    it("suggests spending up to a threshold when the coupon pays for it", () => {
+        const coupons: Coupon[] = [{ id: "twenty", kind: "fixed", threshold: 100, discount: 20, count: 1 }];
+        const result = calculateOptimization(coupons, 95, { topUpLimit: 20 });
+        expect(result.totalDiscount).toBe(0);
+        expect(result.topUps).toEqual([
+            { extraSpend: 5, newTotal: 100, extraDiscount: 20, netGain: 15, solution: [{ couponId: "twenty", count: 1, discount: 20 }] }
+        ]);
+    });
+
+    it("leaves out top-ups that cost more than they save or lie beyond the limit", () => {
+        const coupons: Coupon[] = [
+            { id: "small", kind: "fixed", threshold: 100, discount: 3, count: 1 },
+            { id: "far", kind: "fixed", threshold: 200, discount: 150, count: 1 }
+        ];
+        const result = calculateOptimization(coupons, 95, { topUpLimit: 50 });
+        expect(result.topUps ?? []).toEqual([]);
+    });
+
+    it("ranks the suggestions by net gain", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 100, discount: 15, count: 1 },
+            { id: "b", kind: "fixed", threshold: 120, discount: 45, count: 1 }
+        ];
+        const result = calculateOptimization(coupons, 90, { topUpLimit: 40 });
+        expect(result.topUps?.map(t => [t.newTotal, t.netGain])).toEqual([[120, 15], [100, 5]]);
+    });
+});
@@ -0,0 +1,41 @@
+import type { TopUpSuggestion } from "../types";
+import type { BasketSolver } from "./optimizer";
+import { usageFromSteps } from "./sequence";
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Walks the totals above the current cart (up to `limit` more) where the best discount jumps,
+ * and reports those where the extra discount outweighs the extra spend.
+ * All amounts in and out of the solver are scaled integers.
+ */
+export function findTopUps(solver: BasketSolver, W: number, limit: number, scale: number): TopUpSuggestion[] {
+    const current = solver.solve(W);
+    const points = solver.breakpoints(W, W + limit);
+    if (!points) return [];
+
+    const suggestions: TopUpSuggestion[] = [];
+    let bestSoFar = current.value;
+    for (const total of points) {
+        const plan = solver.solve(total);
+        // Only totals that beat every cheaper option are worth mentioning
+        if (plan.value <= bestSoFar) continue;
+        bestSoFar = plan.value;
+
+        const extraSpend = total - W;
+        const extraDiscount = plan.value - current.value;
+        if (extraDiscount <= extraSpend) continue;
+
+        suggestions.push({
+            extraSpend: extraSpend / scale,
+            newTotal: total / scale,
+            extraDiscount: extraDiscount / scale,
+            netGain: (extraDiscount - extraSpend) / scale,
+            solution: usageFromSteps(plan.steps)
+        });
+    }
+
+    return suggestions
+        .sort((a, b) => b.netGain - a.netGain)
+        .slice(0, MAX_SUGGESTIONS);
+}
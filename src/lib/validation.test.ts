@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { AppState, Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { emptyState } from "./shareLink";
+import { describeErrors, issueFor, parseNumberInput, screenInputs, validateCoupon, validateTotal } from "./validation";
+
+const fixed = (threshold: number, discount: number, count = 1): Coupon => ({ id: "f", kind: "fixed", threshold, discount, count });
+
+describe("validateCoupon", () => {
+    it("names each field with a specific message", () => {
+        expect(validateCoupon(fixed(parseNumberInput(""), -5, 1.5))).toEqual([
+            { field: "count", message: "The quantity must be a whole number of at least 1.", severity: 'error' },
+            { field: "threshold", message: "Enter the spend.", severity: 'error' },
+            { field: "discount", message: "The amount off must be more than zero.", severity: 'error' }
+        ]);
+    });
+
+    it("warns about a discount larger than its spend and amounts finer than the currency", () => {
+        expect(validateCoupon(fixed(20, 50)).map(i => [i.field, i.severity])).toEqual([["discount", 'warning']]);
+        expect(validateTotal(100.005)).toEqual([
+            { field: "total", message: "Amounts in USD have 2 decimal places; $100.01 is used.", severity: 'warning' }
+        ]);
+        expect(validateTotal(10.5, "JPY")[0].message).toMatch(/^Amounts in JPY have no decimal places;/);
+    });
+
+    it("checks percentages and accepts a minimum spend of zero", () => {
+        const percent = (value: number): Coupon => ({ id: "p", kind: "percent", threshold: 0, percent: value, count: 1 });
+        expect(validateCoupon(percent(10))).toEqual([]);
+        expect(validateCoupon(percent(120)).map(i => i.message)).toEqual(["The percentage can't be more than 100."]);
+    });
+
+    it("keeps a tiered coupon with one good tier, leaving the broken ones out", () => {
+        const tiered: Coupon = {
+            id: "t",
+            kind: "tiered",
+            threshold: 100,
+            count: 1,
+            tiers: [{ threshold: 100, discount: 10 }, { threshold: NaN, discount: 30 }]
+        };
+        expect(validateCoupon(tiered)).toEqual([
+            { field: "tiers.1.threshold", message: "Enter the spend. This tier is left out.", severity: 'warning' }
+        ]);
+        expect(validateCoupon({ ...tiered, tiers: [] }).map(i => i.field)).toEqual(["tiers"]);
+    });
+});
+
+describe("issueFor", () => {
+    it("shows a field's error before its warnings", () => {
+        const issues = validateCoupon(fixed(NaN, 50));
+        expect(issueFor(issues, "threshold")?.severity).toBe('error');
+        expect(issueFor(issues, "discount")).toBeUndefined();
+    });
+});
+
+describe("screenInputs", () => {
+    it("leaves out inputs with errors and reports why", () => {
+        const screened = screenInputs([fixed(100, 20), { ...fixed(NaN, 20), id: "bad" }], -5, {
+            orders: { maxCouponsPerOrder: 0, orderFee: 3 }
+        });
+        expect(screened.coupons.map(c => c.id)).toEqual(["f"]);
+        expect(screened.totalPrice).toBe(0);
+        expect(screened.options.orders).toEqual({ maxCouponsPerOrder: 1, orderFee: 3 });
+        expect(screened.ignored).toEqual([
+            { kind: 'total', messages: ["The cart total must be zero or more."] },
+            { kind: 'orders', messages: ["The number of coupons per order must be a whole number of at least 1."] },
+            { kind: 'coupon', id: "bad", messages: ["Enter the spend."] }
+        ]);
+    });
+
+    it("is applied by the solver, which lists what it ignored", () => {
+        const result = calculateOptimization([fixed(100, 20), { ...fixed(100, 30, 0), id: "none" }], 150);
+        expect(result.totalDiscount).toBe(20);
+        expect(result.ignored).toEqual([
+            { kind: 'coupon', id: "none", messages: ["The quantity must be a whole number of at least 1."] }
+        ]);
+    });
+});
+
+describe("describeErrors", () => {
+    it("lists each input of a state left out until fixed", () => {
+        const state: AppState = {
+            ...emptyState(),
+            coupons: [fixed(100, 20), fixed(NaN, NaN)],
+            items: [{ id: "i", name: "Tea", price: -1, quantity: 1, categories: [] }]
+        };
+        expect(describeErrors(state)).toEqual([
+            "Coupon 2 is left out until fixed: Enter the spend. Enter the amount off.",
+            "Item \"Tea\" is left out until fixed: The price must be zero or more."
+        ]);
+    });
+});
@@ -0,0 +1,201 @@
+import type {
+    AppState,
+    CartItem,
+    Coupon,
+    CouponTier,
+    FieldIssue,
+    IgnoredInput,
+    InputKind,
+    OptimizationOptions,
+    OrderSplitSettings,
+    Participant,
+    PlannedPurchase
+} from "../types";
+import { currencyDigits, currencyScale, formatMoney, toUnits } from "./currency";
+import { DEFAULT_ORDER_SETTINGS } from "./shareLinkLegacy";
+
+// One set of rules for the page's fields, share links and the solver. Errors keep an input out of
+// the calculation until fixed; warnings point at values that are used but probably not meant.
+
+// Value of a number field. Blank is NaN, which is reported as missing rather than read as zero.
+export function parseNumberInput(value: string): number {
+    return value.trim() === "" ? NaN : Number(value);
+}
+
+function error(field: string, message: string): FieldIssue {
+    return { field, message, severity: 'error' };
+}
+
+function warning(field: string, message: string): FieldIssue {
+    return { field, message, severity: 'warning' };
+}
+
+function sentence(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function hasErrors(issues: FieldIssue[]): boolean {
+    return issues.some(i => i.severity === 'error');
+}
+
+// The issue to show next to a field, errors before warnings
+export function issueFor(issues: FieldIssue[], field: string): FieldIssue | undefined {
+    return issues.find(i => i.field === field && i.severity === 'error') ?? issues.find(i => i.field === field);
+}
+
+// `name` as in "Enter the minimum spend."; zero is only accepted when `zero` is set
+function amountIssues(field: string, value: number, currency: string | undefined, name: string, zero = false): FieldIssue[] {
+    if (!Number.isFinite(value)) return [error(field, `Enter ${name}.`)];
+    if (value < 0 || (value === 0 && !zero)) {
+        return [error(field, `${sentence(name)} must be ${zero ? "zero or more" : "more than zero"}.`)];
+    }
+    const scale = currencyScale(currency);
+    const rounded = toUnits(value, scale) / scale;
+    if (rounded !== value) {
+        const digits = currencyDigits(currency);
+        const places = digits === 0 ? "no decimal places" : `${digits} decimal place${digits === 1 ? "" : "s"}`;
+        return [warning(field, `Amounts in ${currency ?? "USD"} have ${places}; ${formatMoney(rounded, currency)} is used.`)];
+    }
+    return [];
+}
+
+function countIssues(field: string, value: number, name: string): FieldIssue[] {
+    if (!Number.isFinite(value)) return [error(field, `Enter ${name}.`)];
+    if (!Number.isInteger(value) || value < 1) return [error(field, `${sentence(name)} must be a whole number of at least 1.`)];
+    return [];
+}
+
+function swappedIssue(field: string, threshold: number, discount: number): FieldIssue[] {
+    return discount > threshold
+        ? [warning(field, "This takes more off than the spend it needs. Are the two amounts swapped?")]
+        : [];
+}
+
+function tierIssues(tiers: CouponTier[], currency: string | undefined): FieldIssue[] {
+    if (tiers.length === 0) return [error("tiers", "Add at least one tier.")];
+    const perTier = tiers.map((t, i) => [
+        ...amountIssues(`tiers.${i}.threshold`, t.threshold, currency, "the spend"),
+        ...amountIssues(`tiers.${i}.discount`, t.discount, currency, "the amount off"),
+        ...swappedIssue(`tiers.${i}.discount`, t.threshold, t.discount)
+    ]);
+    // A broken tier only keeps the coupon out when no tier is left
+    if (perTier.some(issues => !hasErrors(issues))) {
+        return perTier.flat().map(issue => (issue.severity === 'error' ? warning(issue.field, `${issue.message} This tier is left out.`) : issue));
+    }
+    return perTier.flat();
+}
+
+// Fields: threshold, discount, percent, cap, count, tiers, tiers.<n>.threshold, tiers.<n>.discount
+export function validateCoupon(c: Coupon, currency?: string): FieldIssue[] {
+    const issues = countIssues("count", c.count, "the quantity");
+    switch (c.kind) {
+        case 'fixed':
+            issues.push(
+                ...amountIssues("threshold", c.threshold, currency, "the spend"),
+                ...amountIssues("discount", c.discount, currency, "the amount off"),
+                ...swappedIssue("discount", c.threshold, c.discount)
+            );
+            break;
+        case 'percent':
+        case 'capped-percent':
+            issues.push(...amountIssues("threshold", c.threshold, currency, "the minimum spend", true));
+            if (!Number.isFinite(c.percent)) issues.push(error("percent", "Enter the percentage."));
+            else if (c.percent <= 0) issues.push(error("percent", "The percentage must be more than zero."));
+            else if (c.percent > 100) issues.push(error("percent", "The percentage can't be more than 100."));
+            if (c.kind === 'capped-percent') issues.push(...amountIssues("cap", c.cap, currency, "the maximum discount"));
+            break;
+        case 'tiered':
+            issues.push(...tierIssues(c.tiers, currency));
+            break;
+    }
+    return issues;
+}
+
+// Fields: price, quantity. Free items are fine.
+export function validateItem(item: CartItem, currency?: string): FieldIssue[] {
+    return [
+        ...amountIssues("price", item.price, currency, "the price", true),
+        ...countIssues("quantity", item.quantity, "the quantity")
+    ];
+}
+
+// Fields: date, amount
+export function validatePurchase(p: PlannedPurchase, currency?: string): FieldIssue[] {
+    const issues = amountIssues("amount", p.amount, currency, "the amount", true);
+    if (!p.date) issues.push(error("date", "Enter the date."));
+    else if (!/^\d{4}-\d{2}-\d{2}$/.test(p.date) || isNaN(Date.parse(p.date))) issues.push(error("date", "Enter the date as YYYY-MM-DD."));
+    return issues;
+}
+
+// Fields: subtotal. Someone may bring only coupons, so zero is fine.
+export function validateParticipant(p: Participant, currency?: string): FieldIssue[] {
+    return amountIssues("subtotal", p.subtotal, currency, "the subtotal", true);
+}
+
+// Fields: maxCouponsPerOrder, orderFee
+export function validateOrderSettings(orders: OrderSplitSettings, currency?: string): FieldIssue[] {
+    return [
+        ...countIssues("maxCouponsPerOrder", orders.maxCouponsPerOrder, "the number of coupons per order"),
+        ...amountIssues("orderFee", orders.orderFee, currency, "the fee", true)
+    ];
+}
+
+// Field: total
+export function validateTotal(total: number, currency?: string): FieldIssue[] {
+    return amountIssues("total", total, currency, "the cart total", true);
+}
+
+function errorMessages(issues: FieldIssue[]): string[] {
+    return issues.filter(i => i.severity === 'error').map(i => i.message);
+}
+
+/**
+ * What the solver works with: inputs with errors are left out (the total and the order settings
+ * fall back to zero and the defaults) and listed in `ignored`. Participants stay in a group order
+ * with a subtotal of zero.
+ */
+export function screenInputs(
+    coupons: Coupon[],
+    totalPrice: number,
+    options: OptimizationOptions
+): { coupons: Coupon[]; totalPrice: number; options: OptimizationOptions; ignored: IgnoredInput[] } {
+    const { currency } = options;
+    const ignored: IgnoredInput[] = [];
+    const report = (kind: InputKind, issues: FieldIssue[], id?: string): boolean => {
+        const messages = errorMessages(issues);
+        if (messages.length > 0) ignored.push(id !== undefined ? { kind, id, messages } : { kind, messages });
+        return messages.length === 0;
+    };
+    const keep = <T extends { id: string }>(kind: InputKind, list: T[], validate: (x: T, currency?: string) => FieldIssue[]) =>
+        list.filter(x => report(kind, validate(x, currency), x.id));
+
+    const screened: OptimizationOptions = { ...options };
+    const total = report('total', validateTotal(totalPrice, currency)) ? totalPrice : 0;
+    if (options.orders) {
+        const issues = validateOrderSettings(options.orders, currency);
+        if (!report('orders', issues)) {
+            screened.orders = {
+                maxCouponsPerOrder: hasErrors(issues.filter(i => i.field === "maxCouponsPerOrder")) ? DEFAULT_ORDER_SETTINGS.maxCouponsPerOrder : options.orders.maxCouponsPerOrder,
+                orderFee: hasErrors(issues.filter(i => i.field === "orderFee")) ? DEFAULT_ORDER_SETTINGS.orderFee : options.orders.orderFee
+            };
+        }
+    }
+    if (options.items) screened.items = keep('item', options.items, validateItem);
+    if (options.purchases) screened.purchases = keep('purchase', options.purchases, validatePurchase);
+    options.group?.participants.forEach(p => report('participant', validateParticipant(p, currency), p.id));
+
+    return { coupons: keep('coupon', coupons, validateCoupon), totalPrice: total, options: screened, ignored };
+}
+
+// Inputs of a state the solver will leave out, one line each, e.g. for a link just opened
+export function describeErrors(state: AppState): string[] {
+    const lines: string[] = [];
+    const add = (what: string, issues: FieldIssue[]) => {
+        const messages = errorMessages(issues);
+        if (messages.length > 0) lines.push(`${what} is left out until fixed: ${messages.join(" ")}`);
+    };
+    state.coupons.forEach((c, idx) => add(`Coupon ${idx + 1}`, validateCoupon(c, state.currency)));
+    state.items.forEach((item, idx) => add(item.name ? `Item "${item.name}"` : `Item ${idx + 1}`, validateItem(item, state.currency)));
+    state.purchases.forEach((p, idx) => add(`Planned purchase ${idx + 1}`, validatePurchase(p, state.currency)));
+    return lines;
+}
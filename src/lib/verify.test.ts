@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { exhaustiveBest, fractionalBound, verifyBasket } from "./verify";
+
+const tiered = (count: number, step = 100): Coupon => ({
+    id: "tiers",
+    kind: "tiered",
+    threshold: step,
+    count,
+    tiers: [
+        { threshold: step, discount: step / 10 },
+        { threshold: step * 2, discount: step / 4 },
+        { threshold: step * 3, discount: step * 0.4 },
+        { threshold: step * 4, discount: step * 0.6 }
+    ]
+});
+
+describe("exhaustiveBest", () => {
+    it("finds the best combination of a few coupons", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 100, discount: 10, count: 2 },
+            { id: "b", kind: "fixed", threshold: 150, discount: 18, count: 1 },
+            { id: "p", kind: "percent", threshold: 0, percent: 10, count: 1 }
+        ];
+        // 18 and 10 fit 250; 10% off taken first is 25
+        expect(exhaustiveBest(coupons, 250, 1)).toBe(53);
+    });
+
+    it.each([
+        ["a tiered coupon with 100 copies", [tiered(100)], 145],
+        ["a tiered coupon with 40 copies", [tiered(40)], 145],
+        ["a fixed coupon with millions of copies", [{ id: "f", kind: "fixed", threshold: 10, discount: 1, count: 3_000_000 } as Coupon], 100]
+    ])("only lists the copies that fit the cart for %s", (_, coupons, best) => {
+        const started = Date.now();
+        expect(exhaustiveBest(coupons, 1000, 1)).toBe(best);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it("gives up before listing the combinations when there are too many", () => {
+        const started = Date.now();
+        expect(exhaustiveBest([tiered(100, 1)], 1000, 1)).toBeNull();
+        expect(Date.now() - started).toBeLessThan(100);
+    });
+});
+
+describe("verifyBasket", () => {
+    const coupons: Coupon[] = [
+        { id: "a", kind: "fixed", threshold: 100, discount: 10, count: 3 },
+        { id: "b", kind: "fixed", threshold: 120, discount: 15, count: 2 }
+    ];
+
+    it("proves a small plan optimal", () => {
+        const result = calculateOptimization(coupons, 250);
+        expect(result.totalDiscount).toBe(30);
+        const verification = verifyBasket(coupons, 250, result);
+        expect(verification.status).toBe("verified");
+        expect(verification.exhaustiveDiscount).toBe(30);
+        expect(verification.issues).toEqual([]);
+    });
+
+    it("reports a plan whose steps don't add up", () => {
+        const result = calculateOptimization(coupons, 250);
+        const verification = verifyBasket(coupons, 250, { ...result, totalDiscount: 40, finalPrice: 210 });
+        expect(verification.status).toBe("discrepancy");
+        expect(verification.issues.length).toBeGreaterThan(0);
+    });
+
+    it("takes its bound from the coupons, not from the solver", () => {
+        const result = calculateOptimization(coupons, 250);
+        const verification = verifyBasket(coupons, 250, { ...result, discountUpperBound: 20 });
+        expect(verification.upperBound).toBe(31);
+        expect(verification.status).toBe("verified");
+    });
+
+    it("bounds the discount by the fractional relaxation", () => {
+        // 250 of room: two copies of b (ratio 0.125) then 10/100 of a
+        expect(fractionalBound(coupons, 250, 1)).toBe(31);
+    });
+});
+
+describe("verification of each kind of result", () => {
+    const coupons: Coupon[] = [{ id: "a", kind: "fixed", threshold: 100, discount: 10, count: 2 }];
+    const items = [{ id: "i", name: "Tea", price: 100, quantity: 2, categories: ["tea"] }];
+
+    it("checks item carts without scopes like any basket", () => {
+        expect(calculateOptimization(coupons, 0, { items }).verification?.status).toBe("verified");
+    });
+
+    it.each([
+        ["orders", { mode: 'orders', orders: { maxCouponsPerOrder: 1, orderFee: 0 } }],
+        ["sequential thresholds", { application: 'sequential' }]
+    ] as const)("says why %s aren't checked", (_, options) => {
+        const verification = calculateOptimization(coupons, 200, options).verification;
+        expect(verification?.status).toBe("unverified");
+        expect(verification?.reason).toBeTruthy();
+    });
+
+    it("says why carts with scoped coupons aren't checked", () => {
+        const scoped = coupons.map(c => ({ ...c, scope: { categories: ["tea"], itemIds: [] } }));
+        expect(calculateOptimization(scoped, 0, { items }).verification?.status).toBe("unverified");
+    });
+
+    it("checks the cart of a group order and of a planning horizon", () => {
+        const group = { scheme: 'spend' as const, participants: [{ id: "x", name: "X", subtotal: 200 }] };
+        expect(calculateOptimization(coupons, 200, { group }).verification?.status).toBe("verified");
+        const purchases = [{ id: "current", date: "2026-01-01", amount: 200 }];
+        expect(calculateOptimization(coupons, 200, { purchases }).verification?.status).toBe("verified");
+    });
+
+    it("is left out when turned off", () => {
+        expect(calculateOptimization(coupons, 200, { verify: false }).verification).toBeUndefined();
+    });
+});
@@ -0,0 +1,289 @@
+import type { Coupon, OptimizationResult, StackingRules, Verification } from "../types";
+import type { UsageCounts } from "./alternatives";
+import { describeUse, fixedOptions, isPercentage, isTiered, isUsable, percentOff, type FixedOption, type PercentageCoupon } from "./coupons";
+import { currencyScale, formatMoney, toUnits } from "./currency";
+import { bestSequence, MAX_PERCENT_USES, type FixedStep } from "./sequence";
+import { createStackingCheck, hasStackingRules } from "./stacking";
+
+// Work the exhaustive cross-check may do: combinations times orderings of their percentage uses
+const MAX_ENUMERATION_WORK = 200_000;
+
+// One coupon's share of a combination
+interface Choice {
+    fixed: FixedStep[];
+    percents: PercentageCoupon[];
+    // Scaled thresholds reserved out of the cart total
+    cost: number;
+}
+
+/**
+ * LP relaxation of the basket problem: every use may be taken fractionally, percentage uses are
+ * worth what they'd take from the full cart, and stacking rules are dropped. Scaled units.
+ */
+export function fractionalBound(coupons: Coupon[], W: number, scale: number): number {
+    let free = 0;
+    const items: { cost: number; value: number; copies: number }[] = [];
+    const add = (cost: number, value: number, copies: number) => {
+        if (value <= 0 || copies <= 0 || cost > W) return;
+        if (cost === 0) free += value * copies;
+        else items.push({ cost, value, copies });
+    };
+    for (const o of fixedOptions(coupons)) {
+        add(toUnits(o.threshold, scale), toUnits(o.discount, scale), o.coupon.count);
+    }
+    for (const c of coupons) {
+        if (isPercentage(c) && isUsable(c)) {
+            add(toUnits(c.threshold, scale), percentOff(c, W, scale), Math.min(c.count, MAX_PERCENT_USES));
+        }
+    }
+
+    // Greedy by value per unit of threshold is optimal for the fractional knapsack
+    items.sort((a, b) => b.value / b.cost - a.value / a.cost);
+    let room = W;
+    let bound = free;
+    for (const item of items) {
+        if (room <= 0) break;
+        const taken = Math.min(item.copies, room / item.cost);
+        bound += taken * item.value;
+        room -= taken * item.cost;
+    }
+    // Never more than the cart, and whole units only
+    return Math.min(W, Math.floor(bound));
+}
+
+function percentCopies(c: PercentageCoupon): number {
+    return Math.min(Math.floor(c.count), MAX_PERCENT_USES);
+}
+
+// Copies beyond what the cart can hold even at the lowest threshold never fit
+function fixedCopies(coupon: Coupon, options: FixedOption[], W: number, scale: number): number {
+    const lowest = Math.min(...options.map(o => toUnits(o.threshold, scale)));
+    return lowest > 0 ? Math.min(Math.floor(coupon.count), Math.floor(W / lowest)) : Math.floor(coupon.count);
+}
+
+// The coupons a combination can draw on: the options of each fixed or tiered coupon with the
+// copies that could fit, and the percentage coupons, leaving out whatever doesn't fit at all
+interface Candidates {
+    fixed: { coupon: Coupon; options: FixedOption[]; copies: number }[];
+    percents: PercentageCoupon[];
+}
+
+function candidatesOf(coupons: Coupon[], W: number, scale: number): Candidates {
+    const byCoupon = new Map<Coupon, FixedOption[]>();
+    for (const o of fixedOptions(coupons)) {
+        if (toUnits(o.threshold, scale) > W) continue;
+        byCoupon.set(o.coupon, [...(byCoupon.get(o.coupon) ?? []), o]);
+    }
+    const percents = coupons.filter((c): c is PercentageCoupon => isPercentage(c) && isUsable(c) && toUnits(c.threshold, scale) <= W);
+    const fixed = [...byCoupon].map(([coupon, options]) => ({ coupon, options, copies: fixedCopies(coupon, options, W, scale) }));
+    return { fixed, percents };
+}
+
+// Ways to use up to `copies` copies spread over `tiers` options, C(copies + tiers, tiers), without listing them
+function distributionCount(copies: number, tiers: number): number {
+    let count = 1;
+    for (let i = 1; i <= tiers; i++) count = (count * (copies + i)) / i;
+    return count;
+}
+
+// Every way to use up to `copies` copies spread over `tiers` options
+function distributions(copies: number, tiers: number): number[][] {
+    if (tiers === 0) return [[]];
+    const out: number[][] = [];
+    for (let k = 0; k <= copies; k++) {
+        for (const rest of distributions(copies - k, tiers - 1)) {
+            out.push([k, ...rest]);
+        }
+    }
+    return out;
+}
+
+function factorial(n: number): number {
+    return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+// Combinations times orderings of their percentage uses, counted before any of them is listed
+function enumerationWork({ fixed, percents }: Candidates): number {
+    const percentUses = Math.min(MAX_PERCENT_USES, percents.reduce((sum, c) => sum + percentCopies(c), 0));
+    let work = factorial(percentUses) * (percentUses + 1);
+    for (const { options, copies } of fixed) work *= distributionCount(copies, options.length);
+    for (const c of percents) work *= percentCopies(c) + 1;
+    return work;
+}
+
+function choicesOf({ fixed, percents }: Candidates, scale: number): Choice[][] {
+    const dimensions: Choice[][] = [];
+    for (const { coupon, options, copies } of fixed) {
+        dimensions.push(distributions(copies, options.length).map(split => {
+            const steps = options
+                .map((o, i) => ({ couponId: coupon.id, tier: o.tier, count: split[i], value: toUnits(o.discount, scale) * split[i] }))
+                .filter(f => f.count > 0);
+            const cost = options.reduce((sum, o, i) => sum + toUnits(o.threshold, scale) * split[i], 0);
+            return { fixed: steps, percents: [], cost };
+        }));
+    }
+    for (const c of percents) {
+        dimensions.push(Array.from({ length: percentCopies(c) + 1 }, (_, k) => ({
+            fixed: [],
+            percents: new Array<PercentageCoupon>(k).fill(c),
+            cost: toUnits(c.threshold, scale) * k
+        })));
+    }
+    return dimensions;
+}
+
+/**
+ * Best discount (scaled) over every combination of coupon uses, or null when there are too many
+ * to try. Shares only the ordering of percentage coupons with the solver.
+ */
+export function exhaustiveBest(coupons: Coupon[], W: number, scale: number, rules?: StackingRules): number | null {
+    const candidates = candidatesOf(coupons, W, scale);
+    if (enumerationWork(candidates) > MAX_ENUMERATION_WORK) return null;
+    const dimensions = choicesOf(candidates, scale);
+
+    const check = hasStackingRules(coupons, rules) ? createStackingCheck(coupons, rules) : null;
+    let best = 0;
+    const picked: Choice[] = [];
+    const walk = (index: number, cost: number, percents: number) => {
+        if (cost > W || percents > MAX_PERCENT_USES) return;
+        if (index === dimensions.length) {
+            const usage: UsageCounts = new Map();
+            for (const choice of picked) {
+                for (const f of choice.fixed) usage.set(f.couponId, (usage.get(f.couponId) ?? 0) + f.count);
+                for (const c of choice.percents) usage.set(c.id, (usage.get(c.id) ?? 0) + 1);
+            }
+            if (check && !check(usage)) return;
+            const value = bestSequence(picked.flatMap(c => c.percents), picked.flatMap(c => c.fixed), W, scale).value;
+            best = Math.max(best, value);
+            return;
+        }
+        for (const choice of dimensions[index]) {
+            picked.push(choice);
+            walk(index + 1, cost + choice.cost, percents + choice.percents.length);
+            picked.pop();
+        }
+    };
+    walk(0, 0, 0);
+    return best;
+}
+
+/**
+ * Checks a single-order result without trusting the solver: the steps are replayed from the
+ * coupons' terms, the thresholds must fit the cart, the fixed coupons must add up to what the
+ * knapsack table holds (`tableValue`, scaled, for the capacity they had), and small inputs are
+ * compared with every combination.
+ */
+export function verifyBasket(
+    coupons: Coupon[],
+    totalPrice: number,
+    result: OptimizationResult,
+    currency?: string,
+    rules?: StackingRules,
+    tableValue?: (capacity: number) => number | null
+): Verification {
+    const scale = currencyScale(currency);
+    const W = toUnits(totalPrice, scale);
+    const money = (units: number) => formatMoney(units / scale, currency);
+    const byId = new Map(coupons.map(c => [c.id, c]));
+    const issues: string[] = [];
+
+    // Replay the steps in checkout order
+    let price = W;
+    let reserved = 0;
+    let percentReserved = 0;
+    let fixedValue = 0;
+    const percentUses: PercentageCoupon[] = [];
+    const usage: UsageCounts = new Map();
+    for (const step of result.steps ?? []) {
+        const c = byId.get(step.couponId);
+        if (!c) {
+            issues.push(`The plan uses a coupon that isn't in the list (${step.couponId}).`);
+            continue;
+        }
+        const name = describeUse(c, step.tier, currency);
+        usage.set(c.id, (usage.get(c.id) ?? 0) + step.count);
+        let off = 0;
+        if (isPercentage(c)) {
+            for (let k = 0; k < step.count; k++) {
+                const taken = percentOff(c, price - off, scale);
+                off += taken;
+                percentUses.push(c);
+            }
+            reserved += toUnits(c.threshold, scale) * step.count;
+            percentReserved += toUnits(c.threshold, scale) * step.count;
+        } else {
+            const tier = isTiered(c) ? c.tiers[step.tier ?? -1] : undefined;
+            if (isTiered(c) && !tier) {
+                issues.push(`${name}: the plan uses a tier the coupon doesn't have.`);
+                continue;
+            }
+            const terms = tier ?? (c.kind === 'fixed' ? c : null);
+            if (!terms) continue;
+            const value = toUnits(terms.discount, scale) * step.count;
+            fixedValue += value;
+            off = Math.min(value, price);
+            reserved += toUnits(terms.threshold, scale) * step.count;
+        }
+        price -= off;
+        if (toUnits(step.discount, scale) !== off) {
+            issues.push(`${name}: the plan takes ${money(toUnits(step.discount, scale))} off, its terms give ${money(off)}.`);
+        }
+        if (toUnits(step.priceAfter, scale) !== price) {
+            issues.push(`${name}: the plan leaves ${money(toUnits(step.priceAfter, scale))} to pay, replaying it leaves ${money(price)}.`);
+        }
+    }
+
+    const discount = toUnits(result.totalDiscount, scale);
+    if (discount !== W - price) {
+        issues.push(`The plan claims ${money(discount)} off, its steps add up to ${money(W - price)}.`);
+    }
+    if (result.finalPrice < 0 || discount > W) {
+        issues.push(`The plan takes more off than the cart total of ${money(W)}.`);
+    }
+    if (reserved > W) {
+        issues.push(`The coupons' thresholds add up to ${money(reserved)}, more than the cart total of ${money(W)}.`);
+    }
+    for (const [id, count] of usage) {
+        const c = byId.get(id);
+        if (c && count > c.count) issues.push(`${describeUse(c, undefined, currency)} is used ${count} times but there are only ${c.count}.`);
+    }
+    if (hasStackingRules(coupons, rules) && !createStackingCheck(coupons, rules)(usage)) {
+        issues.push("The plan breaks the stacking rules.");
+    }
+
+    // The fixed coupons should be exactly the table's best for the capacity left to them
+    const table = tableValue?.(W - percentReserved) ?? null;
+    if (table !== null && fixedValue > table) {
+        issues.push(`The fixed coupons in the plan are worth ${money(fixedValue)}, more than the best the knapsack table allows (${money(table)}).`);
+    } else if (table !== null && fixedValue < table) {
+        const better = bestSequence(percentUses, [{ couponId: "", count: 1, value: table }], W, scale).value;
+        if (better > discount) issues.push(`The knapsack table holds a plan saving ${money(better)}, more than the one shown.`);
+    }
+
+    // From the coupons alone, so a wrong bound from the solver can't hide a wrong plan
+    const upperBound = fractionalBound(coupons, W, scale);
+    if (discount > upperBound) {
+        issues.push(`The plan claims ${money(discount)} off, more than any use of the coupons can save (${money(upperBound)}).`);
+    }
+
+    const exhaustive = exhaustiveBest(coupons, W, scale, rules);
+    if (exhaustive !== null && exhaustive > discount) {
+        issues.push(`Trying every combination finds a plan saving ${money(exhaustive)}, ${money(exhaustive - discount)} more.`);
+    } else if (exhaustive !== null && exhaustive < discount) {
+        issues.push(`No combination of the coupons saves ${money(discount)}; the best is ${money(exhaustive)}.`);
+    }
+
+    const proven = exhaustive === discount || upperBound === discount;
+    return {
+        status: issues.length > 0 ? 'discrepancy' : proven ? 'verified' : 'checked',
+        upperBound: Math.max(upperBound, discount) / scale,
+        gap: Math.max(0, upperBound - discount) / scale,
+        exhaustiveDiscount: exhaustive !== null ? exhaustive / scale : undefined,
+        issues
+    };
+}
+
+// For plans no check here covers, so they say why instead of showing no verdict
+export function unverified(reason: string): Verification {
+    return { status: 'unverified', reason, issues: [] };
+}
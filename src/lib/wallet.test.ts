@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import type { Coupon } from "../types";
+import { calculateOptimization } from "./optimizer";
+import { deductUsage, detachFromItems } from "./wallet";
+
+describe("deductUsage", () => {
+    it("takes the copies a checkout used, across tiers, and drops used-up coupons", () => {
+        const coupons: Coupon[] = [
+            { id: "a", kind: "fixed", threshold: 100, discount: 20, count: 2 },
+            { id: "t", kind: "tiered", threshold: 100, count: 2, tiers: [{ threshold: 100, discount: 10 }, { threshold: 250, discount: 30 }] },
+            { id: "idle", kind: "fixed", threshold: 900, discount: 90, count: 1 }
+        ];
+        const left = deductUsage(coupons, calculateOptimization(coupons, 450).solution);
+        expect(left.map(c => [c.id, c.count])).toEqual([["t", 1], ["idle", 1]]);
+    });
+});
+
+describe("detachFromItems", () => {
+    it("drops item ids from scopes and keeps the categories", () => {
+        const scoped: Coupon = { id: "s", kind: "fixed", threshold: 50, discount: 5, count: 1, scope: { categories: ["tea"], itemIds: ["i-1"] } };
+        const plain: Coupon = { id: "p", kind: "fixed", threshold: 50, discount: 5, count: 1 };
+        const [detached, unchanged] = detachFromItems([scoped, plain]);
+        expect(detached.scope).toEqual({ categories: ["tea"], itemIds: [] });
+        expect(unchanged).toBe(plain);
+    });
+});
@@ -0,0 +1,18 @@
+import type { Coupon, CouponUsage } from "../types";
+
+// Coupons left after a checkout that used `usage`. Used-up coupons are removed.
+export function deductUsage(coupons: Coupon[], usage: CouponUsage[]): Coupon[] {
+    return coupons
+        .map(c => {
+            const used = usage
+                .filter(u => u.couponId === c.id)
+                .reduce((sum, u) => sum + u.count, 0);
+            return used > 0 ? { ...c, count: c.count - used } : c;
+        })
+        .filter(c => !(c.count <= 0));
+}
+
+// Coupons from a shared link, made independent of the link's cart items
+export function detachFromItems(coupons: Coupon[]): Coupon[] {
+    return coupons.map(c => (c.scope?.itemIds?.length ? { ...c, scope: { ...c.scope, itemIds: [] } } : c));
+}
@@ -1,13 +1,361 @@
-export interface Coupon {
+export interface CouponScope {
+    // Item categories (tags) the coupon is restricted to.
+    categories?: string[];
+    // Specific cart item ids the coupon is restricted to.
+    itemIds?: string[];
+}
+
+export type CouponKind = 'fixed' | 'percent' | 'capped-percent' | 'tiered';
+
+interface CouponBase {
     id: string;
+    // Name shown next to the terms, e.g. "Welcome voucher"
+    label?: string;
+    // Lowest tier's threshold for tiered coupons
     threshold: number;
-    discount: number;
     count: number;
+    // Only eligible items count towards the threshold. Unscoped coupons apply to the whole cart.
+    scope?: CouponScope;
+    // Last day the coupon can be used, as YYYY-MM-DD
+    expiresOn?: string;
+    // Stacking group, e.g. "store" or "platform", limited by StackingRules.groupLimits
+    stackGroup?: string;
+    // Can't be combined with any other coupon use in the same order
+    nonStackable?: boolean;
+    // Group orders: the participant who brought it. Coupons without one belong to everyone.
+    ownerId?: string;
+}
+
+// "Spend $100, get $10 off"
+export interface FixedCoupon extends CouponBase {
+    kind: 'fixed';
+    discount: number;
+}
+
+// "15% off orders over $50" (threshold may be 0)
+export interface PercentCoupon extends CouponBase {
+    kind: 'percent';
+    percent: number;
+}
+
+// "10% off orders over $200, max $30"
+export interface CappedPercentCoupon extends CouponBase {
+    kind: 'capped-percent';
+    percent: number;
+    cap: number;
+}
+
+export interface CouponTier {
+    threshold: number;
+    discount: number;
+}
+
+// "Spend $100 get $10, spend $200 get $25, spend $500 get $80": each use takes exactly one tier
+export interface TieredCoupon extends CouponBase {
+    kind: 'tiered';
+    tiers: CouponTier[];
+}
+
+export type Coupon = FixedCoupon | PercentCoupon | CappedPercentCoupon | TieredCoupon;
+
+// A named coupon collection for one shop, kept in the browser
+export interface Wallet {
+    id: string;
+    store: string;
+    notes: string;
+    // ISO 4217 code the coupon amounts are in
+    currency?: string;
+    coupons: Coupon[];
+}
+
+export interface CartItem {
+    id: string;
+    name: string;
+    price: number;
+    quantity: number;
+    categories: string[];
 }
 
 export interface CouponUsage {
     couponId: string;
+    // Index into `tiers` for tiered coupons
+    tier?: number;
+    count: number;
+    // Total amount taken off by these uses
+    discount: number;
+}
+
+// One entry per consecutive run of the same coupon, in the order they are applied at checkout.
+export interface AppliedStep {
+    couponId: string;
+    tier?: number;
     count: number;
+    discount: number;
+    priceAfter: number;
+}
+
+export interface ItemAllocation {
+    itemId: string;
+    amount: number;
+}
+
+export interface CouponAllocation {
+    couponId: string;
+    items: ItemAllocation[];
+}
+
+export interface OrderSplitSettings {
+    // How many coupon uses a single checkout accepts
+    maxCouponsPerOrder: number;
+    // Shipping or handling fee charged for every order
+    orderFee: number;
+}
+
+export type OptimizationMode = 'basket' | 'orders';
+
+// 'independent': every threshold is checked against the original amount;
+// 'sequential': against the price left after the coupons applied before it
+export type ApplicationRule = 'independent' | 'sequential';
+
+// A purchase expected on `date` (YYYY-MM-DD)
+export interface PlannedPurchase {
+    id: string;
+    date: string;
+    amount: number;
+    label?: string;
+}
+
+// Shop rules on how coupons combine within one order
+export interface StackingRules {
+    maxCoupons?: number;
+    // Group name -> coupon uses allowed from that group
+    groupLimits?: Record<string, number>;
+}
+
+// Someone pooling their part of the cart and their coupons into a group order
+export interface Participant {
+    id: string;
+    name: string;
+    subtotal: number;
+}
+
+// How the bill is shared: by subtotal, by the savings each person's coupons bring, or by Shapley value
+export type SplitScheme = 'spend' | 'coupons' | 'shapley';
+
+// A group order: the cart total is the sum of the subtotals
+export interface GroupSettings {
+    participants: Participant[];
+    scheme: SplitScheme;
+}
+
+// The page's inputs; also what a share link carries
+export interface AppState {
+    // ISO 4217 code all amounts are in
+    currency: string;
+    total: number;
+    coupons: Coupon[];
+    items: CartItem[];
+    mode: OptimizationMode;
+    orders: OrderSplitSettings;
+    // Purchases after the current cart that share the coupons
+    purchases: PlannedPurchase[];
+    rules: StackingRules;
+    // No participants means an ordinary, single-person cart
+    group: GroupSettings;
+    application: ApplicationRule;
+}
+
+export type StackingRule = 'not-stackable' | 'blocked-by-exclusive' | 'max-coupons' | 'group-limit' | 'combination';
+
+// Copies of a coupon that would have been used without the stacking rules
+export interface StackingExclusion {
+    couponId: string;
+    count: number;
+    rule: StackingRule;
+    // 'group-limit': the group and its limit; 'max-coupons': the limit
+    group?: string;
+    limit?: number;
+    // 'blocked-by-exclusive': the non-stackable coupon that was used instead
+    blockedBy?: string;
+}
+
+// How to choose between strategies that save the same amount
+export type TieBreak = 'fewest-coupons' | 'keep-largest' | 'expiring-first';
+
+export interface OptimizationOptions {
+    // ISO 4217 code; sets the precision amounts are solved at (default USD)
+    currency?: string;
+    // When given, the cart total is the sum of the items and scoped coupons only see eligible spend.
+    items?: CartItem[];
+    // 'basket' stacks every coupon on one checkout; 'orders' splits the purchase into several checkouts.
+    mode?: OptimizationMode;
+    orders?: OrderSplitSettings;
+    rules?: StackingRules;
+    // Single orders only (orders mode and later planned purchases check thresholds independently).
+    // Sequential plans are not ranked, checked or charted, and with items, scoped coupons are left out.
+    application?: ApplicationRule;
+    // Also look for totals up to this much above the cart where spending more pays off
+    topUpLimit?: number;
+    // Return this many of the best distinct strategies (not supported in orders mode)
+    alternatives?: number;
+    tieBreak?: TieBreak;
+    // Spread the coupons over these purchases (the current cart included) instead of using them all at once
+    purchases?: PlannedPurchase[];
+    // Also return the best discount at every cart total (single-order carts without items)
+    curve?: boolean;
+    // Also return what each coupon is worth to this cart (see CouponValue)
+    couponValues?: boolean;
+    // Split the bill between the people in a group order; their subtotals make up the total
+    group?: GroupSettings;
+    // Check the result independently (see Verification); default true
+    verify?: boolean;
+    // Called with the fraction of work done (0..1) while the solver runs
+    onProgress?: (fraction: number) => void;
+}
+
+export interface Strategy {
+    solution: CouponUsage[];
+    steps: AppliedStep[];
+    allocations?: CouponAllocation[];
+    discount: number;
+    // How much less it saves than the best strategy
+    gap: number;
+}
+
+export interface PurchaseSchedule {
+    purchaseId: string;
+    date: string;
+    amount: number;
+    coupons: CouponUsage[];
+    discount: number;
+    finalPrice: number;
+}
+
+export interface HorizonPlan {
+    purchases: PurchaseSchedule[];
+    totalDiscount: number;
+    // What spending every coupon as early as possible would save, for comparison
+    greedyDiscount: number;
+    // Coupon uses left over after the last purchase
+    unused: { couponId: string; count: number }[];
+    warning?: string;
+}
+
+export interface TopUpSuggestion {
+    extraSpend: number;
+    newTotal: number;
+    // Additional discount compared with the current total
+    extraDiscount: number;
+    // extraDiscount - extraSpend
+    netGain: number;
+    solution: CouponUsage[];
+}
+
+// A range of cart totals over which one coupon combination is the best
+export interface SavingsSegment {
+    from: number;
+    // Last total before the next segment starts
+    to: number;
+    discountFrom: number;
+    // Same as discountFrom unless percentage coupons grow with the total
+    discountTo: number;
+    // Best plan at `from`
+    solution: CouponUsage[];
+}
+
+// Best discount against cart total, from 0 to the end of the top-up range
+export interface SavingsCurve {
+    segments: SavingsSegment[];
+    // Ranges where spending more saves nothing more
+    deadZones: { from: number; to: number }[];
+    // Set when there were too many breakpoints and only some are shown
+    sampled?: boolean;
+}
+
+export interface OrderItem {
+    itemId: string;
+    quantity: number;
+}
+
+export interface PlannedOrder {
+    amount: number;
+    // Contents of the order (item-level carts only)
+    items: OrderItem[];
+    coupons: CouponUsage[];
+    discount: number;
+    fee: number;
+    finalPrice: number;
+}
+
+// 'verified': proven best; 'checked': the plan is valid but not proven best; 'discrepancy': a check
+// failed; 'unverified': there is no independent check for this kind of plan
+export type VerificationStatus = 'verified' | 'checked' | 'discrepancy' | 'unverified';
+
+// Independent checks of a result
+export interface Verification {
+    status: VerificationStatus;
+    // Fractional (LP) relaxation: no plan saves more than this. Left out when unverified.
+    upperBound?: number;
+    // upperBound - totalDiscount
+    gap?: number;
+    // Why the plan wasn't checked (unverified only)
+    reason?: string;
+    // Best discount over every combination, when there were few enough to try them all
+    exhaustiveDiscount?: number;
+    // What failed, for the user
+    issues: string[];
+}
+
+// 'unusable': its terms are incomplete; 'out-of-reach': its lowest threshold is above the cart;
+// 'dominated': it could be used, but the others always do better, even with another copy of it
+export type CouponValueFlag = 'unusable' | 'out-of-reach' | 'dominated';
+
+// What one coupon is worth to the current cart, net of order fees
+export interface CouponValue {
+    couponId: string;
+    // Savings lost by removing one copy, and by removing every copy
+    dropOne: number;
+    dropAll: number;
+    // Savings gained from one more copy
+    gainOne: number;
+    flag?: CouponValueFlag;
+}
+
+// 'error': the input is left out until it is fixed; 'warning': it is used, perhaps not as meant
+export type IssueSeverity = 'error' | 'warning';
+
+// A problem with one field of an input, e.g. `threshold`, `count` or `tiers.1.discount`
+export interface FieldIssue {
+    field: string;
+    message: string;
+    severity: IssueSeverity;
+}
+
+export type InputKind = 'total' | 'coupon' | 'item' | 'purchase' | 'participant' | 'orders';
+
+// An input the solver left out (or replaced with a default), and why
+export interface IgnoredInput {
+    kind: InputKind;
+    // Set for coupons, items, purchases and participants
+    id?: string;
+    messages: string[];
+}
+
+export interface ParticipantShare {
+    participantId: string;
+    subtotal: number;
+    // Their part of the savings (net of extra order fees)
+    saved: number;
+    // subtotal - saved; negative when the others owe them
+    owes: number;
+}
+
+export interface GroupSplit {
+    scheme: SplitScheme;
+    // In the order the participants were given; the amounts owed add up to the final price
+    shares: ParticipantShare[];
+    // Shapley values were estimated from a sample of join orders (large groups)
+    sampled?: boolean;
 }
 
 export interface OptimizationResult {
@@ -15,5 +363,69 @@ export interface OptimizationResult {
     totalDiscount: number;
     finalPrice: number;
     solution: CouponUsage[];
+    // Application order. Percentage coupons depend on the price they are applied to.
+    steps?: AppliedStep[];
+    // Which cart items feed each coupon's threshold (item-level carts only).
+    allocations?: CouponAllocation[];
+    // Orders mode: the separate checkouts, and the fees paid on top of the single order you'd place anyway
+    orders?: PlannedOrder[];
+    extraFees?: number;
+    // Ways to save more by spending a little more, best net gain first
+    topUps?: TopUpSuggestion[];
+    // Best strategies first; the first one is the one described above
+    alternatives?: Strategy[];
+    // Schedule over the planned purchases, in date order
+    horizon?: HorizonPlan;
+    // Coupons the stacking rules kept out of the plan, and why
+    exclusions?: StackingExclusion[];
+    // Set when the search was cut short: the shown plan is the best found, and no plan saves more than this
+    discountUpperBound?: number;
+    // Left out only when options.verify is false
+    verification?: Verification;
+    savingsCurve?: SavingsCurve;
+    // One per coupon, in the order given; left out when the plan is only the best found (see discountUpperBound)
+    couponValues?: CouponValue[];
+    // Group orders only
+    split?: GroupSplit;
+    // Inputs that couldn't be used, in the order given
+    ignored?: IgnoredInput[];
     warning?: string;
 }
+
+// One coupon use to enter at checkout, in the order to enter them
+export interface CheckoutLine {
+    couponId: string;
+    // Terms as shown on the page, naming the tier for tiered coupons
+    coupon: string;
+    count: number;
+    discount: number;
+    // Price left once this line is applied (single orders only)
+    priceAfter?: number;
+    expiresOn?: string;
+}
+
+export interface CheckoutOrder {
+    amount: number;
+    // What to put in this order (item-level carts split into several orders only)
+    items: { name: string; quantity: number }[];
+    lines: CheckoutLine[];
+    discount: number;
+    fee: number;
+    finalPrice: number;
+}
+
+// A chosen strategy, self-contained, to take to checkout or send to someone without the app
+export interface CheckoutPlan {
+    currency: string;
+    total: number;
+    discount: number;
+    // Order fees on top of the single order you'd place anyway
+    extraFees: number;
+    finalPrice: number;
+    // A single order unless the purchase is split
+    orders: CheckoutOrder[];
+    // Group orders: what each person pays
+    shares?: { name: string; owes: number }[];
+    // Share link that opens the plan in the app
+    link?: string;
+}
@@ -0,0 +1,31 @@
+import { calculateOptimization } from '../lib/optimizer';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+// Minimum time between progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: WorkerResponse) {
+    self.postMessage(message);
+}
+
+// Solves run to the end: a newer request replaces the whole worker (see useOptimizer), since
+// messages aren't read while a solve is running
+function run(request: WorkerRequest) {
+    let lastTick = 0;
+    try {
+        const result = calculateOptimization(request.coupons, request.total, {
+            ...request.options,
+            onProgress: (fraction) => {
+                const now = performance.now();
+                if (now - lastTick < PROGRESS_INTERVAL_MS) return;
+                lastTick = now;
+                post({ type: 'progress', id: request.id, progress: Math.min(1, fraction) });
+            }
+        });
+        post({ type: 'result', id: request.id, result });
+    } catch (e) {
+        post({ type: 'error', id: request.id, message: e instanceof Error ? e.message : String(e) });
+    }
+}
+
+self.addEventListener('message', (e: MessageEvent<WorkerRequest>) => run(e.data));
@@ -0,0 +1,12 @@
+import type { Coupon, OptimizationOptions, OptimizationResult } from '../types';
+
+// Everything the solver needs, minus callbacks (they can't cross the worker boundary)
+export type SolveOptions = Omit<OptimizationOptions, 'onProgress'>;
+
+// A superseded solve is stopped by terminating the worker
+export type WorkerRequest = { type: 'solve'; id: number; coupons: Coupon[]; total: number; options: SolveOptions };
+
+export type WorkerResponse =
+    | { type: 'progress'; id: number; progress: number }
+    | { type: 'result'; id: number; result: OptimizationResult }
+    | { type: 'error'; id: number; message: string };
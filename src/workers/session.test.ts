@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizationResult } from '../types';
+import { debounce, fail, IDLE, receive, type SolverState } from './session';
+
+const result: OptimizationResult = { totalOriginal: 100, totalDiscount: 10, finalPrice: 90, solution: [] };
+const running = { id: 2, key: 'b' };
+const shown: SolverState = { result, key: 'a', progress: 0, error: null };
+
+describe('receive', () => {
+    it('ignores answers to superseded requests', () => {
+        expect(receive(running, { type: 'result', id: 1, result })).toBeNull();
+        expect(receive(null, { type: 'progress', id: 2, progress: 0.5 })).toBeNull();
+    });
+
+    it('keeps the request running through progress', () => {
+        const next = receive(running, { type: 'progress', id: 2, progress: 0.5 });
+        expect(next?.running).toBe(running);
+        expect(next?.update(shown)).toEqual({ ...shown, progress: 0.5 });
+    });
+
+    it('shows a result for the inputs it was asked for', () => {
+        const next = receive(running, { type: 'result', id: 2, result });
+        expect(next?.running).toBeNull();
+        expect(next?.update(IDLE)).toEqual({ result, key: 'b', progress: null, error: null });
+    });
+
+    it('keeps the last result next to an error', () => {
+        const next = receive(running, { type: 'error', id: 2, message: 'Out of memory' });
+        expect(next?.update(shown)).toEqual({ result, key: 'b', progress: null, error: 'Out of memory' });
+    });
+});
+
+describe('fail', () => {
+    it('ends the running request with the error', () => {
+        expect(fail(running, 'Stopped')(shown)).toEqual({ result, key: 'b', progress: null, error: 'Stopped' });
+        expect(fail(null, 'Stopped')(shown).key).toBe('a');
+    });
+});
+
+describe('debounce', () => {
+    // Timers that only fire when told to
+    const fakeTimers = () => {
+        const due = new Map<number, () => void>();
+        let next = 0;
+        return {
+            timers: {
+                set: (fn: () => void) => {
+                    due.set(++next, fn);
+                    return next;
+                },
+                clear: (handle: number) => {
+                    due.delete(handle);
+                }
+            },
+            fire: () => {
+                const fns = [...due.values()];
+                due.clear();
+                fns.forEach(fn => fn());
+            }
+        };
+    };
+
+    it('runs once after the last of several triggers', () => {
+        const { timers, fire } = fakeTimers();
+        let runs = 0;
+        const d = debounce(() => runs++, 250, timers);
+        d.trigger();
+        d.trigger();
+        d.trigger();
+        fire();
+        expect(runs).toBe(1);
+        fire();
+        expect(runs).toBe(1);
+    });
+
+    it('runs nothing once cancelled', () => {
+        const { timers, fire } = fakeTimers();
+        let runs = 0;
+        const d = debounce(() => runs++, 250, timers);
+        d.trigger();
+        d.cancel();
+        fire();
+        expect(runs).toBe(0);
+    });
+});
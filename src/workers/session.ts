@@ -0,0 +1,78 @@
+import type { OptimizationResult } from '../types';
+import type { WorkerResponse } from './protocol';
+
+// What the page shows of the solver
+export interface SolverState {
+    result: OptimizationResult | null;
+    // Inputs the current result was computed from
+    key: string | null;
+    progress: number | null;
+    error: string | null;
+}
+
+export const IDLE: SolverState = { result: null, key: null, progress: null, error: null };
+
+// The request posted last and not yet answered
+export interface Running {
+    id: number;
+    key: string;
+}
+
+/**
+ * What an answer from the worker changes: the request still unanswered afterwards, and the update
+ * to the shown state. Null for answers to a superseded request, which change nothing.
+ */
+export function receive(
+    running: Running | null,
+    message: WorkerResponse
+): { running: Running | null; update: (s: SolverState) => SolverState } | null {
+    if (!running || message.id !== running.id) return null;
+    switch (message.type) {
+        case 'progress':
+            return { running, update: s => ({ ...s, progress: message.progress }) };
+        case 'result':
+            return { running: null, update: () => ({ result: message.result, key: running.key, progress: null, error: null }) };
+        case 'error':
+            return { running: null, update: s => ({ ...s, key: running.key, progress: null, error: message.message }) };
+    }
+}
+
+// The worker died: whatever it was solving ends with `message`, and the last result stays shown
+export function fail(running: Running | null, message: string): (s: SolverState) => SolverState {
+    return s => ({ ...s, key: running?.key ?? s.key, progress: null, error: message });
+}
+
+export interface Debounce {
+    // (Re)starts the wait
+    trigger(): void;
+    cancel(): void;
+}
+
+/**
+ * Calls `run` once `trigger` hasn't been called for `delay` ms. The timer functions can be
+ * swapped out, e.g. for tests.
+ */
+export function debounce(
+    run: () => void,
+    delay: number,
+    timers: { set: (fn: () => void, ms: number) => number; clear: (handle: number) => void } = {
+        set: (fn, ms) => window.setTimeout(fn, ms),
+        clear: handle => window.clearTimeout(handle)
+    }
+): Debounce {
+    let handle: number | null = null;
+    const cancel = () => {
+        if (handle !== null) timers.clear(handle);
+        handle = null;
+    };
+    return {
+        trigger() {
+            cancel();
+            handle = timers.set(() => {
+                handle = null;
+                run();
+            }, delay);
+        },
+        cancel
+    };
+}
@@ -0,0 +1,22 @@
+import { builtinModules } from 'node:module'
+import { defineConfig } from 'vite'
+
+// Headless library and CLI for Node: `npm run build:lib` writes them to dist-lib/
+export default defineConfig({
+  // The page's static assets are not part of the library
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    target: 'node20',
+    lib: {
+      entry: {
+        index: 'src/index.ts',
+        cli: 'src/cli/main.ts',
+      },
+      formats: ['es'],
+    },
+    rollupOptions: {
+      external: [...builtinModules, /^node:/],
+    },
+  },
+})